@@ -3,6 +3,7 @@ import polygon from './polygon/index.json'
 import cronosTestnet from './cronosTestnet/index.json'
 import cronos from './cronos/index.json'
 import arbitrum from './arbitrum/index.json'
+import { AddressBook } from './schema'
 
 const config = {
   moonbeam,
@@ -10,8 +11,10 @@ const config = {
   cronosTestnet,
   cronos,
   arbitrum,
-}
+} satisfies Record<string, AddressBook>
 
 export default config
 
 export type Network = keyof typeof config
+
+export type { AddressBook, AddressBookEntry } from './schema'
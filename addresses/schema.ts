@@ -0,0 +1,13 @@
+// Contracts recorded with an empty address are placeholders for contracts not deployed on the network yet
+
+export interface AddressBookEntry {
+  address: string
+  // upgradeable contracts only, the owner of the contract and the ERC-1967 slots of its proxy
+  operator?: string
+  implementation?: string
+  proxyAdmin?: string
+  // libraries linked to the implementation, by name, or in link order for older deployments
+  libraries?: Record<string, string> | string[]
+}
+
+export type AddressBook = Record<string, AddressBookEntry>
@@ -5,6 +5,17 @@ import '@openzeppelin/hardhat-upgrades'
 import 'hardhat-spdx-license-identifier'
 import '@nomicfoundation/hardhat-toolbox'
 import 'hardhat-contract-sizer'
+import './tasks/addresses'
+import './tasks/batch-roles'
+import './tasks/create2'
+import './tasks/deploy'
+import './tasks/history'
+import './tasks/privileges'
+import './tasks/rental-offers'
+import './tasks/royalties'
+import './tasks/safe'
+import './tasks/transactions'
+import './tasks/upgrade'
 
 dotenv.config()
 
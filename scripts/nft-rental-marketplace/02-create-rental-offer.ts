@@ -1,22 +1,28 @@
 import { print, colors } from '../../utils/misc'
 import { callContractFunction } from '../../utils/write-contract'
+import { getSigner } from '../../utils/signer'
 import { randomBytes } from 'crypto'
 import { etherPerDayToWeiPerSecond } from '../../utils/bignumber'
 import { EMPTY_BYTES, ONE_DAY } from '../../utils/constants'
 import { USER_ROLE_MOONBEAM } from '../../utils/roles'
-import { ethers } from 'hardhat'
+import { ethers, network } from 'hardhat'
 import { RentalOffer } from '../../utils/types'
+import { RentalOfferValidationError, validateNftRentalOffer } from '../../utils/validate-rental-offer'
+import { rentalOfferIdOf } from '../../utils/offer-id'
+import { planCreateOfferApprovals } from '../../utils/approvals'
+import config, { Network } from '../../addresses'
 
 const CONTRACT_NAME = 'NftRentalMarketplace'
 const CONTRACT_FUNCTION = 'createRentalOffer'
+const NETWORK = network.name as Network
 
 async function main() {
   const blockTimestamp = (await ethers.provider.getBlock('latest'))!.timestamp
   const RENTAL_OFFER: RentalOffer = {
-    nonce: `0x${randomBytes(32).toString('hex')}`,
+    nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
     lender: '0xe3A75c99cD21674188bea652Fe378cA5cf7e7906',
     borrower: '0xe3A75c99cD21674188bea652Fe378cA5cf7e7906',
-    tokenId: 1994,
+    tokenId: BigInt(1994),
     tokenAddress: '0xcb13945ca8104f813992e4315f8ffefe64ac49ca', // GLMR jungle address
     feeTokenAddress: '0xd10078fdbc835726c79533a4a19db40cfad69d7f', // GLMB address
     feeAmountPerSecond: etherPerDayToWeiPerSecond('0'),
@@ -25,7 +31,21 @@ async function main() {
     roles: [USER_ROLE_MOONBEAM],
     rolesData: [EMPTY_BYTES],
   }
+
+  const sender = await (await getSigner()).getAddress()
+  const marketplace = await ethers.getContractAt(CONTRACT_NAME, config[NETWORK][CONTRACT_NAME].address)
+  const violations = await validateNftRentalOffer(marketplace, RENTAL_OFFER, sender)
+  if (violations.length > 0) throw new RentalOfferValidationError(violations)
+
+  for (const approval of await planCreateOfferApprovals(marketplace, RENTAL_OFFER)) {
+    print(colors.highlight, approval.description)
+    await callContractFunction(approval.contractName, approval.functionName, approval.args, {
+      CUSTOM_CONTRACT_ADDRESS: approval.contractAddress,
+    })
+  }
+
   await callContractFunction(CONTRACT_NAME, CONTRACT_FUNCTION, [RENTAL_OFFER])
+  print(colors.highlight, `Rental offer ID: ${rentalOfferIdOf(await marketplace.getAddress(), RENTAL_OFFER)}`)
 }
 
 main()
@@ -1,29 +1,39 @@
 import { print, colors } from '../../utils/misc'
 import { callContractFunction } from '../../utils/write-contract'
-import { etherPerDayToWeiPerSecond } from '../../utils/bignumber'
-import { EMPTY_BYTES, ONE_DAY } from '../../utils/constants'
-import { USER_ROLE_MOONBEAM } from '../../utils/roles'
-import { RentalOffer } from '../../utils/types'
+import { getSigner } from '../../utils/signer'
+import { ONE_DAY } from '../../utils/constants'
+import { quoteRental } from '../../utils/fee-quote'
+import { planAcceptOfferApprovals } from '../../utils/approvals'
+import { resolveRentalOffer } from '../../utils/resolve-rental-offer'
+import config, { Network } from '../../addresses'
+import { ethers, network } from 'hardhat'
 
 const CONTRACT_NAME = 'NftRentalMarketplace'
 const CONTRACT_FUNCTION = 'acceptRentalOffer'
+const NETWORK = network.name as Network
+// offer ID or hash of the transaction that created the offer
+const RENTAL_OFFER_ID =
+  '0x201e1636bb21dfd51f93815bcd008eae2fa29bd9-0xe3a75c99cd21674188bea652fe378ca5cf7e7906-115457453593754985652281111685552019968813348573560119211069111442109350087626'
 
 async function main() {
-  const RENTAL_OFFER: RentalOffer = {
-    nonce: '115457453593754985652281111685552019968813348573560119211069111442109350087626',
-    lender: '0xe3A75c99cD21674188bea652Fe378cA5cf7e7906',
-    borrower: '0xe3A75c99cD21674188bea652Fe378cA5cf7e7906',
-    tokenId: 1994,
-    tokenAddress: '0xcb13945ca8104f813992e4315f8ffefe64ac49ca', // GLMR jungle address
-    feeTokenAddress: '0xd10078fdbc835726c79533a4a19db40cfad69d7f', // GLMB address
-    feeAmountPerSecond: etherPerDayToWeiPerSecond('0'),
-    deadline: 1714599894,
-    minDuration: 0,
-    roles: [USER_ROLE_MOONBEAM],
-    rolesData: [EMPTY_BYTES],
-  }
+  const { offerId, offer: RENTAL_OFFER } = await resolveRentalOffer(RENTAL_OFFER_ID)
   const DURATION = ONE_DAY / 2
-  await callContractFunction(CONTRACT_NAME, CONTRACT_FUNCTION, [RENTAL_OFFER, DURATION])
+
+  const borrower = await (await getSigner()).getAddress()
+  const marketplace = await ethers.getContractAt(CONTRACT_NAME, config[NETWORK][CONTRACT_NAME].address)
+  print(colors.highlight, `Rental offer ID: ${offerId}`)
+  const quote = await quoteRental(marketplace, RENTAL_OFFER, DURATION)
+  print(colors.highlight, `Fee quote:`)
+  console.log(quote)
+
+  for (const approval of await planAcceptOfferApprovals(marketplace, RENTAL_OFFER, DURATION, borrower)) {
+    print(colors.highlight, approval.description)
+    await callContractFunction(approval.contractName, approval.functionName, approval.args, {
+      CUSTOM_CONTRACT_ADDRESS: approval.contractAddress,
+    })
+  }
+
+  await callContractFunction(CONTRACT_NAME, CONTRACT_FUNCTION, [RENTAL_OFFER, DURATION, { value: quote.msgValue }])
 }
 
 main()
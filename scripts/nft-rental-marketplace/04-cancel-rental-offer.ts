@@ -1,27 +1,16 @@
 import { print, colors } from '../../utils/misc'
 import { callContractFunction } from '../../utils/write-contract'
-import { etherPerDayToWeiPerSecond } from '../../utils/bignumber'
-import { EMPTY_BYTES } from '../../utils/constants'
-import { USER_ROLE_MOONBEAM } from '../../utils/roles'
-import { RentalOffer } from '../../utils/types'
+import { resolveRentalOffer } from '../../utils/resolve-rental-offer'
 
 const CONTRACT_NAME = 'NftRentalMarketplace'
 const CONTRACT_FUNCTION = 'cancelRentalOffer'
+// offer ID or hash of the transaction that created the offer
+const RENTAL_OFFER_ID =
+  '0x201e1636bb21dfd51f93815bcd008eae2fa29bd9-0xe3a75c99cd21674188bea652fe378ca5cf7e7906-41073076454465649804684789998370311225937584494094599799884085085462612297440'
 
 async function main() {
-  const RENTAL_OFFER: RentalOffer = {
-    nonce: '41073076454465649804684789998370311225937584494094599799884085085462612297440',
-    lender: '0xe3A75c99cD21674188bea652Fe378cA5cf7e7906',
-    borrower: '0xe3A75c99cD21674188bea652Fe378cA5cf7e7906',
-    tokenId: 1994,
-    tokenAddress: '0xcb13945ca8104f813992e4315f8ffefe64ac49ca', // GLMR jungle address
-    feeTokenAddress: '0xd10078fdbc835726c79533a4a19db40cfad69d7f', // GLMB address
-    feeAmountPerSecond: etherPerDayToWeiPerSecond('0'),
-    deadline: 1714599360,
-    minDuration: 0,
-    roles: [USER_ROLE_MOONBEAM],
-    rolesData: [EMPTY_BYTES],
-  }
+  const { offerId, offer: RENTAL_OFFER } = await resolveRentalOffer(RENTAL_OFFER_ID)
+  print(colors.highlight, `Rental offer ID: ${offerId}`)
   await callContractFunction(CONTRACT_NAME, CONTRACT_FUNCTION, [RENTAL_OFFER])
 }
 
@@ -1,16 +1,45 @@
 import { print, colors } from '../../utils/misc'
 import { callContractFunction } from '../../utils/write-contract'
 import addresses, { Network } from '../../addresses'
-import { network } from 'hardhat'
+import { ethers, network } from 'hardhat'
+import { etherPerDayToWeiPerSecond } from '../../utils/bignumber'
+import { EMPTY_BYTES, ONE_DAY } from '../../utils/constants'
+import { USER_ROLE_MOONBEAM } from '../../utils/roles'
+import { RentalOffer } from '../../utils/types'
+import { planCreateOfferApprovals } from '../../utils/approvals'
 
 const NETWORK = network.name as Network
-const CONTRACT_NAME = 'MockERC721'
-const CONTRACT_FUNCTION = 'setApprovalForAll'
-const FUNCTION_PARAMS = [addresses[NETWORK].NftRentalMarketplace.address, true]
-const CUSTOM_CONTRACT_ADDRESS = '0xcB13945Ca8104f813992e4315F8fFeFE64ac49cA'
+const CONTRACT_NAME = 'NftRentalMarketplace'
 
 async function main() {
-  await callContractFunction(CONTRACT_NAME, CONTRACT_FUNCTION, FUNCTION_PARAMS, { CUSTOM_CONTRACT_ADDRESS })
+  const blockTimestamp = (await ethers.provider.getBlock('latest'))!.timestamp
+  const RENTAL_OFFER: RentalOffer = {
+    nonce: BigInt(1),
+    lender: '0xe3A75c99cD21674188bea652Fe378cA5cf7e7906',
+    borrower: '0xe3A75c99cD21674188bea652Fe378cA5cf7e7906',
+    tokenId: BigInt(1994),
+    tokenAddress: '0xcb13945ca8104f813992e4315f8ffefe64ac49ca', // GLMR jungle address
+    feeTokenAddress: '0xd10078fdbc835726c79533a4a19db40cfad69d7f', // GLMB address
+    feeAmountPerSecond: etherPerDayToWeiPerSecond('0'),
+    deadline: blockTimestamp + ONE_DAY,
+    minDuration: 0,
+    roles: [USER_ROLE_MOONBEAM],
+    rolesData: [EMPTY_BYTES],
+  }
+
+  const marketplace = await ethers.getContractAt(CONTRACT_NAME, addresses[NETWORK][CONTRACT_NAME].address)
+  const approvals = await planCreateOfferApprovals(marketplace, RENTAL_OFFER)
+  if (approvals.length === 0) {
+    print(colors.success, 'All approvals are already in place')
+    return
+  }
+
+  for (const approval of approvals) {
+    print(colors.highlight, approval.description)
+    await callContractFunction(approval.contractName, approval.functionName, approval.args, {
+      CUSTOM_CONTRACT_ADDRESS: approval.contractAddress,
+    })
+  }
 }
 
 main()
@@ -2,7 +2,9 @@ import { ethers, network as hardhatNetwork, defender, upgrades } from 'hardhat'
 import hre from 'hardhat'
 import config, { Network } from '../../addresses'
 import { colors, print, confirmOrDie } from '../../utils/misc'
-import { updateJsonFile } from '../../utils/json'
+import { recordDeployment } from '../../utils/deployment-history'
+import { assertUpgradeCompatible } from '../../utils/upgrade-check'
+import { getSigner } from '../../utils/signer'
 
 async function main() {
   const NETWORK = hardhatNetwork.name as Network
@@ -10,20 +12,25 @@ async function main() {
   const CONTRACT_ADDRESS = config[NETWORK][CONTRACT_NAME].address
   const OPERATOR_ADDRESS = config[NETWORK].Multisig.address
 
+  await assertUpgradeCompatible(CONTRACT_NAME, CONTRACT_ADDRESS)
+
   await confirmOrDie(`Are you sure you want to propose an upgrade for ${CONTRACT_NAME} on ${NETWORK} network?`)
 
   print(colors.highlight, `Proposing upgrade for ${CONTRACT_NAME} on ${NETWORK} network...`)
 
-  const newContract = await ethers.getContractFactory(CONTRACT_NAME)
+  const deployer = await getSigner()
+  const newContract = await ethers.getContractFactory(CONTRACT_NAME, deployer)
   const proposal = await defender.proposeUpgrade(CONTRACT_ADDRESS, newContract)
 
   print(colors.success, `Upgrade proposal created at: ${proposal.url}`)
 
   const tx = await proposal.txResponse?.wait()
 
-  const implementationAddress = tx?.contractAddress
+  // no transaction when the implementation of the current build was already deployed, the manifest has its address
+  const implementationAddress =
+    tx?.contractAddress ?? ((await upgrades.prepareUpgrade(CONTRACT_ADDRESS, newContract)) as string)
 
-  print(colors.highlight, 'Updating config files...')
+  print(colors.highlight, 'Recording the proposal in the deployment history...')
   const deploymentInfo = {
     [CONTRACT_NAME]: {
       address: CONTRACT_ADDRESS,
@@ -35,9 +42,16 @@ async function main() {
 
   console.log(deploymentInfo)
 
-  updateJsonFile(`addresses/${NETWORK}/index.json`, deploymentInfo)
+  // the upgrade is only live once the multisig executes the proposal, history:seed records it then
+  await recordDeployment(NETWORK, {
+    action: 'PROPOSE',
+    contractName: CONTRACT_NAME,
+    entry: deploymentInfo[CONTRACT_NAME],
+    transactionHashes: proposal.txResponse ? [proposal.txResponse.hash] : [],
+    deployer: await deployer.getAddress(),
+  })
 
-  print(colors.success, 'Config files updated!')
+  print(colors.success, 'Proposal recorded!')
 
   try {
     print(colors.highlight, 'Verifying implementation...')
@@ -1,13 +1,12 @@
 import { ZeroAddress } from 'ethers'
 import { print, colors } from '../../utils/misc'
 import { callContractFunction } from '../../utils/write-contract'
-import { kmsDeployer } from '../../utils/deployer'
 
 const CONTRACT_NAME = 'OriumMarketplaceRoyalties'
 const CONTRACT_FUNCTION = 'setDefaultNftRolesRegistry'
 const CONTRACT_ARGUMENTS = [ZeroAddress]
 async function main() {
-  await callContractFunction(CONTRACT_NAME, CONTRACT_FUNCTION, CONTRACT_ARGUMENTS, kmsDeployer as any)
+  await callContractFunction(CONTRACT_NAME, CONTRACT_FUNCTION, CONTRACT_ARGUMENTS, {})
 }
 
 main()
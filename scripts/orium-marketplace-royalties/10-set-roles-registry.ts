@@ -1,4 +1,3 @@
-import { kmsDeployer } from '../../utils/deployer'
 import { print, colors } from '../../utils/misc'
 import { callContractFunction } from '../../utils/write-contract'
 
@@ -9,7 +8,7 @@ const ROLES_REGISTRY = '0xc3154ccac181eb9d71ccd53f29f425bddd52d983'
 const CONTRACT_ARGUMENTS = [TOKEN_ADDRESS, ROLES_REGISTRY]
 
 async function main() {
-  await callContractFunction(CONTRACT_NAME, CONTRACT_FUNCTION, CONTRACT_ARGUMENTS, kmsDeployer as any)
+  await callContractFunction(CONTRACT_NAME, CONTRACT_FUNCTION, CONTRACT_ARGUMENTS, {})
 }
 
 main()
@@ -1,11 +1,10 @@
-import { ethers, network as hardhatNetwork } from 'hardhat'
+import { network as hardhatNetwork } from 'hardhat'
 import config, { Network } from '../../addresses'
 import { colors, print, confirmOrDie } from '../../utils/misc'
-import { SftRentalOffer } from '../../utils/types'
-import { AddressZero } from '../../utils/constants'
+import { MarketplaceClient } from '../../utils/marketplace-client'
+import { resolveRentalOffer } from '../../utils/resolve-rental-offer'
 
-const SubgraphUrl =
-  'https://subgraph.satsuma-prod.com/83d01390f7d3/8c268d3e8b83112a7d0c732a9b88ba1c732da600bffaf68790171b9a0b5d5394/polygon-mainnet_orium-rental-marketplace/api'
+// offer ID or hash of the transaction that created the offer
 const RentalOfferId =
   '0xb1d47b09aa6d81d7b00c3a37705a6a157b83c49f-0xe3a75c99cd21674188bea652fe378ca5cf7e7906-14344696136470398584960849697232759012848660868945066915928195870336883158802'
 
@@ -14,81 +13,26 @@ async function main() {
   const CONTRACT_NAME = 'OriumSftMarketplace'
   const CONTRACT_ADDRESS = config[NETWORK][CONTRACT_NAME].address
 
-  const rentalOffer = await fetchRentalOffer(RentalOfferId)
+  const { offerId, marketplace, offer: rentalOffer, blockNumber } = await resolveRentalOffer(RentalOfferId)
+  if (marketplace.toLowerCase() !== CONTRACT_ADDRESS.toLowerCase()) {
+    throw new Error(`Rental offer ${offerId} does not belong to ${CONTRACT_NAME} on ${NETWORK} network`)
+  }
   console.log('Rental offer:', rentalOffer)
 
+  const client = await MarketplaceClient.create(NETWORK)
+  const { status } = await client.getStatus(rentalOffer, blockNumber)
+  if (status === 'CANCELLED') {
+    throw new Error('Rental offer is already cancelled')
+  }
+
   await confirmOrDie(`Are you sure you want to cancel a rental offer in ${CONTRACT_NAME} on ${NETWORK} network?`)
 
-  const contract = await ethers.getContractAt(CONTRACT_NAME, CONTRACT_ADDRESS)
-  const tx = await contract.cancelRentalOffer(rentalOffer, { gasPrice: 50 * 1e9 })
+  const { receipt } = await client.delistOffer(rentalOffer, { gasPrice: 50 * 1e9 })
 
-  print(colors.highlight, `Transaction hash: ${tx.hash}`)
+  print(colors.highlight, `Transaction hash: ${receipt.hash}`)
   print(colors.success, `Cancelled rental offer in ${CONTRACT_NAME} on ${NETWORK} network!`)
 }
 
-async function fetchRentalOffer(rentalOfferId: string): Promise<SftRentalOffer> {
-  const query = `
-    {
-      rentalOffer(id: "${rentalOfferId}") {
-        nonce
-        lender {
-          id
-        }
-        borrower {
-          id
-        }
-        nft {
-          tokenAddress
-          tokenId
-        }
-        tokenAmount
-        tokenCommitment {
-          commitmentId
-        }
-        feeTokenAddress
-        feeAmountPerSecond
-        deadline
-        isCancelled
-        roles {
-          roleHash
-        }
-        rolesData
-      }
-    }
-  `
-
-  const response = await fetch(SubgraphUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ query }),
-  })
-
-  const { data, errors } = await response.json()
-  if (errors) {
-    throw new Error(JSON.stringify(errors, null, 2))
-  }
-
-  // console.log('Rental offer:', data)
-  if (data.rentalOffer.isCancelled) {
-    throw new Error('Rental offer is already cancelled')
-  }
-
-  return {
-    nonce: data.rentalOffer.nonce,
-    lender: data.rentalOffer.lender.id,
-    borrower: data.rentalOffer.borrower?.id.toLowerCase() || AddressZero,
-    tokenAddress: data.rentalOffer.nft.tokenAddress,
-    tokenId: data.rentalOffer.nft.tokenId,
-    tokenAmount: data.rentalOffer.tokenAmount,
-    commitmentId: data.rentalOffer.tokenCommitment.commitmentId,
-    feeTokenAddress: data.rentalOffer.feeTokenAddress,
-    feeAmountPerSecond: data.rentalOffer.feeAmountPerSecond,
-    deadline: data.rentalOffer.deadline,
-    roles: data.rentalOffer.roles.map((role: { roleHash: string }) => role.roleHash),
-    rolesData: data.rentalOffer.rolesData,
-  }
-}
-
 main()
   .then(() => {
     console.log('Done!')
@@ -2,21 +2,29 @@ import { ethers, network as hardhatNetwork, defender, upgrades } from 'hardhat'
 import hre from 'hardhat'
 import config, { Network } from '../../addresses'
 import { colors, print, confirmOrDie } from '../../utils/misc'
-import { updateJsonFile } from '../../utils/json'
+import { recordDeployment } from '../../utils/deployment-history'
+import { assertUpgradeCompatible } from '../../utils/upgrade-check'
+import { getSigner } from '../../utils/signer'
 
 async function main() {
   const NETWORK = hardhatNetwork.name as Network
   const CONTRACT_NAME = 'OriumSftMarketplace'
-  const CONTRACT_ADDRESS = config[NETWORK][CONTRACT_NAME].address
+  const { address: CONTRACT_ADDRESS, libraries: CURRENT_LIBRARIES } = config[NETWORK][CONTRACT_NAME] as {
+    address: string
+    libraries?: string[]
+  }
   const LIBRARY_NAME = 'LibOriumSftMarketplace'
   const OPERATOR_ADDRESS = config[NETWORK].Multisig.address
 
+  await assertUpgradeCompatible(CONTRACT_NAME, CONTRACT_ADDRESS, CURRENT_LIBRARIES)
+
   await confirmOrDie(`Are you sure you want to propose an upgrade for ${CONTRACT_NAME} on ${NETWORK} network?`)
 
   print(colors.highlight, `Proposing upgrade for ${CONTRACT_NAME} on ${NETWORK} network...`)
 
   print(colors.highlight, 'Deploying new library...')
-  const LibraryFactory = await ethers.getContractFactory(LIBRARY_NAME)
+  const deployer = await getSigner()
+  const LibraryFactory = await ethers.getContractFactory(LIBRARY_NAME, deployer)
   const library = await LibraryFactory.deploy({
     maxFeePerGas: ethers.parseUnits('120', 'gwei'),
     maxPriorityFeePerGas: ethers.parseUnits('50', 'gwei'),
@@ -28,32 +36,47 @@ async function main() {
 
   const newContract = await ethers.getContractFactory(CONTRACT_NAME, {
     libraries: { [LIBRARY_NAME]: libraryAddress },
+    signer: deployer,
   })
   const proposal = await defender.proposeUpgrade(CONTRACT_ADDRESS, newContract, {
     unsafeAllowLinkedLibraries: true,
   })
 
   const tx = await proposal.txResponse?.wait()
-  const implementationAddress = tx?.contractAddress
+  // no transaction when the implementation of the current build was already deployed, the manifest has its address
+  const implementationAddress =
+    tx?.contractAddress ??
+    ((await upgrades.prepareUpgrade(CONTRACT_ADDRESS, newContract, {
+      unsafeAllowLinkedLibraries: true,
+    })) as string)
 
   print(colors.success, `Upgrade proposal created at: ${proposal.url}`)
 
-  print(colors.highlight, 'Updating config files...')
+  print(colors.highlight, 'Recording the proposal in the deployment history...')
   const deploymentInfo = {
     [CONTRACT_NAME]: {
       address: CONTRACT_ADDRESS,
       operator: OPERATOR_ADDRESS,
       implementation: implementationAddress,
       proxyAdmin: await upgrades.erc1967.getAdminAddress(CONTRACT_ADDRESS),
-      libraries: [libraryAddress],
+      libraries: { [LIBRARY_NAME]: libraryAddress },
     },
   }
 
   console.log(deploymentInfo)
 
-  updateJsonFile(`addresses/${NETWORK}/index.json`, deploymentInfo)
+  // the upgrade is only live once the multisig executes the proposal, history:seed records it then
+  const transactionHashes = [library.deploymentTransaction()!.hash]
+  if (proposal.txResponse) transactionHashes.push(proposal.txResponse.hash)
+  await recordDeployment(NETWORK, {
+    action: 'PROPOSE',
+    contractName: CONTRACT_NAME,
+    entry: deploymentInfo[CONTRACT_NAME],
+    transactionHashes,
+    deployer: await deployer.getAddress(),
+  })
 
-  print(colors.success, 'Config files updated!')
+  print(colors.success, 'Proposal recorded!')
 
   print(colors.highlight, 'Verifying Library...')
   try {
@@ -0,0 +1,38 @@
+import { network as hardhatNetwork } from 'hardhat'
+import { Network } from '../../addresses'
+import { colors, print } from '../../utils/misc'
+import { MarketplaceClient } from '../../utils/marketplace-client'
+import { resolveRentalOffer } from '../../utils/resolve-rental-offer'
+
+// offer ID or hash of the transaction that created the offer
+const RENTAL_OFFER_ID =
+  '0xb1d47b09aa6d81d7b00c3a37705a6a157b83c49f-0xe3a75c99cd21674188bea652fe378ca5cf7e7906-88503925159079469072461611536684263787861271681407587493144538997301870344226'
+
+async function main() {
+  const NETWORK = hardhatNetwork.name as Network
+  const CONTRACT_NAME = 'OriumSftMarketplace'
+
+  const client = await MarketplaceClient.create(NETWORK)
+  const CONTRACT_ADDRESS = await client.oriumSftMarketplace.getAddress()
+
+  const { offerId, marketplace, offer: rentalOffer, blockNumber } = await resolveRentalOffer(RENTAL_OFFER_ID)
+  if (marketplace.toLowerCase() !== CONTRACT_ADDRESS.toLowerCase()) {
+    throw new Error(`Rental offer ${offerId} does not belong to ${CONTRACT_NAME} on ${NETWORK} network`)
+  }
+
+  print(colors.highlight, `Rental offer ID: ${offerId}`)
+  const report = await client.getStatus(rentalOffer, blockNumber)
+
+  print(colors.success, `Status: ${report.status}`)
+  console.log(report)
+  report.inconsistencies.forEach(inconsistency => print(colors.warn, inconsistency))
+}
+
+main()
+  .then(() => {
+    console.log('Done!')
+  })
+  .catch(error => {
+    console.error(error)
+    process.exitCode = 1
+  })
@@ -0,0 +1,53 @@
+import { readdirSync } from 'fs'
+import { task } from 'hardhat/config'
+import { colors, print } from '../utils/misc'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+interface AddressesCheckArgs {
+  contract?: string
+}
+
+task('addresses:validate', 'Validates the address book of every network against its schema').setAction(async () => {
+  const { readAddressBook } = await import('../utils/address-book')
+
+  let valid = true
+  for (const network of readdirSync('addresses', { withFileTypes: true }).filter(entry => entry.isDirectory())) {
+    try {
+      readAddressBook(`addresses/${network.name}/index.json`)
+      print(colors.success, `${network.name}: valid`)
+    } catch (e) {
+      print(colors.error, `${network.name}: ${(e as Error).message}`)
+      valid = false
+    }
+  }
+  if (!valid) process.exitCode = 1
+})
+
+task('addresses:check', 'Checks the address book of the network against the chain')
+  .addOptionalParam('contract', 'Entry to check, all of them by default')
+  .setAction(async (args: AddressesCheckArgs, hre) => {
+    const { checkAddressBook, readAddressBook } = await import('../utils/address-book')
+
+    const addressBookPath = `addresses/${hre.network.name}/index.json`
+    const addressBook = readAddressBook(addressBookPath)
+    const checks = await checkAddressBook(addressBook, args.contract ? [args.contract] : undefined)
+
+    print(colors.highlight, `Consistency of ${addressBookPath} on ${hre.network.name} network`)
+    console.table(
+      checks.map(({ contractName, check, status, expected, actual, detail }) => ({
+        contract: contractName,
+        check,
+        status,
+        expected: expected ?? '',
+        actual: actual ?? '',
+        detail: detail ?? '',
+      })),
+    )
+    const mismatches = checks.filter(({ status }) => status === 'MISMATCH').length
+    if (mismatches > 0) {
+      print(colors.error, `${mismatches} mismatches found`)
+      process.exitCode = 1
+    } else print(colors.success, 'The address book matches the chain')
+  })
@@ -0,0 +1,159 @@
+import { task, types } from 'hardhat/config'
+import { Network } from '../addresses'
+import type { BatchRow } from '../utils/batch-roles'
+import type { ContractCall } from '../utils/safe-batch'
+import { colors, confirmOrDie, print } from '../utils/misc'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+const DEFAULT_GAS_BUDGET = 8_000_000
+
+interface BatchRolesArgs {
+  csv: string
+  report?: string
+  gasBudget: number
+}
+
+task('roles:grant', 'Grants roles directly from a CSV file, in batches that fit a gas budget')
+  .addParam('csv', 'CSV file with tokenAddress, tokenId, amount, role, grantee, expiration and revocable columns')
+  .addOptionalParam('report', 'CSV file to write the result of each row to, <csv>.report.csv by default')
+  .addOptionalParam('gasBudget', 'Maximum gas of each transaction', DEFAULT_GAS_BUDGET, types.int)
+  .setAction(async (args: BatchRolesArgs, hre) => {
+    const { MarketplaceClient } = await import('../utils/marketplace-client')
+    const { planBatchGrantRoleApprovals } = await import('../utils/approvals')
+    const { callContractFunction, callContractFunctions, sendModeOf } = await import('../utils/write-contract')
+    const {
+      chunkRows,
+      estimateGrantRoleRows,
+      grantRoleCalls,
+      grantRoleChunks,
+      parseGrantRoleRows,
+      readCsvRows,
+      writeReport,
+    } = await import('../utils/batch-roles')
+    const { getSigner } = await import('../utils/signer')
+
+    const signer = await getSigner()
+    const client = await MarketplaceClient.create(hre.network.name as Network, signer)
+    const report = args.report ?? args.csv.replace(/(\.csv)?$/, '.report.csv')
+    const gasBudget = BigInt(args.gasBudget)
+
+    const signerAddress = await signer.getAddress()
+    const rows = await parseGrantRoleRows(readCsvRows(args.csv), signerAddress)
+    // in dry-run and export modes, the approvals are simulated or exported with the batches, so the rows that need
+    // them are estimated before they are given and reported INVALID
+    const approvals: ContractCall[] = []
+    for (const isSft of [false, true]) {
+      const params = rows.flatMap(row =>
+        row.status === 'PENDING' && 'commitmentId' in row.params! === isSft ? [row.params!] : [],
+      )
+      if (params.length === 0) continue
+
+      const marketplace = isSft ? client.oriumSftMarketplace : client.nftRentalMarketplace
+      for (const approval of await planBatchGrantRoleApprovals(marketplace, params, signerAddress)) {
+        print(colors.highlight, approval.description)
+        if (sendModeOf() !== 'send') {
+          approvals.push(approval)
+          continue
+        }
+        await callContractFunction(approval.contractName, approval.functionName, approval.args, {
+          CUSTOM_CONTRACT_ADDRESS: approval.contractAddress,
+          CUSTOM_SIGNER: signer,
+        })
+      }
+    }
+
+    await estimateGrantRoleRows(client, rows)
+    const chunks = chunkRows(rows, gasBudget)
+    printValidation(hre.network.name, rows, chunks.length, report)
+    writeReport(report, rows)
+    if (chunks.length === 0) return
+    if (sendModeOf() !== 'send') {
+      await callContractFunctions([...approvals, ...(await grantRoleCalls(client, chunks))], { CUSTOM_SIGNER: signer })
+      return
+    }
+
+    await confirmOrDie(
+      `Are you sure you want to grant ${chunks.flat().length} roles in ${chunks.length} transactions on ${
+        hre.network.name
+      } network?`,
+    )
+    await grantRoleChunks(client, chunks, gasBudget)
+    writeReport(report, rows)
+    printResult(rows, 'GRANTED', report)
+  })
+
+task(
+  'roles:revoke',
+  'Revokes roles from a CSV file, such as the report of roles:grant, in batches that fit a gas budget',
+)
+  .addParam(
+    'csv',
+    'CSV file with tokenAddress, role and either tokenId (NFT) or commitmentId and grantee (SFT) columns',
+  )
+  .addOptionalParam('report', 'CSV file to write the result of each row to, <csv>.report.csv by default')
+  .addOptionalParam('gasBudget', 'Maximum gas of each transaction', DEFAULT_GAS_BUDGET, types.int)
+  .setAction(async (args: BatchRolesArgs, hre) => {
+    const { MarketplaceClient } = await import('../utils/marketplace-client')
+    const { callContractFunctions, sendModeOf } = await import('../utils/write-contract')
+    const {
+      chunkRows,
+      estimateRevokeRoleRows,
+      parseRevokeRoleRows,
+      readCsvRows,
+      revokeRoleCalls,
+      revokeRoleChunks,
+      writeReport,
+    } = await import('../utils/batch-roles')
+    const { getSigner } = await import('../utils/signer')
+
+    const signer = await getSigner()
+    const client = await MarketplaceClient.create(hre.network.name as Network, signer)
+    const report = args.report ?? args.csv.replace(/(\.csv)?$/, '.report.csv')
+    const gasBudget = BigInt(args.gasBudget)
+
+    const rows = parseRevokeRoleRows(readCsvRows(args.csv))
+    await estimateRevokeRoleRows(client, rows)
+    const chunks = chunkRows(rows, gasBudget)
+    printValidation(hre.network.name, rows, chunks.length, report)
+    writeReport(report, rows)
+    if (chunks.length === 0) return
+    if (sendModeOf() !== 'send') {
+      await callContractFunctions(await revokeRoleCalls(client, chunks), { CUSTOM_SIGNER: signer })
+      return
+    }
+
+    await confirmOrDie(
+      `Are you sure you want to revoke ${chunks.flat().length} roles in ${chunks.length} transactions on ${
+        hre.network.name
+      } network?`,
+    )
+    await revokeRoleChunks(client, chunks, gasBudget)
+    writeReport(report, rows)
+    printResult(rows, 'REVOKED', report)
+  })
+
+function printValidation<T>(network: string, rows: BatchRow<T>[], transactions: number, report: string) {
+  rows
+    .filter(row => row.status === 'INVALID' || row.status === 'SKIPPED')
+    .forEach(row => print(colors.warn, `Line ${row.line} ${row.status}: ${row.error}`))
+
+  const pendingRows = rows.filter(row => row.status === 'PENDING').length
+  print(
+    colors.highlight,
+    `${pendingRows} of ${rows.length} rows are valid, ${transactions} transactions on ${network} network`,
+  )
+  if (transactions === 0) print(colors.warn, `Nothing to send, see ${report}`)
+}
+
+function printResult<T>(rows: BatchRow<T>[], sentStatus: string, report: string) {
+  const sentRows = rows.filter(row => row.status === sentStatus).length
+  const failedRows = rows.filter(row => row.status === 'FAILED')
+  failedRows.forEach(row => print(colors.error, `Line ${row.line} FAILED: ${row.error}`))
+  print(
+    failedRows.length > 0 ? colors.warn : colors.success,
+    `${sentRows} rows ${sentStatus}, ${failedRows.length} FAILED`,
+  )
+  print(colors.highlight, `Report saved to ${report}`)
+}
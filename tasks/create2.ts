@@ -0,0 +1,84 @@
+import { task } from 'hardhat/config'
+import { colors, print } from '../utils/misc'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+interface Create2Args {
+  contract: string
+  salt: string
+  factory?: string
+  owner?: string
+  manifest?: string
+}
+
+task('create2:predict', 'Predicts the CREATE2 addresses of a contract deployed through ImmutableOwnerCreate2Factory')
+  .addParam('contract', 'Contract of the deployment manifest, or a library or contract without constructor arguments')
+  .addOptionalParam('salt', 'Label the salts are derived from', 'v1')
+  .addOptionalParam('factory', 'Factory address, ImmutableOwnerCreate2Factory of the config file by default')
+  .addOptionalParam('owner', 'Account that deploys through the factory, KMSDeployer of the config file by default')
+  .addOptionalParam('manifest', 'Deployment manifest, addresses/<network>/deployment.json by default')
+  .setAction(async (args: Create2Args, hre) => {
+    const { predictCreate2Deployment, predictCreate2UpgradeableDeployment } = await import('../utils/create2')
+    const { deploymentManifestPath, readDeploymentManifest, resolveContractDeployment } = await import(
+      '../utils/deployment-manifest'
+    )
+
+    const addressBookPath = `addresses/${hre.network.name}/index.json`
+    const factory = args.factory ?? (await addressOf(addressBookPath, 'ImmutableOwnerCreate2Factory'))
+    const owner = args.owner ?? (await addressOf(addressBookPath, 'KMSDeployer'))
+    const manifest = readDeploymentManifest(args.manifest ?? deploymentManifestPath(hre.network.name))
+
+    const deployments = []
+    if (args.contract in manifest.contracts) {
+      const { operator, initializer, libraries } = resolveContractDeployment(manifest, args.contract, addressBookPath)
+      const deployment = await predictCreate2UpgradeableDeployment(
+        factory,
+        owner,
+        args.salt,
+        args.contract,
+        operator,
+        initializer,
+        libraries,
+      )
+      deployments.push(...Object.values(deployment.libraries), deployment.implementation, deployment.proxy)
+    } else {
+      const ContractFactory = await hre.ethers.getContractFactory(args.contract)
+      const { data } = await ContractFactory.getDeployTransaction()
+      deployments.push(predictCreate2Deployment(factory, owner, `${args.salt}/${args.contract}`, data, args.contract))
+    }
+
+    print(colors.highlight, `CREATE2 deployments of ${owner} through ${factory}`)
+    const rows = []
+    for (const { description, address, salt } of deployments) {
+      const deployed = (await hre.ethers.provider.getCode(address)) !== '0x'
+      rows.push({ deployment: description, address, deployed, salt })
+    }
+    console.table(rows)
+  })
+
+task('create2:deploy', 'Deploys a contract of the deployment manifest through ImmutableOwnerCreate2Factory')
+  .addParam('contract', 'Contract of the deployment manifest')
+  .addOptionalParam('salt', 'Label the salts are derived from', 'v1')
+  .addOptionalParam('factory', 'Factory address, ImmutableOwnerCreate2Factory of the config file by default')
+  .addOptionalParam('manifest', 'Deployment manifest, addresses/<network>/deployment.json by default')
+  .setAction(async (args: Omit<Create2Args, 'owner'>, hre) => {
+    const { deployCreate2UpgradeableContract } = await import('../utils/create2')
+    const { deploymentManifestPath, readDeploymentManifest, resolveContractDeployment } = await import(
+      '../utils/deployment-manifest'
+    )
+
+    const addressBookPath = `addresses/${hre.network.name}/index.json`
+    const factory = args.factory ?? (await addressOf(addressBookPath, 'ImmutableOwnerCreate2Factory'))
+    const manifest = readDeploymentManifest(args.manifest ?? deploymentManifestPath(hre.network.name))
+    const { operator, initializer, libraries } = resolveContractDeployment(manifest, args.contract, addressBookPath)
+
+    await deployCreate2UpgradeableContract(factory, args.salt, args.contract, operator, initializer, libraries)
+  })
+
+async function addressOf(addressBookPath: string, contractName: string): Promise<string> {
+  const { readFileSync } = await import('fs')
+  const address = JSON.parse(readFileSync(addressBookPath, 'utf8'))[contractName]?.address
+  if (!address) throw new Error(`${contractName} has no address in ${addressBookPath}`)
+  return address
+}
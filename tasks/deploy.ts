@@ -0,0 +1,39 @@
+import { task } from 'hardhat/config'
+import { colors, print } from '../utils/misc'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+interface DeployManifestArgs {
+  manifest?: string
+  dryRun: boolean
+}
+
+task('deploy:manifest', 'Deploys the contracts of the network manifest that are not deployed yet, in dependency order')
+  .addOptionalParam('manifest', 'Deployment manifest, addresses/<network>/deployment.json by default')
+  .addFlag('dryRun', 'Prints the deployment plan without deploying')
+  .setAction(async (args: DeployManifestArgs, hre) => {
+    const { deploymentManifestPath, planDeployments, readDeploymentManifest, runDeploymentManifest } = await import(
+      '../utils/deployment-manifest'
+    )
+
+    const manifestPath = args.manifest ?? deploymentManifestPath(hre.network.name)
+    const manifest = readDeploymentManifest(manifestPath)
+    const addressBookPath = `addresses/${hre.network.name}/index.json`
+
+    const plan = await planDeployments(manifest, addressBookPath)
+    print(colors.highlight, `Deployment plan of ${manifestPath} on ${hre.network.name} network`)
+    console.table(
+      plan.map(({ contractName, status, address, dependencies }) => ({
+        contract: contractName,
+        status,
+        address: address ?? '',
+        dependencies: dependencies.join(' '),
+      })),
+    )
+    if (args.dryRun) return
+    if (plan.every(({ status }) => status === 'DEPLOYED')) return print(colors.success, 'Nothing to deploy')
+
+    const result = await runDeploymentManifest(manifest, addressBookPath)
+    result.forEach(({ contractName, address }) => print(colors.success, `${contractName}: ${address}`))
+  })
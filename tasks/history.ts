@@ -0,0 +1,69 @@
+import { task, types } from 'hardhat/config'
+import { colors, print } from '../utils/misc'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+interface HistoryAtArgs {
+  block?: number
+  contract?: string
+}
+
+task('history:at', 'Shows the contracts that were live at a block, from the deployment history of the network')
+  .addOptionalParam('block', 'Block number, the latest block by default', undefined, types.int)
+  .addOptionalParam('contract', 'Contract to show, all of them by default')
+  .setAction(async (args: HistoryAtArgs, hre) => {
+    const { deploymentHistoryPath, liveDeployments, readDeploymentHistory } = await import(
+      '../utils/deployment-history'
+    )
+
+    const historyPath = deploymentHistoryPath(hre.network.name)
+    const history = readDeploymentHistory(historyPath)
+    if (history.length === 0) return print(colors.warn, `No deployment history found at ${historyPath}`)
+    const blockNumber = args.block ?? (await hre.ethers.provider.getBlockNumber())
+
+    const live = Object.values(liveDeployments(history, blockNumber)).filter(
+      ({ contractName }) => args.contract === undefined || contractName === args.contract,
+    )
+    if (live.length === 0) return print(colors.warn, `Nothing was deployed at block ${blockNumber}`)
+    print(colors.highlight, `Contracts live on ${hre.network.name} network at block ${blockNumber}`)
+    console.table(
+      live.map(({ contractName, action, entry, blockNumber, gitCommit, timestamp }) => ({
+        contract: contractName,
+        address: entry.address,
+        implementation: entry.implementation ?? '',
+        libraries: Object.values(entry.libraries ?? {}).join(' '),
+        since: `${action} at block ${blockNumber}`,
+        gitCommit,
+        timestamp,
+      })),
+    )
+  })
+
+task('history:generate', 'Regenerates the address book of the network from its deployment history').setAction(
+  async (_args, hre) => {
+    const { generateAddressBook } = await import('../utils/deployment-history')
+
+    const entries = generateAddressBook(hre.network.name)
+    print(colors.success, `${Object.keys(entries).length} entries of addresses/${hre.network.name}/index.json updated`)
+  },
+)
+
+task(
+  'history:seed',
+  'Seeds the deployment history of the network with the upgradeable contracts deployed or upgraded outside of it',
+).setAction(async (_args, hre) => {
+  const { deploymentHistoryPath, seedDeploymentHistory } = await import('../utils/deployment-history')
+
+  const records = await seedDeploymentHistory(hre.network.name)
+  if (records.length === 0) return print(colors.warn, 'No deployment or upgrade to seed the history with')
+  console.table(
+    records.map(({ contractName, action, entry, blockNumber }) => ({
+      contract: contractName,
+      action,
+      implementation: entry.implementation ?? '',
+      blockNumber,
+    })),
+  )
+  print(colors.success, `${records.length} records appended to ${deploymentHistoryPath(hre.network.name)}`)
+})
@@ -0,0 +1,55 @@
+import { task, types } from 'hardhat/config'
+import { colors, print } from '../utils/misc'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+interface AuditPrivilegesArgs {
+  collections?: string
+  fromBlock?: number
+  maxBlockRange?: number
+}
+
+task('privileges:audit', 'Lists the privileged accounts of the network and flags those that are not the Multisig')
+  .addOptionalParam('collections', 'Comma-separated collections to list royalty creators of, from the logs by default')
+  .addOptionalParam('fromBlock', 'First block to search the logs from', undefined, types.int)
+  .addOptionalParam('maxBlockRange', 'Maximum block range of each eth_getLogs request', undefined, types.int)
+  .setAction(async (args: AuditPrivilegesArgs, hre) => {
+    const { readAddressBook } = await import('../utils/address-book')
+    const { auditPrivileges } = await import('../utils/privilege-audit')
+
+    const addressBook = readAddressBook(`addresses/${hre.network.name}/index.json`)
+    const audit = await auditPrivileges(addressBook, {
+      collections: args.collections?.split(',').map(collection => collection.trim()),
+      marketplaces: [addressBook.NftRentalMarketplace?.address, addressBook.OriumSftMarketplace?.address].filter(
+        (address): address is string => !!address,
+      ),
+      fromBlock: args.fromBlock,
+      maxBlockRange: args.maxBlockRange,
+    })
+
+    print(colors.highlight, `Privileges on ${hre.network.name} network`)
+    if (!audit.multisig) print(colors.warn, 'No Multisig in the config file, every privilege is flagged')
+    else print(colors.cyan, `Multisig: ${audit.multisig}`)
+    console.table(
+      audit.contracts.map(({ contractName, address, paused }) => ({
+        contract: contractName,
+        address,
+        paused: paused === undefined ? 'not pausable' : paused,
+      })),
+    )
+    console.table(
+      audit.privileges.map(({ contractName, privilege, subject, holder, flagged }) => ({
+        contract: contractName,
+        privilege: subject ? `${privilege} of ${subject}` : privilege,
+        holder,
+        flagged: flagged ? 'NOT MULTISIG' : '',
+      })),
+    )
+
+    const flagged = audit.privileges.filter(({ flagged }) => flagged).length
+    if (flagged > 0) {
+      print(colors.error, `${flagged} privileges are not held by the Multisig`)
+      process.exitCode = 1
+    } else print(colors.success, 'Every privilege is held by the Multisig')
+  })
@@ -0,0 +1,316 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { task, types } from 'hardhat/config'
+import { HardhatRuntimeEnvironment } from 'hardhat/types'
+import { Network } from '../addresses'
+import type { BaseContract, Signer } from 'ethers'
+import type { MarketplaceClient, OfferTransactionResult } from '../utils/marketplace-client'
+import type { ContractCall } from '../utils/safe-batch'
+import type { ApprovalTransaction } from '../utils/approvals'
+import { isSftRentalOffer, nftRentalOfferFromJson, sftRentalOfferFromJson, toJson } from '../utils/rental-offer'
+import { RentalOffer, SftRentalOffer } from '../utils/types'
+import { parseDuration, parsePricePerSecond } from '../utils/units'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+interface CreateOfferArgs {
+  file?: string
+  tokenAddress?: string
+  tokenId?: string
+  tokenAmount?: string
+  commitmentId?: string
+  feeToken?: string
+  price?: string
+  deadline?: string
+  minDuration?: string
+  borrower?: string
+  roles?: string
+  rolesData?: string
+  nonce?: string
+  out?: string
+}
+
+interface OfferArgs {
+  offer: string
+  fromBlock?: number
+  maxBlockRange?: number
+}
+
+interface AcceptOfferArgs extends OfferArgs {
+  duration: string
+}
+
+task(
+  'offer:create',
+  'Creates a rental offer on NftRentalMarketplace, or on OriumSftMarketplace when a token amount is set',
+)
+  .addOptionalParam('file', 'JSON file with the offer parameters, each one can be overridden by its flag')
+  .addOptionalParam('tokenAddress', 'Address of the NFT or SFT')
+  .addOptionalParam('tokenId', 'Token ID')
+  .addOptionalParam('tokenAmount', 'Amount of SFTs to rent out')
+  .addOptionalParam('commitmentId', 'Existing SFT commitment to rent out, 0 to commit new tokens (default)')
+  .addOptionalParam('feeToken', 'Fee token address, the zero address for the native token')
+  .addOptionalParam('price', 'Rental price, such as "0.173 per day", or the fee amount per second in wei')
+  .addOptionalParam('deadline', 'Time until the offer deadline, such as "19d"')
+  .addOptionalParam('minDuration', 'Minimum rental duration, such as "12h", 0 by default')
+  .addOptionalParam('borrower', 'Only borrower allowed to accept the offer, anyone by default')
+  .addOptionalParam('roles', 'Comma-separated role names, such as "Player()", or role hashes')
+  .addOptionalParam('rolesData', 'Comma-separated data of each role, 0x by default')
+  .addOptionalParam('nonce', 'Offer nonce, random by default')
+  .addOptionalParam('out', 'File to save the created offer to, to be used by the other offer tasks')
+  .setAction(async (args: CreateOfferArgs, hre) => {
+    const { colors, confirmOrDie, print } = await import('../utils/misc')
+    const { MarketplaceClient } = await import('../utils/marketplace-client')
+    const { RentalOfferValidationError } = await import('../utils/validate-rental-offer')
+    const { planCreateOfferApprovals } = await import('../utils/approvals')
+    const { rentalOfferIdOf } = await import('../utils/offer-id')
+    const { getSigner } = await import('../utils/signer')
+
+    const signer = await getSigner()
+    const client = await MarketplaceClient.create(hre.network.name as Network, signer)
+    const offer = await buildRentalOffer(hre, mergeParams(args), await signer.getAddress())
+    const marketplace = isSftRentalOffer(offer) ? client.oriumSftMarketplace : client.nftRentalMarketplace
+    const offerId = rentalOfferIdOf(await marketplace.getAddress(), offer)
+
+    console.log(toJson(offer))
+    print(colors.highlight, `Rental offer ID: ${offerId}`)
+
+    const violations = await client.validateOffer(offer)
+    if (violations.length > 0) throw new RentalOfferValidationError(violations)
+
+    const approvals = await planCreateOfferApprovals(marketplace, offer)
+    const createCall = await marketplaceCallOf(marketplace, offer, 'createRentalOffer', [offer])
+    if (!(await sendApprovals(signer, approvals, createCall))) return
+
+    await confirmOrDie(`Are you sure you want to create rental offer ${offerId} on ${hre.network.name} network?`, {
+      offerId,
+      offer,
+    })
+    const { receipt, offer: createdOffer } = await client.createOffer(offer)
+
+    print(colors.highlight, `Transaction hash: ${receipt.hash}`)
+    if (isSftRentalOffer(createdOffer)) print(colors.highlight, `Commitment ID: ${createdOffer.commitmentId}`)
+    if (args.out) {
+      writeFileSync(args.out, toJson(createdOffer))
+      print(colors.highlight, `Rental offer saved to ${args.out}`)
+    }
+    print(colors.success, `Created rental offer ${offerId} on ${hre.network.name} network!`)
+  })
+
+task('offer:accept', 'Accepts a rental offer, approving the fee token when needed')
+  .addParam('offer', 'Offer ID, creation transaction hash, JSON file with the rental offer or the offer JSON itself')
+  .addOptionalParam('fromBlock', 'First block to search for the creation log of an offer ID', undefined, types.int)
+  .addOptionalParam('maxBlockRange', 'Maximum block range of each eth_getLogs request', undefined, types.int)
+  .addParam('duration', 'Rental duration, such as "12h"')
+  .setAction(async (args: AcceptOfferArgs, hre) => {
+    const { colors, confirmOrDie, print } = await import('../utils/misc')
+    const { MarketplaceClient } = await import('../utils/marketplace-client')
+    const { planAcceptOfferApprovals } = await import('../utils/approvals')
+    const { quoteRental } = await import('../utils/fee-quote')
+    const { rentalOfferIdOf } = await import('../utils/offer-id')
+    const { getSigner } = await import('../utils/signer')
+
+    const signer = await getSigner()
+    const client = await MarketplaceClient.create(hre.network.name as Network, signer)
+    const offer = await loadRentalOffer(args)
+    const duration = parseDuration(args.duration)
+    const marketplace = isSftRentalOffer(offer) ? client.oriumSftMarketplace : client.nftRentalMarketplace
+    const offerId = rentalOfferIdOf(await marketplace.getAddress(), offer)
+
+    const quote = await quoteRental(marketplace, offer, duration)
+    print(colors.highlight, `Rental offer ID: ${offerId}`)
+    print(colors.highlight, `Total fee: ${quote.totalFeeAmount} of ${offer.feeTokenAddress}`)
+
+    const approvals = await planAcceptOfferApprovals(marketplace, offer, duration, await signer.getAddress())
+    const acceptCall = await marketplaceCallOf(
+      marketplace,
+      offer,
+      'acceptRentalOffer',
+      [offer, duration],
+      quote.msgValue,
+    )
+    if (!(await sendApprovals(signer, approvals, acceptCall))) return
+
+    await confirmOrDie(
+      `Are you sure you want to rent ${offerId} for ${duration} seconds on ${hre.network.name} network?`,
+      { offerId, offer, duration, msgValue: quote.msgValue },
+    )
+    const { receipt, expirationDate } = await client.acceptOffer(offer, duration)
+
+    print(colors.highlight, `Transaction hash: ${receipt.hash}`)
+    print(colors.success, `Rented ${offerId} until ${new Date(expirationDate * 1000).toISOString()}!`)
+  })
+
+task('offer:cancel', 'Cancels an NftRentalMarketplace offer or delists an OriumSftMarketplace offer')
+  .addParam('offer', 'Offer ID, creation transaction hash, JSON file with the rental offer or the offer JSON itself')
+  .addOptionalParam('fromBlock', 'First block to search for the creation log of an offer ID', undefined, types.int)
+  .addOptionalParam('maxBlockRange', 'Maximum block range of each eth_getLogs request', undefined, types.int)
+  .setAction(async (args: OfferArgs, hre) => {
+    await sendOfferTransaction(
+      hre,
+      args,
+      'cancel rental offer',
+      { nft: 'cancelRentalOffer', sft: 'delistRentalOffer' },
+      (client, offer) => client.cancelOffer(offer),
+    )
+  })
+
+task('offer:cancel-and-withdraw', 'Cancels or delists a rental offer and withdraws the tokens from the roles registry')
+  .addParam('offer', 'Offer ID, creation transaction hash, JSON file with the rental offer or the offer JSON itself')
+  .addOptionalParam('fromBlock', 'First block to search for the creation log of an offer ID', undefined, types.int)
+  .addOptionalParam('maxBlockRange', 'Maximum block range of each eth_getLogs request', undefined, types.int)
+  .setAction(async (args: OfferArgs, hre) => {
+    await sendOfferTransaction(
+      hre,
+      args,
+      'cancel and withdraw rental offer',
+      { nft: 'cancelRentalOfferAndWithdraw', sft: 'delistRentalOfferAndWithdraw' },
+      (client, offer) => client.cancelAndWithdraw(offer),
+    )
+  })
+
+task('rental:end', 'Ends a rental before its expiration date, from the borrower account')
+  .addParam('offer', 'Offer ID, creation transaction hash, JSON file with the rental offer or the offer JSON itself')
+  .addOptionalParam('fromBlock', 'First block to search for the creation log of an offer ID', undefined, types.int)
+  .addOptionalParam('maxBlockRange', 'Maximum block range of each eth_getLogs request', undefined, types.int)
+  .setAction(async (args: OfferArgs, hre) => {
+    await sendOfferTransaction(
+      hre,
+      args,
+      'end the rental of offer',
+      { nft: 'endRental', sft: 'endRental' },
+      (client, offer) => client.endRental(offer),
+    )
+  })
+
+async function sendOfferTransaction(
+  hre: HardhatRuntimeEnvironment,
+  args: OfferArgs,
+  action: string,
+  functionNames: { nft: string; sft: string },
+  send: (client: MarketplaceClient, offer: RentalOffer | SftRentalOffer) => Promise<OfferTransactionResult>,
+) {
+  const { colors, confirmOrDie, print } = await import('../utils/misc')
+  const { MarketplaceClient: Client } = await import('../utils/marketplace-client')
+  const { rentalOfferIdOf } = await import('../utils/offer-id')
+  const { getSigner } = await import('../utils/signer')
+
+  const signer = await getSigner()
+  const client = await Client.create(hre.network.name as Network, signer)
+  const offer = await loadRentalOffer(args)
+  const marketplace = isSftRentalOffer(offer) ? client.oriumSftMarketplace : client.nftRentalMarketplace
+  const offerId = rentalOfferIdOf(await marketplace.getAddress(), offer)
+  const functionName = isSftRentalOffer(offer) ? functionNames.sft : functionNames.nft
+  if (!(await sendApprovals(signer, [], await marketplaceCallOf(marketplace, offer, functionName, [offer])))) return
+
+  await confirmOrDie(`Are you sure you want to ${action} ${offerId} on ${hre.network.name} network?`, {
+    function: functionName,
+    offerId,
+    offer,
+  })
+  const { receipt } = await send(client, offer)
+
+  print(colors.highlight, `Transaction hash: ${receipt.hash}`)
+  print(colors.success, `Sent ${action} ${offerId} on ${hre.network.name} network!`)
+}
+
+/**
+ * @dev MarketplaceClient only sends transactions, so in dry-run and export modes the approvals and the marketplace call
+ * are simulated or exported together with callContractFunctions
+ * @returns Whether the marketplace call is left to MarketplaceClient, in send mode, once the approvals are sent
+ */
+async function sendApprovals(signer: Signer, approvals: ApprovalTransaction[], marketplaceCall: ContractCall) {
+  const { colors, print } = await import('../utils/misc')
+  const { callContractFunctions, sendModeOf } = await import('../utils/write-contract')
+
+  approvals.forEach(approval => print(colors.highlight, approval.description))
+  if (sendModeOf() === 'send') {
+    await callContractFunctions(approvals, { CUSTOM_SIGNER: signer })
+    return true
+  }
+  await callContractFunctions([...approvals, marketplaceCall], { CUSTOM_SIGNER: signer })
+  return false
+}
+
+async function marketplaceCallOf(
+  marketplace: BaseContract,
+  offer: RentalOffer | SftRentalOffer,
+  functionName: string,
+  args: unknown[],
+  value?: bigint,
+): Promise<ContractCall> {
+  return {
+    contractName: isSftRentalOffer(offer) ? 'OriumSftMarketplace' : 'NftRentalMarketplace',
+    contractAddress: await marketplace.getAddress(),
+    functionName,
+    args,
+    value,
+  }
+}
+
+/**
+ * @dev Reads a rental offer saved by offer:create, or rebuilds it from its creation log.
+ * SFT offers are told apart by their commitmentId
+ */
+async function loadRentalOffer({ offer, fromBlock, maxBlockRange }: OfferArgs): Promise<RentalOffer | SftRentalOffer> {
+  if (!offer.trim().startsWith('{') && !existsSync(offer)) {
+    const { resolveRentalOffer } = await import('../utils/resolve-rental-offer')
+    return (await resolveRentalOffer(offer, { fromBlock, maxBlockRange })).offer
+  }
+
+  const json = JSON.parse(offer.trim().startsWith('{') ? offer : readFileSync(offer, 'utf8'))
+  return 'commitmentId' in json ? sftRentalOfferFromJson(json) : nftRentalOfferFromJson(json)
+}
+
+/**
+ * @dev Flags take precedence over the parameters of the JSON file
+ */
+function mergeParams(args: CreateOfferArgs): CreateOfferArgs {
+  const fileParams: Record<string, unknown> = args.file ? JSON.parse(readFileSync(args.file, 'utf8')) : {}
+  const params: Record<string, string | undefined> = {}
+  for (const [key, value] of Object.entries(fileParams)) {
+    params[key] = Array.isArray(value) ? value.join(',') : String(value)
+  }
+  for (const [key, value] of Object.entries(args)) {
+    if (value !== undefined) params[key] = value
+  }
+  return params
+}
+
+async function buildRentalOffer(
+  hre: HardhatRuntimeEnvironment,
+  params: CreateOfferArgs,
+  lender: string,
+): Promise<RentalOffer | SftRentalOffer> {
+  const { tokenAddress, tokenId, feeToken, price, deadline, roles } = params
+  if (!tokenAddress || !tokenId || !feeToken || !price || !deadline || !roles) {
+    throw new Error('tokenAddress, tokenId, feeToken, price, deadline and roles are required')
+  }
+
+  const { toRoleId } = await import('../utils/roles')
+  const { ethers } = hre
+  const decimals =
+    feeToken === ethers.ZeroAddress
+      ? 18
+      : Number(await (await ethers.getContractAt('IERC20Metadata', feeToken)).decimals())
+  const roleNames = roles.split(',').map(role => role.trim())
+  const rolesData = params.rolesData ? params.rolesData.split(',').map(data => data.trim()) : roleNames.map(() => '0x')
+  const blockTimestamp = (await ethers.provider.getBlock('latest'))!.timestamp
+
+  const offer: RentalOffer = {
+    nonce: params.nonce ? BigInt(params.nonce) : BigInt(ethers.hexlify(ethers.randomBytes(32))),
+    lender,
+    borrower: params.borrower ?? ethers.ZeroAddress,
+    tokenAddress,
+    tokenId: BigInt(tokenId),
+    feeTokenAddress: feeToken,
+    feeAmountPerSecond: parsePricePerSecond(price, decimals),
+    deadline: blockTimestamp + parseDuration(deadline),
+    minDuration: parseDuration(params.minDuration ?? '0'),
+    roles: roleNames.map(toRoleId),
+    rolesData,
+  }
+
+  if (params.tokenAmount === undefined) return offer
+  return { ...offer, tokenAmount: BigInt(params.tokenAmount), commitmentId: BigInt(params.commitmentId ?? '0') }
+}
@@ -0,0 +1,132 @@
+import { task, types } from 'hardhat/config'
+import type { Interface } from 'ethers'
+import config, { Network } from '../addresses'
+import { colors, print } from '../utils/misc'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+interface ReconcileRoyaltiesArgs {
+  desired?: string
+  mode: 'plan' | 'execute' | 'safe' | 'defender'
+  out?: string
+}
+
+interface ShowRoyaltiesArgs {
+  collections?: string
+  feeTokens?: string
+  fromBlock?: number
+  maxBlockRange?: number
+  json: boolean
+}
+
+task('royalties:show', 'Prints the effective OriumMarketplaceRoyalties configuration, without sending transactions')
+  .addOptionalParam('collections', 'Comma-separated collections to inspect, discovered from the logs by default')
+  .addOptionalParam('feeTokens', 'Comma-separated fee tokens to check, besides the native token and offer fee tokens')
+  .addOptionalParam('fromBlock', 'First block to search the logs from', undefined, types.int)
+  .addOptionalParam('maxBlockRange', 'Maximum block range of each eth_getLogs request', undefined, types.int)
+  .addFlag('json', 'Prints the configuration as JSON instead of tables')
+  .setAction(async (args: ShowRoyaltiesArgs, hre) => {
+    const { readRoyaltiesConfig, toCollectionRows } = await import('../utils/royalties-config')
+
+    const addresses: Partial<Record<string, { address: string }>> = config[hre.network.name as Network]
+    const royaltiesAddress = addresses.OriumMarketplaceRoyalties?.address
+    if (!royaltiesAddress) throw new Error(`OriumMarketplaceRoyalties is not deployed on ${hre.network.name} network`)
+
+    const marketplaceRoyalties = await hre.ethers.getContractAt('OriumMarketplaceRoyalties', royaltiesAddress)
+    const royaltiesConfig = await readRoyaltiesConfig(marketplaceRoyalties, {
+      collections: splitList(args.collections),
+      feeTokens: splitList(args.feeTokens),
+      marketplaces: [addresses.NftRentalMarketplace?.address, addresses.OriumSftMarketplace?.address].filter(
+        (address): address is string => !!address,
+      ),
+      fromBlock: args.fromBlock,
+      maxBlockRange: args.maxBlockRange,
+    })
+
+    if (args.json) {
+      console.log(
+        JSON.stringify(royaltiesConfig, (_key, value) => (typeof value === 'bigint' ? value.toString() : value), 2),
+      )
+      return
+    }
+
+    print(colors.highlight, `OriumMarketplaceRoyalties on ${hre.network.name} network`)
+    console.table({
+      address: royaltiesConfig.address,
+      owner: royaltiesConfig.owner,
+      maxDuration: `${royaltiesConfig.maxDuration} seconds`,
+      defaultNftRolesRegistry: royaltiesConfig.defaultNftRolesRegistry,
+      defaultSftRolesRegistry: royaltiesConfig.defaultSftRolesRegistry,
+    })
+
+    if (royaltiesConfig.collections.length === 0) {
+      print(colors.warn, 'No collections found')
+      return
+    }
+    // one table per collection, addresses are too wide for a single table
+    for (const { collection, ...row } of toCollectionRows(royaltiesConfig)) {
+      print(colors.highlight, `Collection ${collection}`)
+      console.table(row)
+    }
+  })
+
+task('royalties:reconcile', 'Applies the desired OriumMarketplaceRoyalties configuration of the network')
+  .addOptionalParam('desired', 'Desired configuration, addresses/<network>/royalties.json by default')
+  .addOptionalParam(
+    'mode',
+    'plan prints the calls, execute sends them, safe writes a Safe batch, defender proposes them',
+    'plan',
+  )
+  .addOptionalParam('out', 'Safe batch file to write, royalties-<network>.safe-batch.json by default')
+  .setAction(async (args: ReconcileRoyaltiesArgs, hre) => {
+    const { planRoyaltiesReconciliation, readRoyaltiesDesiredState, royaltiesDesiredStatePath } = await import(
+      '../utils/royalties-reconciler'
+    )
+
+    const addresses: Partial<Record<string, { address: string }>> = config[hre.network.name as Network]
+    const royaltiesAddress = addresses.OriumMarketplaceRoyalties?.address
+    if (!royaltiesAddress) throw new Error(`OriumMarketplaceRoyalties is not deployed on ${hre.network.name} network`)
+    if (!['plan', 'execute', 'safe', 'defender'].includes(args.mode)) throw new Error(`Unknown mode ${args.mode}`)
+
+    const desiredPath = args.desired ?? royaltiesDesiredStatePath(hre.network.name)
+    const marketplaceRoyalties = await hre.ethers.getContractAt('OriumMarketplaceRoyalties', royaltiesAddress)
+    const calls = await planRoyaltiesReconciliation(marketplaceRoyalties, readRoyaltiesDesiredState(desiredPath))
+
+    if (calls.length === 0) return print(colors.success, `${hre.network.name} network matches ${desiredPath}`)
+    print(colors.highlight, `${calls.length} calls to apply ${desiredPath} on ${hre.network.name} network`)
+    calls.forEach(({ functionName, description }, index) => {
+      print(colors.cyan, `${index + 1}. ${functionName}`)
+      console.log(description)
+    })
+
+    if (args.mode === 'execute') {
+      const { callContractFunction } = await import('../utils/write-contract')
+      for (const { contractName, contractAddress, functionName, args: functionArgs } of calls) {
+        await callContractFunction(contractName, functionName, functionArgs, {
+          CUSTOM_CONTRACT_ADDRESS: contractAddress,
+        })
+      }
+    } else if (args.mode === 'safe') {
+      const { buildSafeBatch, writeSafeBatch } = await import('../utils/safe-batch')
+      const out = args.out ?? `royalties-${hre.network.name}.safe-batch.json`
+      writeSafeBatch(out, await buildSafeBatch(`Reconcile ${desiredPath}`, calls))
+      print(colors.success, `Batch saved to ${out}, import it in the Transaction Builder app of the Safe`)
+    } else if (args.mode === 'defender') {
+      const { createDefenderProposal } = await import('../utils/defender-proposal')
+      const royaltiesInterface: Interface = marketplaceRoyalties.interface
+      for (const { functionName, args: functionArgs } of calls) {
+        const { inputs } = royaltiesInterface.getFunction(functionName)!
+        await createDefenderProposal(
+          'OriumMarketplaceRoyalties',
+          functionName,
+          inputs.map(({ type, name }) => ({ type, name })),
+          functionArgs.map(arg => (typeof arg === 'bigint' ? arg.toString() : arg)),
+        )
+      }
+    }
+  })
+
+function splitList(value?: string): string[] | undefined {
+  return value?.split(',').map(item => item.trim())
+}
@@ -0,0 +1,39 @@
+import { readFileSync } from 'fs'
+import { task } from 'hardhat/config'
+import { colors, print } from '../utils/misc'
+import type { ContractCall } from '../utils/safe-batch'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+interface SafeBatchArgs {
+  calls: string
+  out?: string
+  name?: string
+  safe?: string
+}
+
+task('safe:batch', 'Writes a Safe Transaction Builder batch of contract calls for the Multisig of the network')
+  .addParam('calls', 'JSON file with a list of { contractName, functionName, args, contractAddress?, value? } calls')
+  .addOptionalParam('out', 'Batch file to write, <calls>.safe-batch.json by default')
+  .addOptionalParam('name', 'Name of the batch in the Transaction Builder, the calls file name by default')
+  .addOptionalParam('safe', 'Safe address, config[NETWORK].Multisig by default')
+  .setAction(async (args: SafeBatchArgs, hre) => {
+    const { buildSafeBatch, writeSafeBatch } = await import('../utils/safe-batch')
+
+    const calls: ContractCall[] = JSON.parse(readFileSync(args.calls, 'utf8')).map(
+      (call: ContractCall & { value?: string }) => ({ ...call, value: call.value && BigInt(call.value) }),
+    )
+    const out = args.out ?? args.calls.replace(/(\.json)?$/, '.safe-batch.json')
+    const name = args.name ?? args.calls.replace(/^.*\//, '').replace(/\.json$/, '')
+
+    const batch = await buildSafeBatch(name, calls, args.safe)
+    writeSafeBatch(out, batch)
+
+    print(
+      colors.highlight,
+      `${batch.transactions.length} calls from ${batch.meta.createdFromSafeAddress} on ${hre.network.name} network`,
+    )
+    console.log(batch.meta.description)
+    print(colors.success, `Batch saved to ${out}, import it in the Transaction Builder app of the Safe`)
+  })
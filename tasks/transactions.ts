@@ -0,0 +1,39 @@
+import { existsSync, readFileSync } from 'fs'
+import { task, types } from 'hardhat/config'
+import { formatEther } from 'ethers'
+import { colors, confirmOrDie, print } from '../utils/misc'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+interface BroadcastArgs {
+  signed: string
+  confirmations: number
+}
+
+task('tx:broadcast', 'Broadcasts a transaction signed offline, such as one exported with EXPORT_UNSIGNED')
+  .addParam('signed', 'Signed raw transaction, or a file containing it')
+  .addOptionalParam('confirmations', 'Number of blocks to wait for', 1, types.int)
+  .setAction(async (args: BroadcastArgs, hre) => {
+    const { broadcastSignedTransaction, parseSignedTransaction } = await import('../utils/offline-transaction')
+    const { recordTransaction } = await import('../utils/audit-journal')
+
+    const signed = existsSync(args.signed) ? readFileSync(args.signed, 'utf8') : args.signed
+    const transaction = await parseSignedTransaction(signed)
+    const summary = {
+      hash: transaction.hash,
+      from: transaction.from,
+      to:
+        transaction.to ?? `new contract ${hre.ethers.getCreateAddress(transaction as { from: string; nonce: number })}`,
+      nonce: transaction.nonce,
+      value: `${formatEther(transaction.value)} native token`,
+      gasLimit: transaction.gasLimit.toString(),
+    }
+    console.table(summary)
+    await confirmOrDie(`Are you sure you want to broadcast this transaction on ${hre.network.name} network?`, summary)
+
+    const receipt = await broadcastSignedTransaction(transaction, args.confirmations)
+    recordTransaction({ transactionHash: receipt.hash, address: receipt.contractAddress ?? undefined })
+    if (receipt.contractAddress) print(colors.success, `Contract deployed to: ${receipt.contractAddress}`)
+    print(colors.bigSuccess, `Transaction mined in block ${receipt.blockNumber}! txHash: ${receipt.hash}`)
+  })
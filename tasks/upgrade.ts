@@ -0,0 +1,27 @@
+import { existsSync, readFileSync } from 'fs'
+import { task } from 'hardhat/config'
+
+// Modules that depend on the Hardhat runtime or on typechain-types are imported inside the actions,
+// so the config can still be loaded before the contracts are compiled
+
+interface UpgradeCheckArgs {
+  contract: string
+  proxy?: string
+}
+
+task('upgrade:check', 'Compares the live implementation of a proxy with the current build of its contract')
+  .addParam('contract', 'Contract name, such as OriumSftMarketplace')
+  .addOptionalParam('proxy', 'Proxy address, the address of the contract in the config file by default')
+  .setAction(async (args: UpgradeCheckArgs, hre) => {
+    const { checkUpgrade, printUpgradeCheck } = await import('../utils/upgrade-check')
+
+    const addressBookPath = `addresses/${hre.network.name}/index.json`
+    const addressBook = existsSync(addressBookPath) ? JSON.parse(readFileSync(addressBookPath, 'utf8')) : {}
+    const { address, libraries } = addressBook[args.contract] ?? {}
+    const proxy = args.proxy ?? address
+    if (!proxy) throw new Error(`${args.contract} has no address in ${addressBookPath}`)
+
+    const report = await checkUpgrade(args.contract, proxy, libraries)
+    printUpgradeCheck(report)
+    if (!report.ok) process.exitCode = 1
+  })
@@ -0,0 +1,264 @@
+/* eslint-disable no-unexpected-multiline */
+import { ethers } from 'hardhat'
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import {
+  BatchRow,
+  chunkRows,
+  CsvRow,
+  parseGrantRoleRows,
+  parseRevokeRoleRows,
+  readCsvRows,
+  writeReport,
+} from '../utils/batch-roles'
+import { ONE_DAY } from '../utils/constants'
+import { toRoleId, USER_ROLE } from '../utils/roles'
+import { deployNftMarketplaceContracts } from './fixtures/NftRentalMarketplaceFixture'
+import { MockERC1155, MockERC721 } from '../typechain-types'
+
+describe('BatchRoles', () => {
+  let lender: Awaited<ReturnType<typeof ethers.getSigner>>
+  let borrower: Awaited<ReturnType<typeof ethers.getSigner>>
+
+  let directory: string
+
+  before(async function () {
+    // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+    // prettier-ignore
+    [, , , , , lender, borrower] = await ethers.getSigners()
+    directory = mkdtempSync(join(tmpdir(), 'batch-roles-'))
+  })
+
+  after(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  function writeCsv(name: string, lines: string[]) {
+    const file = join(directory, name)
+    writeFileSync(file, lines.join('\r\n'))
+    return file
+  }
+
+  function csvRow(line: number, values: Record<string, string>): CsvRow {
+    return { line, values }
+  }
+
+  describe('readCsvRows', async () => {
+    it('Should map the header aliases to the column names', async () => {
+      const file = writeCsv('aliases.csv', [
+        'Token Address,token_id,Token Amount,Role Name,Recipient,Expiration Date',
+        '0x1,2,3,4,5,6',
+      ])
+
+      expect(readCsvRows(file)).to.be.deep.equal([
+        csvRow(2, { tokenAddress: '0x1', tokenId: '2', amount: '3', role: '4', grantee: '5', expiration: '6' }),
+      ])
+    })
+
+    it('Should keep commas and escaped quotes inside quoted cells', async () => {
+      const file = writeCsv('quotes.csv', ['role,data,note', '"Player()", "0x12" ,"say ""hi"", then leave"'])
+
+      expect(readCsvRows(file)).to.be.deep.equal([
+        csvRow(2, { role: 'Player()', data: '0x12', note: 'say "hi", then leave' }),
+      ])
+    })
+
+    it('Should skip blank lines and keep the line numbers of the file', async () => {
+      const file = writeCsv('blank.csv', ['tokenId,role', '', '1,a', '   ', '2,b', ''])
+
+      expect(readCsvRows(file)).to.be.deep.equal([
+        csvRow(3, { tokenId: '1', role: 'a' }),
+        csvRow(5, { tokenId: '2', role: 'b' }),
+      ])
+    })
+
+    it('Should leave the missing cells of short rows empty', async () => {
+      const file = writeCsv('short.csv', ['tokenId,role,grantee', '1'])
+
+      expect(readCsvRows(file)).to.be.deep.equal([csvRow(2, { tokenId: '1', role: '', grantee: '' })])
+    })
+
+    it('Should read back the quoted cells of a report', async () => {
+      const file = join(directory, 'report.csv')
+      writeReport(file, [{ ...csvRow(2, { tokenId: '1', role: 'a' }), status: 'FAILED', error: 'Reverted: "a", b' }])
+
+      expect(readCsvRows(file)).to.be.deep.equal([
+        csvRow(2, {
+          tokenId: '1',
+          role: 'a',
+          status: 'FAILED',
+          commitmentId: '',
+          transactionHash: '',
+          gasEstimate: '',
+          error: 'Reverted: "a", b',
+        }),
+      ])
+    })
+  })
+
+  describe('parseGrantRoleRows', async () => {
+    let mockERC721: MockERC721
+    let mockERC1155: MockERC1155
+
+    beforeEach(async () => {
+      // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+      // prettier-ignore
+      [, , , mockERC721] = await loadFixture(deployNftMarketplaceContracts)
+      const MockERC1155Factory = await ethers.getContractFactory('MockERC1155')
+      mockERC1155 = await MockERC1155Factory.deploy()
+      await mockERC721.mint(lender.address, 1)
+      await mockERC1155.mint(lender.address, 1, 5, '0x')
+    })
+
+    async function grantRow(line: number, values: Record<string, string>) {
+      return csvRow(line, {
+        tokenAddress: await mockERC721.getAddress(),
+        tokenId: '1',
+        role: 'USER_ROLE',
+        grantee: borrower.address,
+        expiration: '30d',
+        revocable: 'true',
+        ...values,
+      })
+    }
+
+    it('Should parse NFT and SFT rows', async () => {
+      const now = await time.latest()
+      const rows = await parseGrantRoleRows(
+        [
+          await grantRow(2, {}),
+          await grantRow(3, { tokenAddress: await mockERC1155.getAddress(), amount: '2', revocable: 'no' }),
+        ],
+        lender.address,
+      )
+
+      expect(rows.map(({ status }) => status)).to.be.deep.equal(['PENDING', 'PENDING'])
+      expect(rows[0].params).to.be.deep.equal({
+        roleId: USER_ROLE,
+        tokenAddress: await mockERC721.getAddress(),
+        tokenId: BigInt(1),
+        recipient: borrower.address,
+        expirationDate: now + 30 * ONE_DAY,
+        revocable: true,
+        data: '0x',
+      })
+      expect(rows[1].params).to.deep.include({ commitmentId: BigInt(0), tokenAmount: BigInt(2), revocable: false })
+    })
+
+    it('Should mark the bad rows INVALID with their error', async () => {
+      const sftAddress = await mockERC1155.getAddress()
+      const rows = await parseGrantRoleRows(
+        [
+          await grantRow(2, { tokenAddress: 'not an address' }),
+          await grantRow(3, { tokenId: '-1' }),
+          await grantRow(4, { role: '' }),
+          await grantRow(5, { expiration: '1' }),
+          await grantRow(6, { revocable: 'maybe' }),
+          await grantRow(7, { tokenAddress: borrower.address }),
+          await grantRow(8, { tokenId: '2' }),
+          await grantRow(9, { amount: '2' }),
+          await grantRow(10, { tokenAddress: sftAddress, amount: '0' }),
+          await grantRow(11, {}),
+          await grantRow(12, {}),
+          await grantRow(13, { tokenAddress: sftAddress, amount: '4' }),
+          await grantRow(14, { tokenAddress: sftAddress, amount: '2' }),
+        ],
+        lender.address,
+      )
+
+      expect(rows.map(({ line, status, error }) => [line, status, error])).to.be.deep.equal([
+        [2, 'INVALID', 'Invalid tokenAddress: not an address'],
+        [3, 'INVALID', 'Invalid tokenId: -1'],
+        [4, 'INVALID', 'Missing role'],
+        [5, 'INVALID', 'Expiration 1 is not in the future'],
+        [6, 'INVALID', 'Invalid revocable, expected true or false: maybe'],
+        [7, 'INVALID', `Token ${borrower.address} is not a contract`],
+        [8, 'INVALID', `Token 2 of ${await mockERC721.getAddress()} does not exist`],
+        [9, 'INVALID', 'amount of an NFT must be 1, got 2'],
+        [10, 'INVALID', 'amount must be greater than 0'],
+        [11, 'PENDING', undefined],
+        [12, 'INVALID', 'Duplicate of a previous row'],
+        [13, 'PENDING', undefined],
+        [14, 'INVALID', 'Grantor balance left for the previous rows is 1, below amount 2'],
+      ])
+    })
+  })
+
+  describe('parseRevokeRoleRows', async () => {
+    const tokenAddress = '0x000000000000000000000000000000000000dEaD'
+
+    it('Should parse NFT rows and SFT rows with a commitmentId', async () => {
+      const rows = parseRevokeRoleRows([
+        csvRow(2, { tokenAddress, tokenId: '1', role: 'USER_ROLE' }),
+        csvRow(3, { tokenAddress, commitmentId: '7', role: 'Player()', grantee: tokenAddress }),
+      ])
+
+      expect(rows.map(({ status, params }) => [status, params])).to.be.deep.equal([
+        ['PENDING', { tokenAddress, tokenId: BigInt(1), roleId: USER_ROLE }],
+        ['PENDING', { commitmentId: BigInt(7), role: toRoleId('Player()'), grantee: tokenAddress, tokenAddress }],
+      ])
+    })
+
+    it('Should skip the rows of a report that were not granted and reject bad and duplicate rows', async () => {
+      const rows = parseRevokeRoleRows([
+        csvRow(2, { tokenAddress, tokenId: '1', role: 'USER_ROLE', status: 'FAILED' }),
+        csvRow(3, { tokenAddress, tokenId: '1', role: 'USER_ROLE', status: 'GRANTED' }),
+        csvRow(4, { tokenAddress: tokenAddress.toLowerCase(), tokenId: '1', role: USER_ROLE }),
+        csvRow(5, { tokenAddress, tokenId: '1.5', role: 'USER_ROLE' }),
+        csvRow(6, { tokenAddress, commitmentId: '7', role: 'USER_ROLE' }),
+      ])
+
+      expect(rows.map(({ status, error }) => [status, error])).to.be.deep.equal([
+        ['SKIPPED', 'Row was not granted: FAILED'],
+        ['PENDING', undefined],
+        ['INVALID', 'Duplicate of a previous row'],
+        ['INVALID', 'Invalid tokenId: 1.5'],
+        ['INVALID', 'Invalid grantee: '],
+      ])
+    })
+  })
+
+  describe('chunkRows', async () => {
+    const baseGas = BigInt(21000)
+
+    function pendingRow(line: number, gas: number, isSft = false): BatchRow<object> {
+      return {
+        ...csvRow(line, {}),
+        status: 'PENDING',
+        params: isSft ? { commitmentId: BigInt(0) } : {},
+        gasEstimate: baseGas + BigInt(gas),
+      }
+    }
+
+    function linesOf(chunks: BatchRow<object>[][]) {
+      return chunks.map(chunk => chunk.map(({ line }) => line))
+    }
+
+    it('Should fill each batch up to the gas budget, counting the base gas once', async () => {
+      const rows = [2, 3, 4, 5, 6].map(line => pendingRow(line, 100))
+
+      expect(linesOf(chunkRows(rows, baseGas + BigInt(200)))).to.be.deep.equal([[2, 3], [4, 5], [6]])
+      expect(linesOf(chunkRows(rows, baseGas + BigInt(499)))).to.be.deep.equal([[2, 3, 4, 5], [6]])
+    })
+
+    it('Should batch NFT rows and SFT rows separately, keeping the CSV order', async () => {
+      const rows = [pendingRow(2, 100, true), pendingRow(3, 100), pendingRow(4, 100, true), pendingRow(5, 100)]
+
+      expect(linesOf(chunkRows(rows, baseGas + BigInt(1000)))).to.be.deep.equal([
+        [3, 5],
+        [2, 4],
+      ])
+    })
+
+    it('Should skip rows that are not pending and mark rows above the budget INVALID', async () => {
+      const rows = [pendingRow(2, 100), { ...pendingRow(3, 100), status: 'INVALID' as const }, pendingRow(4, 1000)]
+
+      expect(linesOf(chunkRows(rows, baseGas + BigInt(500)))).to.be.deep.equal([[2]])
+      expect(rows[2].status).to.be.equal('INVALID')
+      expect(rows[2].error).to.be.equal(`Gas estimate ${baseGas + BigInt(1000)} is above the gas budget of 21500`)
+    })
+  })
+})
@@ -43,7 +43,7 @@ describe('NftRentalMarketplace', () => {
 
   // Values to be used across tests
   const maxDeadline = THREE_MONTHS
-  const tokenId = 1
+  const tokenId = BigInt(1)
   const duration = ONE_HOUR
 
   before(async function () {
@@ -99,7 +99,7 @@ describe('NftRentalMarketplace', () => {
           const blockTimestamp = Number(await time.latest())
 
           rentalOffer = {
-            nonce: `0x${randomBytes(32).toString('hex')}`,
+            nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
             lender: lender.address,
             borrower: AddressZero,
             tokenAddress: await mockERC721.getAddress(),
@@ -153,7 +153,7 @@ describe('NftRentalMarketplace', () => {
             it('Should create more than one rental offer for the same role, if the previous deadline is already expired', async () => {
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
               await time.increase(ONE_DAY)
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               await expect(marketplace.connect(lender).createRentalOffer(rentalOffer))
                 .to.emit(marketplace, 'RentalOfferCreated')
@@ -176,7 +176,7 @@ describe('NftRentalMarketplace', () => {
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
               await time.increase(ONE_HOUR)
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await expect(marketplace.connect(lender).createRentalOffer(rentalOffer))
                 .to.emit(marketplace, 'RentalOfferCreated')
                 .withArgs(
@@ -271,7 +271,7 @@ describe('NftRentalMarketplace', () => {
               )
             })
             it('Should NOT create a rental offer if nonce is zero', async () => {
-              rentalOffer.nonce = '0'
+              rentalOffer.nonce = BigInt(0)
               await expect(marketplace.connect(lender).createRentalOffer(rentalOffer)).to.be.revertedWith(
                 'NftRentalMarketplace: Nonce cannot be 0',
               )
@@ -298,18 +298,18 @@ describe('NftRentalMarketplace', () => {
             })
             it('Should NOT create more than one rental offer for the same role', async () => {
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await expect(marketplace.connect(lender).createRentalOffer(rentalOffer)).to.be.revertedWith(
                 'NftRentalMarketplace: role still has an active offer or rental',
               )
             })
             it('Should NOT create more than one rental when the (Deadline - minduration) is not be reached. ', async () => {
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.minDuration = TWENTY_THREE_HOURS
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
               await time.increase(TEN_MINUTES)
 
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await expect(marketplace.connect(lender).createRentalOffer(rentalOffer)).to.be.revertedWith(
                 'NftRentalMarketplace: role still has an active offer or rental',
               )
@@ -337,7 +337,7 @@ describe('NftRentalMarketplace', () => {
             it('Should accept a private rental offer', async () => {
               await time.increase(ONE_DAY)
               rentalOffer.borrower = borrower.address
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               rentalOffer.feeAmountPerSecond = toWei('0')
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
@@ -377,7 +377,7 @@ describe('NftRentalMarketplace', () => {
             it('Should accept a rental offer by anyone if borrower is the zero address', async () => {
               await time.increase(ONE_DAY)
               rentalOffer.borrower = ethers.ZeroAddress
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
 
@@ -391,7 +391,7 @@ describe('NftRentalMarketplace', () => {
             it('Should accept a rental offer if duration is greater or equal minDuration', async () => {
               await time.increase(ONE_DAY)
               rentalOffer.minDuration = duration / 2
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
               await expect(marketplace.connect(borrower).acceptRentalOffer(rentalOffer, duration)).to.emit(
@@ -402,7 +402,7 @@ describe('NftRentalMarketplace', () => {
             it('Should Accept a rental offer and update roleDeadLine if expiration date is greater than storage info.', async () => {
               await time.increase(ONE_DAY)
               rentalOffer.minDuration = duration / 2
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.deadline = Number(await time.latest()) + ONE_HOUR + TEN_MINUTES
               const blockTimestamp = Number(await time.latest())
               const newExpirationDate = blockTimestamp + duration - 1
@@ -428,7 +428,7 @@ describe('NftRentalMarketplace', () => {
             it('Should NOT accept a rental offer if duration is less than minDuration', async () => {
               await time.increase(ONE_DAY)
               rentalOffer.minDuration = duration
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
               await expect(
@@ -443,7 +443,7 @@ describe('NftRentalMarketplace', () => {
             })
             it('Should NOT accept a rental offer if caller is not the borrower', async () => {
               await time.increase(ONE_DAY)
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.borrower = borrower.address
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
@@ -454,7 +454,7 @@ describe('NftRentalMarketplace', () => {
             })
             it('Should revert when accepting a rental offer with insufficient native tokens', async () => {
               await time.increase(ONE_DAY)
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.borrower = borrower.address
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               rentalOffer.feeTokenAddress = AddressZero
@@ -475,7 +475,7 @@ describe('NftRentalMarketplace', () => {
             })
             it('Should accept a rental offer with native tokens', async () => {
               await time.increase(ONE_DAY)
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.borrower = borrower.address
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               rentalOffer.feeTokenAddress = AddressZero
@@ -508,7 +508,7 @@ describe('NftRentalMarketplace', () => {
               )
             })
             it('Should NOT accept a rental offer if offer is not created', async () => {
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await expect(marketplace.connect(borrower).acceptRentalOffer(rentalOffer, duration)).to.be.revertedWith(
                 'NftRentalMarketplace: Offer not created',
               )
@@ -527,7 +527,7 @@ describe('NftRentalMarketplace', () => {
               beforeEach(async () => {
                 await time.increase(ONE_DAY)
                 rentalOffer.feeAmountPerSecond = feeAmountPerSecond
-                rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+                rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
                 rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
                 await marketplace.connect(lender).createRentalOffer(rentalOffer)
                 await mockERC20.mint(borrower.address, feeAmount * BigInt(2))
@@ -620,13 +620,13 @@ describe('NftRentalMarketplace', () => {
               await expect(
                 marketplace
                   .connect(lender)
-                  .cancelRentalOffer({ ...rentalOffer, nonce: `0x${randomBytes(32).toString('hex')}` }),
+                  .cancelRentalOffer({ ...rentalOffer, nonce: BigInt(`0x${randomBytes(32).toString('hex')}`) }),
               ).to.be.revertedWith('NftRentalMarketplace: Offer not created')
             })
             it('Should cancel a rental offer with an active role', async () => {
               await time.increase(ONE_DAY)
               rentalOffer.borrower = borrower.address
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               rentalOffer.feeAmountPerSecond = toWei('0')
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
@@ -646,7 +646,7 @@ describe('NftRentalMarketplace', () => {
             it('Should end a rental offer with an active role and LET create a new offer ', async () => {
               await time.increase(ONE_DAY)
               rentalOffer.borrower = borrower.address
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               rentalOffer.feeAmountPerSecond = toWei('0')
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
@@ -668,7 +668,7 @@ describe('NftRentalMarketplace', () => {
               await expect(marketplace.connect(borrower).endRental(rentalOffer))
                 .to.emit(marketplace, 'RentalEnded')
                 .withArgs(rentalOffer.lender, rentalOffer.nonce)
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
 
               await expect(marketplace.connect(lender).createRentalOffer(rentalOffer))
                 .to.emit(marketplace, 'RentalOfferCreated')
@@ -689,7 +689,7 @@ describe('NftRentalMarketplace', () => {
             it('Should cancel a rental offer with an active role And DO NOT let create another rental offer', async () => {
               await time.increase(ONE_DAY)
               rentalOffer.borrower = borrower.address
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               rentalOffer.feeAmountPerSecond = toWei('0')
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
@@ -705,7 +705,7 @@ describe('NftRentalMarketplace', () => {
                 .to.emit(marketplace, 'RentalOfferCancelled')
                 .withArgs(rentalOffer.lender, rentalOffer.nonce)
 
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await expect(marketplace.connect(lender).createRentalOffer(rentalOffer)).to.be.revertedWith(
                 'NftRentalMarketplace: role still has an active offer or rental',
               )
@@ -714,7 +714,7 @@ describe('NftRentalMarketplace', () => {
             it('Should cancel a rental offer with an active role And LET create another rental offer when expiration date is reached', async () => {
               await time.increase(ONE_DAY)
               rentalOffer.borrower = borrower.address
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.deadline = Number(await time.latest()) + ONE_DAY
               rentalOffer.feeAmountPerSecond = toWei('0')
               await marketplace.connect(lender).createRentalOffer(rentalOffer)
@@ -732,7 +732,7 @@ describe('NftRentalMarketplace', () => {
 
               await time.increase(ONE_HOUR * 2)
 
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await expect(marketplace.connect(lender).createRentalOffer(rentalOffer))
                 .to.emit(marketplace, 'RentalOfferCreated')
                 .withArgs(
@@ -781,7 +781,7 @@ describe('NftRentalMarketplace', () => {
                 await expect(
                   marketplace
                     .connect(borrower)
-                    .endRental({ ...rentalOffer, nonce: `0x${randomBytes(32).toString('hex')}` }),
+                    .endRental({ ...rentalOffer, nonce: BigInt(`0x${randomBytes(32).toString('hex')}`) }),
                 ).to.be.revertedWith('NftRentalMarketplace: Offer not created')
               })
               it('Should NOT end a rental if rental is expired', async () => {
@@ -58,7 +58,7 @@ describe('OriumSftMarketplace', () => {
   describe('Main Functions', async () => {
     describe('Rental Functions', async () => {
       const duration = ONE_HOUR
-      const tokenId = 1
+      const tokenId = BigInt(1)
       const tokenAmount = BigInt(2)
       const wearableAddress = '0x58de9AaBCaeEC0f69883C94318810ad79Cc6a44f'
 
@@ -114,7 +114,7 @@ describe('OriumSftMarketplace', () => {
           const blockTimestamp = (await ethers.provider.getBlock('latest'))?.timestamp
 
           rentalOffer = {
-            nonce: `0x${randomBytes(32).toString('hex')}`,
+            nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
             commitmentId: BigInt(0),
             lender: lender.address,
             borrower: AddressZero,
@@ -222,7 +222,7 @@ describe('OriumSftMarketplace', () => {
                 await wearableToken.setApprovalForAll(await SftRolesRegistrySingleRoleLegacy.getAddress(), true)
 
                 const rentalOfferLegacy = {
-                  nonce: `0x${randomBytes(32).toString('hex')}`,
+                  nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
                   commitmentId: BigInt(0),
                   lender: lender.address,
                   borrower: AddressZero,
@@ -308,7 +308,7 @@ describe('OriumSftMarketplace', () => {
                 )
               })
               it('Should NOT create a rental offer if nonce is 0', async () => {
-                rentalOffer.nonce = '0'
+                rentalOffer.nonce = BigInt(0)
                 await expect(marketplace.connect(lender).createRentalOffer(rentalOffer)).to.be.revertedWith(
                   'OriumSftMarketplace: Nonce cannot be 0',
                 )
@@ -323,7 +323,7 @@ describe('OriumSftMarketplace', () => {
                 await marketplace.connect(lender).createRentalOffer(rentalOffer)
 
                 rentalOffer.commitmentId = BigInt(1)
-                rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+                rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
                 await expect(marketplace.connect(lender).createRentalOffer(rentalOffer)).to.be.revertedWith(
                   'OriumSftMarketplace: commitmentId is in an active rental offer',
                 )
@@ -374,7 +374,7 @@ describe('OriumSftMarketplace', () => {
                 await marketplace.connect(lender).createRentalOffer(rentalOffer)
                 await time.increase(ONE_DAY)
                 rentalOffer.commitmentId = BigInt(1)
-                rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+                rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
                 rentalOffer.deadline = (await time.latest()) + ONE_DAY
               })
               it("Should create a rental offer if commitmentId already exists and it's not associated with an active rental offer", async () => {
@@ -423,7 +423,7 @@ describe('OriumSftMarketplace', () => {
                   .setApprovalForAll(await SftRolesRegistrySingleRoleLegacy.getAddress(), true)
 
                 const rentalOfferLegacy = {
-                  nonce: `0x${randomBytes(32).toString('hex')}`,
+                  nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
                   commitmentId: BigInt(0),
                   lender: lender.address,
                   borrower: AddressZero,
@@ -487,7 +487,7 @@ describe('OriumSftMarketplace', () => {
               })
               it('Should NOT create a LEGACY rental offer if commitmentId token id and offer token id are different', async () => {
                 const rentalOfferLegacy = {
-                  nonce: `0x${randomBytes(32).toString('hex')}`,
+                  nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
                   commitmentId: BigInt(0),
                   lender: lender.address,
                   borrower: AddressZero,
@@ -522,7 +522,7 @@ describe('OriumSftMarketplace', () => {
                 )
 
                 rentalOfferLegacy.commitmentId = BigInt(1)
-                rentalOfferLegacy.nonce = `0x${randomBytes(32).toString('hex')}`
+                rentalOfferLegacy.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
                 rentalOfferLegacy.deadline = (await time.latest()) + ONE_DAY
 
                 rentalOffer.commitmentId = BigInt(2)
@@ -560,7 +560,7 @@ describe('OriumSftMarketplace', () => {
             it('Should create a rental offer with feeAmountPerSecond equal to 0 if offer is private', async function () {
               rentalOffer.feeAmountPerSecond = BigInt(0)
               rentalOffer.borrower = borrower.address
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await marketplace.connect(lender).createRentalOffer({ ...rentalOffer, commitmentId: BigInt(0) })
               rentalOffer.commitmentId = BigInt(2)
 
@@ -572,7 +572,7 @@ describe('OriumSftMarketplace', () => {
             })
             it('Should accept a private rental offer', async () => {
               rentalOffer.borrower = borrower.address
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await marketplace.connect(lender).createRentalOffer({ ...rentalOffer, commitmentId: BigInt(0) })
               rentalOffer.commitmentId = BigInt(2)
 
@@ -609,7 +609,7 @@ describe('OriumSftMarketplace', () => {
             })
             it('Should accept a rental offer by anyone if borrower is the zero address', async () => {
               rentalOffer.borrower = ethers.ZeroAddress
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await marketplace.connect(lender).createRentalOffer({ ...rentalOffer, commitmentId: BigInt(0) })
               rentalOffer.commitmentId = BigInt(2)
 
@@ -622,7 +622,7 @@ describe('OriumSftMarketplace', () => {
             })
             it('Should accept a rental offer if duration is greater or equal minDuration', async () => {
               rentalOffer.minDuration = duration / 2
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await marketplace.connect(lender).createRentalOffer({ ...rentalOffer, commitmentId: BigInt(0) })
               rentalOffer.commitmentId = BigInt(2)
               await expect(marketplace.connect(borrower).acceptRentalOffer(rentalOffer, duration)).to.emit(
@@ -632,7 +632,7 @@ describe('OriumSftMarketplace', () => {
             })
             it('Should NOT accept a rental offer if duration is less than minDuration', async () => {
               rentalOffer.minDuration = duration
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await marketplace.connect(lender).createRentalOffer({ ...rentalOffer, commitmentId: BigInt(0) })
               rentalOffer.commitmentId = BigInt(2)
               await expect(
@@ -646,7 +646,7 @@ describe('OriumSftMarketplace', () => {
               )
             })
             it('Should NOT accept a rental offer if caller is not the borrower', async () => {
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               rentalOffer.borrower = borrower.address
               await marketplace.connect(lender).createRentalOffer({ ...rentalOffer, commitmentId: BigInt(0) })
               rentalOffer.commitmentId = BigInt(2)
@@ -666,7 +666,7 @@ describe('OriumSftMarketplace', () => {
               )
             })
             it('Should NOT accept a rental offer if offer is not created', async () => {
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await expect(marketplace.connect(borrower).acceptRentalOffer(rentalOffer, duration)).to.be.revertedWith(
                 'OriumSftMarketplace: Offer not created',
               )
@@ -687,7 +687,7 @@ describe('OriumSftMarketplace', () => {
               rentalOffer.feeTokenAddress = AddressZero
               rentalOffer.feeAmountPerSecond = toWei('0.0000001')
               totalFeeAmount = rentalOffer.feeAmountPerSecond * BigInt(duration)
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await marketplace.connect(lender).createRentalOffer({ ...rentalOffer, commitmentId: BigInt(0) })
               rentalOffer.commitmentId = BigInt(2)
 
@@ -711,7 +711,7 @@ describe('OriumSftMarketplace', () => {
               rentalOffer.feeTokenAddress = AddressZero
               rentalOffer.feeAmountPerSecond = toWei('0.0000001')
               const totalFeeAmount = rentalOffer.feeAmountPerSecond * BigInt(duration)
-              rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+              rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
               await marketplace.connect(lender).createRentalOffer({ ...rentalOffer, commitmentId: BigInt(0) })
               rentalOffer.commitmentId = BigInt(2)
 
@@ -729,7 +729,7 @@ describe('OriumSftMarketplace', () => {
 
               beforeEach(async () => {
                 rentalOffer.feeAmountPerSecond = feeAmountPerSecond
-                rentalOffer.nonce = `0x${randomBytes(32).toString('hex')}`
+                rentalOffer.nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
                 await marketplace.connect(lender).createRentalOffer({ ...rentalOffer, commitmentId: BigInt(0) })
                 rentalOffer.commitmentId = BigInt(2)
                 await mockERC20.mint(borrower.address, feeAmount * BigInt(2))
@@ -804,7 +804,7 @@ describe('OriumSftMarketplace', () => {
               await wearableToken.setApprovalForAll(await SftRolesRegistrySingleRoleLegacy.getAddress(), true)
 
               const rentalOfferLegacy = {
-                nonce: `0x${randomBytes(32).toString('hex')}`,
+                nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
                 commitmentId: BigInt(0),
                 lender: lender.address,
                 borrower: AddressZero,
@@ -862,7 +862,10 @@ describe('OriumSftMarketplace', () => {
               await expect(
                 marketplace
                   .connect(lender)
-                  .delistRentalOfferAndWithdraw({ ...rentalOffer, nonce: `0x${randomBytes(32).toString('hex')}` }),
+                  .delistRentalOfferAndWithdraw({
+                    ...rentalOffer,
+                    nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
+                  }),
               ).to.be.revertedWith('OriumSftMarketplace: Offer not created')
             })
           })
@@ -905,7 +908,7 @@ describe('OriumSftMarketplace', () => {
               await expect(
                 marketplace
                   .connect(lender)
-                  .delistRentalOffer({ ...rentalOffer, nonce: `0x${randomBytes(32).toString('hex')}` }),
+                  .delistRentalOffer({ ...rentalOffer, nonce: BigInt(`0x${randomBytes(32).toString('hex')}`) }),
               ).to.be.revertedWith('OriumSftMarketplace: Offer not created')
             })
           })
@@ -926,7 +929,7 @@ describe('OriumSftMarketplace', () => {
                 .connect(operator)
                 .setRolesRegistry(await wearableToken.getAddress(), await SftRolesRegistrySingleRoleLegacy.getAddress())
               const rentalOfferLegacy = {
-                nonce: `0x${randomBytes(32).toString('hex')}`,
+                nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
                 commitmentId: BigInt(0),
                 lender: lender.address,
                 borrower: AddressZero,
@@ -955,7 +958,7 @@ describe('OriumSftMarketplace', () => {
                 .connect(operator)
                 .setRolesRegistry(await wearableToken.getAddress(), await SftRolesRegistrySingleRoleLegacy.getAddress())
               const rentalOfferLegacy = {
-                nonce: `0x${randomBytes(32).toString('hex')}`,
+                nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
                 commitmentId: BigInt(0),
                 lender: lender.address,
                 borrower: AddressZero,
@@ -1037,7 +1040,7 @@ describe('OriumSftMarketplace', () => {
                 await expect(
                   marketplace
                     .connect(borrower)
-                    .endRental({ ...rentalOffer, nonce: `0x${randomBytes(32).toString('hex')}` }),
+                    .endRental({ ...rentalOffer, nonce: BigInt(`0x${randomBytes(32).toString('hex')}`) }),
                 ).to.be.revertedWith('OriumSftMarketplace: Offer not created')
               })
               it('Should NOT end a rental if rental is expired', async () => {
@@ -1246,7 +1249,7 @@ describe('OriumSftMarketplace', () => {
             it('Should NOT commit tokens and grant role if tokenId does not match the commitment', async () => {
               await rolesRegistry.setTokenAddressAllowed(commitAndGrantRoleParams[0].tokenAddress, true)
               commitAndGrantRoleParams[0].commitmentId = BigInt(1)
-              commitAndGrantRoleParams[0].tokenId = 0
+              commitAndGrantRoleParams[0].tokenId = BigInt(0)
               await rolesRegistry
                 .connect(lender)
                 .lockTokens(lender.address, await mockERC1155.getAddress(), tokenId, tokenAmount)
@@ -1271,7 +1274,7 @@ describe('OriumSftMarketplace', () => {
 
               commitAndGrantRoleParams[0].tokenAddress = await wearableToken.getAddress()
               commitAndGrantRoleParams[0].commitmentId = BigInt(1)
-              commitAndGrantRoleParams[0].tokenId = 0
+              commitAndGrantRoleParams[0].tokenId = BigInt(0)
               await SftRolesRegistrySingleRoleLegacy.connect(lender).commitTokens(
                 lender.address,
                 await wearableToken.getAddress(),
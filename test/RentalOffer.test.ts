@@ -0,0 +1,116 @@
+import { expect } from 'chai'
+import { randomBytes } from 'crypto'
+import { ethers } from 'hardhat'
+import {
+  fromNftRentalOfferTuple,
+  fromSftRentalOfferTuple,
+  isSftRentalOffer,
+  nftRentalOfferFromJson,
+  sftRentalOfferFromJson,
+  toJson,
+  toNftRentalOfferTuple,
+  toSftRentalOfferTuple,
+} from '../utils/rental-offer'
+import { RentalOffer, SftRentalOffer } from '../utils/types'
+import { AddressZero, EMPTY_BYTES, ONE_DAY } from '../utils/constants'
+import { abi, UNIQUE_ROLE, USER_ROLE } from '../utils/roles'
+import { NftRentalMarketplace__factory, OriumSftMarketplace__factory } from '../typechain-types'
+
+describe('RentalOffer', () => {
+  // larger than Number.MAX_SAFE_INTEGER, so precision losses are caught
+  const nonce = BigInt(`0x${randomBytes(32).toString('hex')}`)
+
+  const nftRentalOffer: RentalOffer = {
+    nonce,
+    lender: ethers.getAddress(`0x${randomBytes(20).toString('hex')}`),
+    borrower: AddressZero,
+    tokenAddress: ethers.getAddress(`0x${randomBytes(20).toString('hex')}`),
+    tokenId: BigInt(2) ** BigInt(200),
+    feeTokenAddress: AddressZero,
+    feeAmountPerSecond: BigInt('123456789012345678901'),
+    deadline: 1_700_000_000 + ONE_DAY,
+    minDuration: ONE_DAY,
+    roles: [USER_ROLE, UNIQUE_ROLE],
+    rolesData: [EMPTY_BYTES, '0x1234'],
+  }
+  const sftRentalOffer: SftRentalOffer = {
+    ...nftRentalOffer,
+    tokenAmount: BigInt(10) ** BigInt(30),
+    commitmentId: BigInt(2) ** BigInt(64),
+  }
+
+  describe('Tuples', async () => {
+    it('Should round-trip an NFT rental offer through the ABI-decoded struct', async () => {
+      const { inputs } = NftRentalMarketplace__factory.createInterface().getFunction('createRentalOffer')
+      const [tuple] = abi.decode(inputs, abi.encode(inputs, [toNftRentalOfferTuple(nftRentalOffer)]))
+
+      expect(fromNftRentalOfferTuple(tuple)).to.be.deep.equal(nftRentalOffer)
+    })
+
+    it('Should round-trip an SFT rental offer through the ABI-decoded struct', async () => {
+      const { inputs } = OriumSftMarketplace__factory.createInterface().getFunction('createRentalOffer')
+      const [tuple] = abi.decode(inputs, abi.encode(inputs, [toSftRentalOfferTuple(sftRentalOffer)]))
+
+      expect(fromSftRentalOfferTuple(tuple)).to.be.deep.equal(sftRentalOffer)
+    })
+
+    it('Should reject tuples of the other marketplace', async () => {
+      expect(() => fromNftRentalOfferTuple(toSftRentalOfferTuple(sftRentalOffer))).to.throw(
+        'Expected 11 fields for LibNftRentalMarketplace.RentalOffer, got 13',
+      )
+      expect(() => fromSftRentalOfferTuple(toNftRentalOfferTuple(nftRentalOffer))).to.throw(
+        'Expected 13 fields for LibOriumSftMarketplace.RentalOffer, got 11',
+      )
+    })
+  })
+
+  describe('JSON', async () => {
+    it('Should round-trip the bigint fields of an NFT rental offer as decimal strings', async () => {
+      const json = toJson(nftRentalOffer)
+
+      expect(JSON.parse(json).nonce).to.be.equal(nonce.toString())
+      expect(nftRentalOfferFromJson(json)).to.be.deep.equal(nftRentalOffer)
+    })
+
+    it('Should round-trip the bigint fields of an SFT rental offer as decimal strings', async () => {
+      const json = toJson(sftRentalOffer)
+
+      expect(JSON.parse(json).tokenAmount).to.be.equal(sftRentalOffer.tokenAmount.toString())
+      expect(sftRentalOfferFromJson(json)).to.be.deep.equal(sftRentalOffer)
+    })
+
+    it('Should default minDuration to 0 for offers stored before it was added', async () => {
+      const legacyOffer = JSON.parse(toJson(nftRentalOffer))
+      delete legacyOffer.minDuration
+
+      expect(nftRentalOfferFromJson(legacyOffer)).to.be.deep.equal({ ...nftRentalOffer, minDuration: 0 })
+    })
+
+    it('Should reject empty, whitespace-only and unsafe integers', async () => {
+      const offer = JSON.parse(toJson(nftRentalOffer))
+
+      expect(() => nftRentalOfferFromJson({ ...offer, tokenId: '' })).to.throw('Expected an integer')
+      expect(() => nftRentalOfferFromJson({ ...offer, nonce: '  ' })).to.throw('Expected an integer')
+      expect(() => nftRentalOfferFromJson({ ...offer, feeAmountPerSecond: 2 ** 60 })).to.throw('is not a safe integer')
+      expect(() => nftRentalOfferFromJson({ ...offer, deadline: '99999999999999999999' })).to.throw('is too large')
+      expect(() => nftRentalOfferFromJson({ ...offer, tokenId: undefined })).to.throw('Missing field "tokenId"')
+    })
+  })
+
+  describe('isSftRentalOffer', async () => {
+    it('Should detect SFT rental offers by their tokenAmount and commitmentId', async () => {
+      expect(isSftRentalOffer(nftRentalOffer)).to.be.false
+      expect(isSftRentalOffer(sftRentalOffer)).to.be.true
+      expect(isSftRentalOffer(sftRentalOfferFromJson(toJson(sftRentalOffer)))).to.be.true
+      expect(isSftRentalOffer(nftRentalOfferFromJson(toJson(sftRentalOffer)))).to.be.false
+    })
+
+    it('Should require both SFT fields', async () => {
+      const withoutCommitmentId: Partial<SftRentalOffer> & RentalOffer = { ...sftRentalOffer }
+      delete withoutCommitmentId.commitmentId
+
+      expect(isSftRentalOffer(withoutCommitmentId)).to.be.false
+      expect(() => sftRentalOfferFromJson(toJson(withoutCommitmentId))).to.throw('Missing field "commitmentId"')
+    })
+  })
+})
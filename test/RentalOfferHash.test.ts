@@ -0,0 +1,183 @@
+/* eslint-disable no-unexpected-multiline */
+import { ethers } from 'hardhat'
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { randomBytes, randomInt } from 'crypto'
+import { hashNftRentalOffer, hashSftRentalOffer } from '../utils/hash'
+import { RentalOffer, SftRentalOffer } from '../utils/types'
+import { AddressZero, EMPTY_BYTES, ONE_DAY, ONE_HOUR } from '../utils/constants'
+import { UNIQUE_ROLE, USER_ROLE } from '../utils/roles'
+import { toWei } from '../utils/bignumber'
+import { deployNftMarketplaceContracts } from './fixtures/NftRentalMarketplaceFixture'
+import { deploySftMarketplaceContracts } from './fixtures/OriumSftMarketplaceFixture'
+import { LibNftRentalMarketplace, LibOriumSftMarketplace } from '../typechain-types'
+
+describe('RentalOfferHash', () => {
+  let lender: Awaited<ReturnType<typeof ethers.getSigner>>
+  let operator: Awaited<ReturnType<typeof ethers.getSigner>>
+
+  // Values to be used across tests
+  const randomOffersCount = 25
+
+  function randomAddress() {
+    return ethers.getAddress(`0x${randomBytes(20).toString('hex')}`)
+  }
+
+  function randomUint(bytes: number) {
+    return BigInt(`0x${randomBytes(bytes).toString('hex')}`)
+  }
+
+  function randomRoles() {
+    const rolesCount = randomInt(0, 4)
+    return {
+      roles: Array.from({ length: rolesCount }, () => `0x${randomBytes(32).toString('hex')}`),
+      rolesData: Array.from({ length: rolesCount }, () => `0x${randomBytes(randomInt(0, 70)).toString('hex')}`),
+    }
+  }
+
+  function randomNftRentalOffer(): RentalOffer {
+    return {
+      nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
+      lender: randomAddress(),
+      borrower: randomInt(0, 2) === 0 ? AddressZero : randomAddress(),
+      tokenAddress: randomAddress(),
+      tokenId: BigInt(randomInt(0, 2 ** 40)),
+      feeTokenAddress: randomAddress(),
+      feeAmountPerSecond: randomUint(randomInt(1, 33)),
+      deadline: randomInt(0, 2 ** 40),
+      minDuration: randomInt(0, 2) === 0 ? 0 : randomInt(1, 2 ** 40),
+      ...randomRoles(),
+    }
+  }
+
+  // external library functions taking structs are dispatched by the struct name, not by the tuple signature
+  async function libraryHashRentalOffer(
+    library: LibNftRentalMarketplace | LibOriumSftMarketplace,
+    rentalOffer: RentalOffer | SftRentalOffer,
+  ) {
+    const encodedCall = library.interface.encodeFunctionData('hashRentalOffer', [rentalOffer as SftRentalOffer])
+    const librarySelector = ethers.id('hashRentalOffer(RentalOffer)').slice(0, 10)
+    return ethers.provider.call({
+      to: await library.getAddress(),
+      data: `${librarySelector}${encodedCall.slice(10)}`,
+    })
+  }
+
+  function randomSftRentalOffer(): SftRentalOffer {
+    return {
+      ...randomNftRentalOffer(),
+      tokenAmount: randomUint(randomInt(1, 33)),
+      commitmentId: randomUint(randomInt(1, 33)),
+    }
+  }
+
+  before(async function () {
+    // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+    // prettier-ignore
+    [, operator, , , , lender] = await ethers.getSigners()
+  })
+
+  describe('NftRentalMarketplace', async () => {
+    it('Should match LibNftRentalMarketplace.hashRentalOffer for random offers', async () => {
+      const [, , , , , libMarketplace] = await loadFixture(deployNftMarketplaceContracts)
+
+      for (let i = 0; i < randomOffersCount; i++) {
+        const rentalOffer = randomNftRentalOffer()
+        expect(hashNftRentalOffer(rentalOffer)).to.be.equal(await libraryHashRentalOffer(libMarketplace, rentalOffer))
+      }
+    })
+
+    it('Should match the key used by isCreated', async () => {
+      const [marketplace, marketplaceRoyalties, , mockERC721, mockERC20] = await loadFixture(
+        deployNftMarketplaceContracts,
+      )
+      const tokenId = BigInt(1)
+      await mockERC721.mint(lender.address, tokenId)
+      await marketplaceRoyalties
+        .connect(operator)
+        .setTrustedFeeTokenForToken([await mockERC721.getAddress()], [await mockERC20.getAddress()], [true])
+
+      const rentalOffer: RentalOffer = {
+        nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
+        lender: lender.address,
+        borrower: AddressZero,
+        tokenAddress: await mockERC721.getAddress(),
+        tokenId,
+        feeTokenAddress: await mockERC20.getAddress(),
+        feeAmountPerSecond: toWei('0.01'),
+        deadline: Number(await time.latest()) + ONE_DAY,
+        minDuration: ONE_HOUR,
+        roles: [USER_ROLE],
+        rolesData: [EMPTY_BYTES],
+      }
+
+      await marketplace.connect(lender).createRentalOffer(rentalOffer)
+      expect(await marketplace.isCreated(hashNftRentalOffer(rentalOffer))).to.be.equal(true)
+    })
+  })
+
+  describe('OriumSftMarketplace', async () => {
+    it('Should match LibOriumSftMarketplace.hashRentalOffer for random offers', async () => {
+      const [, , , , , , , , libMarketplace] = await loadFixture(deploySftMarketplaceContracts)
+
+      for (let i = 0; i < randomOffersCount; i++) {
+        const rentalOffer = randomSftRentalOffer()
+        expect(hashSftRentalOffer(rentalOffer)).to.be.equal(await libraryHashRentalOffer(libMarketplace, rentalOffer))
+      }
+    })
+
+    it('Should match LibOriumSftMarketplace.hashRentalOffer for legacy offers without minDuration', async () => {
+      const [, , , , , , , , libMarketplace] = await loadFixture(deploySftMarketplaceContracts)
+
+      for (let i = 0; i < randomOffersCount; i++) {
+        const rentalOffer = { ...randomSftRentalOffer(), minDuration: 0 }
+        expect(hashSftRentalOffer(rentalOffer)).to.be.equal(await libraryHashRentalOffer(libMarketplace, rentalOffer))
+      }
+    })
+
+    for (const minDuration of [0, ONE_HOUR]) {
+      it(`Should match the key used by isCreated when minDuration is ${minDuration}`, async () => {
+        const [marketplace, marketplaceRoyalties, rolesRegistry, mockERC1155, mockERC20] = await loadFixture(
+          deploySftMarketplaceContracts,
+        )
+        const tokenId = BigInt(1)
+        const tokenAmount = BigInt(2)
+        await mockERC1155.mint(lender.address, tokenId, tokenAmount, '0x')
+        await marketplaceRoyalties
+          .connect(operator)
+          .setTrustedFeeTokenForToken([await mockERC1155.getAddress()], [await mockERC20.getAddress()], [true])
+        await rolesRegistry.setTokenAddressAllowed(await mockERC1155.getAddress(), true)
+        await rolesRegistry
+          .connect(lender)
+          .setRoleApprovalForAll(await mockERC1155.getAddress(), await marketplace.getAddress(), true)
+        await mockERC1155.connect(lender).setApprovalForAll(await rolesRegistry.getAddress(), true)
+
+        const rentalOffer: SftRentalOffer = {
+          nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
+          commitmentId: BigInt(0),
+          lender: lender.address,
+          borrower: AddressZero,
+          tokenAddress: await mockERC1155.getAddress(),
+          tokenId,
+          tokenAmount,
+          feeTokenAddress: await mockERC20.getAddress(),
+          feeAmountPerSecond: toWei('0.0000001'),
+          deadline: Number(await time.latest()) + ONE_DAY,
+          minDuration,
+          roles: [UNIQUE_ROLE],
+          rolesData: [EMPTY_BYTES],
+        }
+
+        const tx = await marketplace.connect(lender).createRentalOffer(rentalOffer)
+        const receipt = await tx.wait()
+        const event = receipt!.logs
+          .map(log => marketplace.interface.parseLog(log))
+          .find(parsedLog => parsedLog?.name === 'RentalOfferCreated')
+
+        // the marketplace stores the hash with the commitmentId assigned when locking the tokens
+        rentalOffer.commitmentId = event!.args.commitmentId
+        expect(await marketplace.isCreated(hashSftRentalOffer(rentalOffer))).to.be.equal(true)
+      })
+    }
+  })
+})
@@ -0,0 +1,142 @@
+/* eslint-disable no-unexpected-multiline */
+import { ethers } from 'hardhat'
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { randomBytes } from 'crypto'
+import { quoteRental } from '../utils/fee-quote'
+import { RentalOffer, SftRentalOffer } from '../utils/types'
+import { AddressZero, EMPTY_BYTES, ONE_DAY, ONE_HOUR } from '../utils/constants'
+import { UNIQUE_ROLE, USER_ROLE } from '../utils/roles'
+import { toWei } from '../utils/bignumber'
+import { deployNftMarketplaceContracts } from './fixtures/NftRentalMarketplaceFixture'
+import { deploySftMarketplaceContracts } from './fixtures/OriumSftMarketplaceFixture'
+import { MockERC20, OriumMarketplaceRoyalties } from '../typechain-types'
+
+describe('RentalQuote', () => {
+  let operator: Awaited<ReturnType<typeof ethers.getSigner>>
+  let creator: Awaited<ReturnType<typeof ethers.getSigner>>
+  let creatorTreasury: Awaited<ReturnType<typeof ethers.getSigner>>
+  let lender: Awaited<ReturnType<typeof ethers.getSigner>>
+  let borrower: Awaited<ReturnType<typeof ethers.getSigner>>
+
+  // Values to be used across tests
+  const tokenId = BigInt(1)
+  const tokenAmount = BigInt(2)
+  // odd values, so that the percentages are truncated
+  const duration = ONE_HOUR + 7
+  const feeAmountPerSecond = BigInt(123456789)
+  const marketplaceFeePercentageInWei = toWei('2.5')
+  const royaltyPercentageInWei = toWei('7.3')
+
+  before(async function () {
+    // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+    // prettier-ignore
+    [, operator, , creator, creatorTreasury, lender, borrower] = await ethers.getSigners()
+  })
+
+  async function setFees(marketplaceRoyalties: OriumMarketplaceRoyalties, tokenAddress: string, feeToken: string) {
+    await marketplaceRoyalties.connect(operator).setTrustedFeeTokenForToken([tokenAddress], [feeToken], [true])
+    await marketplaceRoyalties.connect(operator).setRoyaltyInfo(creator.address, tokenAddress, 0, AddressZero)
+    await marketplaceRoyalties
+      .connect(creator)
+      .setRoyaltyInfo(creator.address, tokenAddress, royaltyPercentageInWei, creatorTreasury.address)
+    await marketplaceRoyalties
+      .connect(operator)
+      .setMarketplaceFeeForCollection(tokenAddress, marketplaceFeePercentageInWei, true)
+  }
+
+  async function fundBorrower(mockERC20: MockERC20, spender: string, allowance: bigint) {
+    await mockERC20.mint(borrower.address, allowance)
+    await mockERC20.connect(borrower).approve(spender, allowance)
+  }
+
+  for (const feeToken of ['ERC-20', 'native'] as const) {
+    describe(`Fees paid in the ${feeToken} token`, async () => {
+      it('Should match the amounts transferred by NftRentalMarketplace', async () => {
+        const [marketplace, marketplaceRoyalties, rolesRegistry, mockERC721, mockERC20] = await loadFixture(
+          deployNftMarketplaceContracts,
+        )
+        const tokenAddress = await mockERC721.getAddress()
+        const feeTokenAddress = feeToken === 'native' ? AddressZero : await mockERC20.getAddress()
+        await mockERC721.mint(lender.address, tokenId)
+        await mockERC721.connect(lender).setApprovalForAll(await rolesRegistry.getAddress(), true)
+        await rolesRegistry.connect(lender).setRoleApprovalForAll(tokenAddress, await marketplace.getAddress(), true)
+        await marketplaceRoyalties.connect(operator).setRolesRegistry(tokenAddress, await rolesRegistry.getAddress())
+        await setFees(marketplaceRoyalties, tokenAddress, feeTokenAddress)
+
+        const rentalOffer: RentalOffer = {
+          nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
+          lender: lender.address,
+          borrower: AddressZero,
+          tokenAddress,
+          tokenId,
+          feeTokenAddress,
+          feeAmountPerSecond,
+          deadline: Number(await time.latest()) + ONE_DAY,
+          minDuration: 0,
+          roles: [USER_ROLE],
+          rolesData: [EMPTY_BYTES],
+        }
+        await marketplace.connect(lender).createRentalOffer(rentalOffer)
+
+        const quote = await quoteRental(marketplace, rentalOffer, duration)
+        expect(quote.marketplaceTreasury).to.be.equal(operator.address)
+        expect(quote.royaltyTreasury).to.be.equal(creatorTreasury.address)
+        await fundBorrower(mockERC20, await marketplace.getAddress(), quote.allowance)
+
+        const accept = marketplace.connect(borrower).acceptRentalOffer(rentalOffer, duration, { value: quote.msgValue })
+        const balanceChanges = [quote.marketplaceFeeAmount, quote.royaltyAmount, quote.lenderAmount]
+        if (feeToken === 'native') {
+          await expect(accept).to.changeEtherBalances([operator, creatorTreasury, lender], balanceChanges)
+        } else {
+          await expect(accept).to.changeTokenBalances(mockERC20, [operator, creatorTreasury, lender], balanceChanges)
+        }
+      })
+
+      it('Should match the amounts transferred by OriumSftMarketplace', async () => {
+        const [marketplace, marketplaceRoyalties, rolesRegistry, mockERC1155, mockERC20] = await loadFixture(
+          deploySftMarketplaceContracts,
+        )
+        const tokenAddress = await mockERC1155.getAddress()
+        const feeTokenAddress = feeToken === 'native' ? AddressZero : await mockERC20.getAddress()
+        await mockERC1155.mint(lender.address, tokenId, tokenAmount, '0x')
+        await rolesRegistry.setTokenAddressAllowed(tokenAddress, true)
+        await rolesRegistry.connect(lender).setRoleApprovalForAll(tokenAddress, await marketplace.getAddress(), true)
+        await mockERC1155.connect(lender).setApprovalForAll(await rolesRegistry.getAddress(), true)
+        await setFees(marketplaceRoyalties, tokenAddress, feeTokenAddress)
+
+        const rentalOffer: SftRentalOffer = {
+          nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
+          commitmentId: BigInt(0),
+          lender: lender.address,
+          borrower: AddressZero,
+          tokenAddress,
+          tokenId,
+          tokenAmount,
+          feeTokenAddress,
+          feeAmountPerSecond,
+          deadline: Number(await time.latest()) + ONE_DAY,
+          minDuration: 0,
+          roles: [UNIQUE_ROLE],
+          rolesData: [EMPTY_BYTES],
+        }
+        await marketplace.connect(lender).createRentalOffer(rentalOffer)
+        // the first commitment of the fixture
+        rentalOffer.commitmentId = BigInt(1)
+
+        const quote = await quoteRental(marketplace, rentalOffer, duration)
+        expect(quote.marketplaceTreasury).to.be.equal(operator.address)
+        expect(quote.royaltyTreasury).to.be.equal(creatorTreasury.address)
+        await fundBorrower(mockERC20, await marketplace.getAddress(), quote.allowance)
+
+        const accept = marketplace.connect(borrower).acceptRentalOffer(rentalOffer, duration, { value: quote.msgValue })
+        const balanceChanges = [quote.marketplaceFeeAmount, quote.royaltyAmount, quote.lenderAmount]
+        if (feeToken === 'native') {
+          await expect(accept).to.changeEtherBalances([operator, creatorTreasury, lender], balanceChanges)
+        } else {
+          await expect(accept).to.changeTokenBalances(mockERC20, [operator, creatorTreasury, lender], balanceChanges)
+        }
+      })
+    })
+  }
+})
@@ -0,0 +1,216 @@
+/* eslint-disable no-unexpected-multiline */
+import { ethers } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { toWei } from '../utils/bignumber'
+import { AddressZero, ONE_DAY, THREE_MONTHS } from '../utils/constants'
+import { planRoyaltiesReconciliation, ReconciliationCall, RoyaltiesDesiredState } from '../utils/royalties-reconciler'
+import { deployMarketplaceRoyaltiesContracts } from './fixtures/OriumMarketplaceRoyaltiesFixture'
+import {
+  IERC7432,
+  MockERC1155,
+  MockERC20,
+  OriumMarketplaceRoyalties,
+  SftRolesRegistrySingleRole,
+} from '../typechain-types'
+
+describe('RoyaltiesReconciliation', () => {
+  let marketplaceRoyalties: OriumMarketplaceRoyalties
+  let nftRolesRegistry: IERC7432
+  let sftRolesRegistry: SftRolesRegistrySingleRole
+  let mockERC1155: MockERC1155
+  let mockERC20: MockERC20
+
+  let operator: Awaited<ReturnType<typeof ethers.getSigner>>
+  let creator: Awaited<ReturnType<typeof ethers.getSigner>>
+  let creatorTreasury: Awaited<ReturnType<typeof ethers.getSigner>>
+
+  let tokenAddress: string
+
+  before(async function () {
+    // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+    // prettier-ignore
+    [, operator, , creator, creatorTreasury] = await ethers.getSigners()
+  })
+
+  beforeEach(async () => {
+    // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+    // prettier-ignore
+    [marketplaceRoyalties, nftRolesRegistry, sftRolesRegistry, mockERC1155, mockERC20] = await loadFixture(deployMarketplaceRoyaltiesContracts)
+    tokenAddress = await mockERC1155.getAddress()
+  })
+
+  async function apply(calls: ReconciliationCall[]) {
+    for (const { functionName, args } of calls) {
+      await marketplaceRoyalties.connect(operator).getFunction(functionName)(...args)
+    }
+  }
+
+  async function setCollection(marketplaceFee: string, royaltyPercentage: string) {
+    await marketplaceRoyalties
+      .connect(operator)
+      .setMarketplaceFeeForCollection(tokenAddress, toWei(marketplaceFee), true)
+    await marketplaceRoyalties
+      .connect(operator)
+      .setRoyaltyInfo(creator.address, tokenAddress, toWei(royaltyPercentage), creatorTreasury.address)
+  }
+
+  function collection(marketplaceFee: string, royaltyPercentage: string): RoyaltiesDesiredState {
+    return {
+      collections: {
+        [tokenAddress]: {
+          marketplaceFee,
+          royalty: { creator: creator.address, percentage: royaltyPercentage, treasury: creatorTreasury.address },
+        },
+      },
+    }
+  }
+
+  describe('No-op', async () => {
+    it('Should plan no call for an empty configuration', async () => {
+      expect(await planRoyaltiesReconciliation(marketplaceRoyalties, {})).to.be.empty
+    })
+
+    it('Should plan no call when the chain matches the configuration', async () => {
+      await setCollection('5', '10')
+      await marketplaceRoyalties.connect(operator).setTrustedFeeTokenForToken([tokenAddress], [AddressZero], [true])
+      const desired: RoyaltiesDesiredState = {
+        maxDuration: THREE_MONTHS,
+        defaultNftRolesRegistry: await nftRolesRegistry.getAddress(),
+        defaultSftRolesRegistry: await sftRolesRegistry.getAddress(),
+        collections: {
+          [tokenAddress.toLowerCase()]: {
+            ...collection('5', '10').collections![tokenAddress],
+            rolesRegistry: AddressZero,
+            trustedFeeTokens: { native: true, [await mockERC20.getAddress()]: false },
+          },
+        },
+      }
+
+      expect(await planRoyaltiesReconciliation(marketplaceRoyalties, desired)).to.be.empty
+    })
+  })
+
+  describe('Setters', async () => {
+    it('Should plan setMaxDuration', async () => {
+      const calls = await planRoyaltiesReconciliation(marketplaceRoyalties, { maxDuration: ONE_DAY })
+      expect(calls.map(({ functionName, args }) => [functionName, args])).to.be.deep.equal([
+        ['setMaxDuration', [BigInt(ONE_DAY)]],
+      ])
+      await apply(calls)
+      expect(await marketplaceRoyalties.maxDuration()).to.be.equal(ONE_DAY)
+    })
+
+    it('Should plan setDefaultNftRolesRegistry and setDefaultSftRolesRegistry', async () => {
+      const desired = { defaultNftRolesRegistry: creator.address, defaultSftRolesRegistry: creatorTreasury.address }
+      const calls = await planRoyaltiesReconciliation(marketplaceRoyalties, desired)
+      expect(calls.map(({ functionName, args }) => [functionName, args])).to.be.deep.equal([
+        ['setDefaultNftRolesRegistry', [creator.address]],
+        ['setDefaultSftRolesRegistry', [creatorTreasury.address]],
+      ])
+      await apply(calls)
+      expect(await planRoyaltiesReconciliation(marketplaceRoyalties, desired)).to.be.empty
+    })
+
+    it('Should plan setMarketplaceFeeForCollection for a custom fee', async () => {
+      const desired = { collections: { [tokenAddress]: { marketplaceFee: '5' } } }
+      const calls = await planRoyaltiesReconciliation(marketplaceRoyalties, desired)
+      expect(calls.map(({ functionName, args }) => [functionName, args])).to.be.deep.equal([
+        ['setMarketplaceFeeForCollection', [tokenAddress, toWei('5'), true]],
+      ])
+      await apply(calls)
+      expect(await planRoyaltiesReconciliation(marketplaceRoyalties, desired)).to.be.empty
+    })
+
+    it('Should plan setMarketplaceFeeForCollection for the default fee', async () => {
+      await setCollection('5', '0')
+      const desired = { collections: { [tokenAddress]: { marketplaceFee: 'default' } } }
+      const calls = await planRoyaltiesReconciliation(marketplaceRoyalties, desired)
+      expect(calls.map(({ functionName, args }) => [functionName, args])).to.be.deep.equal([
+        ['setMarketplaceFeeForCollection', [tokenAddress, BigInt(0), false]],
+      ])
+      await apply(calls)
+      expect(await planRoyaltiesReconciliation(marketplaceRoyalties, desired)).to.be.empty
+    })
+
+    it('Should plan setRoyaltyInfo', async () => {
+      const royalty = { creator: creator.address, percentage: '10', treasury: creatorTreasury.address }
+      const desired = { collections: { [tokenAddress]: { royalty } } }
+      const calls = await planRoyaltiesReconciliation(marketplaceRoyalties, desired)
+      expect(calls.map(({ functionName, args }) => [functionName, args])).to.be.deep.equal([
+        ['setRoyaltyInfo', [creator.address, tokenAddress, toWei('10'), creatorTreasury.address]],
+      ])
+      await apply(calls)
+      expect(await planRoyaltiesReconciliation(marketplaceRoyalties, desired)).to.be.empty
+    })
+
+    it('Should plan setRolesRegistry', async () => {
+      const desired = { collections: { [tokenAddress]: { rolesRegistry: await sftRolesRegistry.getAddress() } } }
+      const calls = await planRoyaltiesReconciliation(marketplaceRoyalties, desired)
+      expect(calls.map(({ functionName, args }) => [functionName, args])).to.be.deep.equal([
+        ['setRolesRegistry', [tokenAddress, await sftRolesRegistry.getAddress()]],
+      ])
+      await apply(calls)
+      expect(await planRoyaltiesReconciliation(marketplaceRoyalties, desired)).to.be.empty
+    })
+
+    it('Should group the fee token changes of all collections in one setTrustedFeeTokenForToken', async () => {
+      const mockERC20Address = await mockERC20.getAddress()
+      const secondTokenAddress = await sftRolesRegistry.getAddress()
+      await marketplaceRoyalties.connect(operator).setTrustedFeeTokenForToken([tokenAddress], [AddressZero], [true])
+      const desired: RoyaltiesDesiredState = {
+        collections: {
+          [tokenAddress]: { trustedFeeTokens: { native: false, [mockERC20Address]: true } },
+          [secondTokenAddress]: { trustedFeeTokens: { native: false, [mockERC20Address]: true } },
+        },
+      }
+      const calls = await planRoyaltiesReconciliation(marketplaceRoyalties, desired)
+      expect(calls.map(({ functionName, args }) => [functionName, args])).to.be.deep.equal([
+        [
+          'setTrustedFeeTokenForToken',
+          [
+            [tokenAddress, tokenAddress, secondTokenAddress],
+            [AddressZero, mockERC20Address, mockERC20Address],
+            [false, true, true],
+          ],
+        ],
+      ])
+      await apply(calls)
+      expect(await planRoyaltiesReconciliation(marketplaceRoyalties, desired)).to.be.empty
+    })
+  })
+
+  describe('Order of the fee and royalty calls', async () => {
+    it('Should set a lowered fee before the royalty', async () => {
+      await setCollection('10', '85')
+      const desired = collection('5', '92')
+      const calls = await planRoyaltiesReconciliation(marketplaceRoyalties, desired)
+      expect(calls.map(({ functionName }) => functionName)).to.be.deep.equal([
+        'setMarketplaceFeeForCollection',
+        'setRoyaltyInfo',
+      ])
+      // the royalty first would sum 102%
+      await expect(apply([...calls].reverse())).to.be.revertedWith(
+        'OriumMarketplaceRoyalties: Royalty percentage + marketplace fee cannot be greater than 100%',
+      )
+      await apply(calls)
+      expect(await planRoyaltiesReconciliation(marketplaceRoyalties, desired)).to.be.empty
+    })
+
+    it('Should set a raised fee after the royalty', async () => {
+      await setCollection('5', '92')
+      const desired = collection('10', '85')
+      const calls = await planRoyaltiesReconciliation(marketplaceRoyalties, desired)
+      expect(calls.map(({ functionName }) => functionName)).to.be.deep.equal([
+        'setRoyaltyInfo',
+        'setMarketplaceFeeForCollection',
+      ])
+      // the fee first would sum 102%
+      await expect(apply([...calls].reverse())).to.be.revertedWith(
+        'OriumMarketplaceRoyalties: Royalty percentage + marketplace fee cannot be greater than 100%',
+      )
+      await apply(calls)
+      expect(await planRoyaltiesReconciliation(marketplaceRoyalties, desired)).to.be.empty
+    })
+  })
+})
@@ -0,0 +1,36 @@
+import { expect } from 'chai'
+import { AddressZero } from '../utils/constants'
+import { calculateChecksum, SafeBatch } from '../utils/safe-batch'
+
+describe('SafeBatch', () => {
+  // batch and checksum from the tests of @morpho-labs/gnosis-tx-builder, whose batches the Transaction Builder imports
+  const batch = {
+    version: '1.0',
+    chainId: '1',
+    createdAt: 1665179771184,
+    meta: {
+      name: 'Transactions Batch',
+      checksum: '0x0e8bc7db05f5d3272681a16a52c08de6f1400b8afd76d332e771e5473bcca49e',
+      description: 'Created from @morpho-labs/gnosis-tx-builder',
+      txBuilderVersion: '1.10.0',
+      createdFromSafeAddress: AddressZero,
+      createdFromOwnerAddress: '',
+    },
+    transactions: [{ to: AddressZero, value: '1000000000000000000', data: '0x' }],
+  } as unknown as SafeBatch
+
+  it('Should match the checksum of the Transaction Builder', () => {
+    expect(calculateChecksum(batch)).to.be.equal(batch.meta.checksum)
+  })
+
+  it('Should not depend on the name of the batch', () => {
+    expect(calculateChecksum({ ...batch, meta: { ...batch.meta, name: 'Another name' } })).to.be.equal(
+      batch.meta.checksum,
+    )
+  })
+
+  it('Should change when a transaction changes', () => {
+    const transactions = [{ ...batch.transactions[0], value: '1' }]
+    expect(calculateChecksum({ ...batch, transactions })).to.not.be.equal(batch.meta.checksum)
+  })
+})
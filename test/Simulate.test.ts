@@ -0,0 +1,198 @@
+/* eslint-disable no-unexpected-multiline */
+import { ethers } from 'hardhat'
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { randomBytes } from 'crypto'
+import { simulateContractCall, simulateContractCalls } from '../utils/simulate'
+import { quoteRental } from '../utils/fee-quote'
+import { MarketplaceError } from '../utils/errors'
+import { RentalOffer } from '../utils/types'
+import { AddressZero, EMPTY_BYTES, ONE_DAY, ONE_HOUR } from '../utils/constants'
+import { USER_ROLE } from '../utils/roles'
+import { toWei } from '../utils/bignumber'
+import { deployNftMarketplaceContracts } from './fixtures/NftRentalMarketplaceFixture'
+import {
+  MockERC1155,
+  MockERC20,
+  MockERC721,
+  NftRentalMarketplace,
+  NftRolesRegistryVault,
+  OriumMarketplaceRoyalties,
+} from '../typechain-types'
+
+describe('Simulate', () => {
+  let marketplace: NftRentalMarketplace
+  let marketplaceRoyalties: OriumMarketplaceRoyalties
+  let rolesRegistry: NftRolesRegistryVault
+  let mockERC721: MockERC721
+  let mockERC20: MockERC20
+
+  let operator: Awaited<ReturnType<typeof ethers.getSigner>>
+  let creator: Awaited<ReturnType<typeof ethers.getSigner>>
+  let creatorTreasury: Awaited<ReturnType<typeof ethers.getSigner>>
+  let lender: Awaited<ReturnType<typeof ethers.getSigner>>
+  let borrower: Awaited<ReturnType<typeof ethers.getSigner>>
+
+  const tokenId = BigInt(1)
+  const amount = toWei('10')
+
+  before(async function () {
+    // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+    // prettier-ignore
+    [, operator, , creator, creatorTreasury, lender, borrower] = await ethers.getSigners()
+  })
+
+  beforeEach(async () => {
+    // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+    // prettier-ignore
+    [marketplace, marketplaceRoyalties, rolesRegistry, mockERC721, mockERC20] = await loadFixture(deployNftMarketplaceContracts)
+  })
+
+  describe('simulateContractCall', async () => {
+    it('Should decode the events and the ERC-20 transfers without changing the chain state', async () => {
+      await mockERC20.mint(lender.address, amount)
+      const blockNumber = await ethers.provider.getBlockNumber()
+
+      const report = await simulateContractCall(mockERC20, 'transfer', [borrower.address, amount], lender.address)
+
+      expect(report.from).to.be.equal(lender.address)
+      expect(report.to).to.be.equal(await mockERC20.getAddress())
+      expect(report.result).to.be.deep.equal([true])
+      expect(report.events!.map(({ name, args }) => [name, args])).to.be.deep.equal([
+        ['Transfer', { from: lender.address, to: borrower.address, value: amount }],
+      ])
+      expect(report.transfers).to.be.deep.equal([
+        { standard: 'ERC-20', token: await mockERC20.getAddress(), from: lender.address, to: borrower.address, amount },
+      ])
+      expect(await ethers.provider.getBlockNumber()).to.be.equal(blockNumber)
+      expect(await mockERC20.balanceOf(borrower.address)).to.be.equal(0)
+    })
+
+    it('Should decode ERC-721 and ERC-1155 transfers', async () => {
+      const MockERC1155Factory = await ethers.getContractFactory('MockERC1155')
+      const mockERC1155: MockERC1155 = await MockERC1155Factory.deploy()
+
+      const nftReport = await simulateContractCall(mockERC721, 'mint', [lender.address, tokenId], lender.address)
+      expect(nftReport.transfers).to.be.deep.equal([
+        {
+          standard: 'ERC-721',
+          token: await mockERC721.getAddress(),
+          from: AddressZero,
+          to: lender.address,
+          tokenId,
+          amount: BigInt(1),
+        },
+      ])
+
+      const sftReport = await simulateContractCall(
+        mockERC1155,
+        'mint',
+        [lender.address, tokenId, BigInt(3), '0x'],
+        lender.address,
+      )
+      expect(sftReport.events!.map(({ name }) => name)).to.be.deep.equal(['TransferSingle'])
+      expect(sftReport.transfers).to.be.deep.equal([
+        {
+          standard: 'ERC-1155',
+          token: await mockERC1155.getAddress(),
+          from: AddressZero,
+          to: lender.address,
+          tokenId,
+          amount: BigInt(3),
+        },
+      ])
+    })
+
+    it('Should report the gas cost at the given gas price', async () => {
+      await mockERC20.mint(lender.address, amount)
+      const maxFeePerGas = ethers.parseUnits('120', 'gwei')
+
+      const report = await simulateContractCall(
+        mockERC20,
+        'transfer',
+        [borrower.address, amount],
+        lender.address,
+        maxFeePerGas,
+      )
+
+      expect(report.gasEstimate).to.be.equal(
+        await mockERC20.connect(lender).transfer.estimateGas(borrower.address, amount),
+      )
+      expect(report.gasPrice).to.be.equal(maxFeePerGas)
+      expect(report.gasCost).to.be.equal(report.gasEstimate * maxFeePerGas)
+    })
+
+    it('Should report the native token transfers of a rental paid in the native token', async () => {
+      const tokenAddress = await mockERC721.getAddress()
+      await mockERC721.mint(lender.address, tokenId)
+      await mockERC721.connect(lender).setApprovalForAll(await rolesRegistry.getAddress(), true)
+      await rolesRegistry.connect(lender).setRoleApprovalForAll(tokenAddress, await marketplace.getAddress(), true)
+      await marketplaceRoyalties.connect(operator).setRolesRegistry(tokenAddress, await rolesRegistry.getAddress())
+      await marketplaceRoyalties.connect(operator).setTrustedFeeTokenForToken([tokenAddress], [AddressZero], [true])
+      await marketplaceRoyalties.connect(operator).setRoyaltyInfo(creator.address, tokenAddress, 0, AddressZero)
+      await marketplaceRoyalties
+        .connect(creator)
+        .setRoyaltyInfo(creator.address, tokenAddress, toWei('10'), creatorTreasury.address)
+      const rentalOffer: RentalOffer = {
+        nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
+        lender: lender.address,
+        borrower: AddressZero,
+        tokenAddress,
+        tokenId,
+        feeTokenAddress: AddressZero,
+        feeAmountPerSecond: toWei('0.0000001'),
+        deadline: Number(await time.latest()) + ONE_DAY,
+        minDuration: 0,
+        roles: [USER_ROLE],
+        rolesData: [EMPTY_BYTES],
+      }
+      await marketplace.connect(lender).createRentalOffer(rentalOffer)
+      const quote = await quoteRental(marketplace, rentalOffer, ONE_HOUR)
+
+      const report = await simulateContractCall(
+        marketplace,
+        'acceptRentalOffer',
+        [rentalOffer, ONE_HOUR, { value: quote.msgValue }],
+        borrower.address,
+      )
+
+      const marketplaceAddress = await marketplace.getAddress()
+      expect(report.events!.map(({ name }) => name)).to.include('RentalStarted')
+      expect(report.transfers!.filter(({ standard }) => standard === 'native')).to.deep.include.members([
+        nativeTransfer(borrower.address, marketplaceAddress, quote.msgValue),
+        nativeTransfer(marketplaceAddress, operator.address, quote.marketplaceFeeAmount),
+        nativeTransfer(marketplaceAddress, creatorTreasury.address, quote.royaltyAmount),
+        nativeTransfer(marketplaceAddress, lender.address, quote.lenderAmount),
+      ])
+    })
+
+    it('Should throw a MarketplaceError when the call reverts', async () => {
+      await expect(
+        simulateContractCall(mockERC20, 'transfer', [borrower.address, amount], lender.address),
+      ).to.be.rejectedWith(MarketplaceError, 'ERC20: transfer amount exceeds balance')
+    })
+  })
+
+  describe('simulateContractCalls', async () => {
+    it('Should simulate each call after the previous ones and revert them afterwards', async () => {
+      const reports = await simulateContractCalls(
+        [
+          { contract: mockERC20, functionName: 'mint', args: [lender.address, amount] },
+          { contract: mockERC20, functionName: 'transfer', args: [borrower.address, amount] },
+        ],
+        lender.address,
+      )
+
+      expect(reports.map(({ functionName }) => functionName)).to.be.deep.equal(['mint', 'transfer'])
+      expect(reports[1].transfers).to.be.deep.equal([
+        { standard: 'ERC-20', token: await mockERC20.getAddress(), from: lender.address, to: borrower.address, amount },
+      ])
+      expect(await mockERC20.balanceOf(lender.address)).to.be.equal(0)
+      expect(await mockERC20.balanceOf(borrower.address)).to.be.equal(0)
+    })
+  })
+})
+
+function nativeTransfer(from: string, to: string, amount: bigint) {
+  return { standard: 'native', token: AddressZero, from, to, amount }
+}
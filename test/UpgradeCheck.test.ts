@@ -0,0 +1,71 @@
+/* eslint-disable no-unexpected-multiline */
+import { ethers, upgrades } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { checkUpgrade } from '../utils/upgrade-check'
+import { deployNftMarketplaceContracts } from './fixtures/NftRentalMarketplaceFixture'
+import { LibNftRentalMarketplace, MockERC20, NftRentalMarketplace, OriumMarketplaceRoyalties } from '../typechain-types'
+
+describe('UpgradeCheck', () => {
+  let marketplace: NftRentalMarketplace
+  let marketplaceRoyalties: OriumMarketplaceRoyalties
+  let mockERC20: MockERC20
+  let libMarketplace: LibNftRentalMarketplace
+
+  beforeEach(async () => {
+    // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+    // prettier-ignore
+    [marketplace, marketplaceRoyalties, , , mockERC20, libMarketplace] = await loadFixture(deployNftMarketplaceContracts)
+  })
+
+  it('Should pass when the live implementation is the current build', async () => {
+    const report = await checkUpgrade('OriumMarketplaceRoyalties', await marketplaceRoyalties.getAddress())
+
+    expect(report.ok).to.be.true
+    expect(report.storage).to.be.deep.equal({ ok: true, explanation: undefined, added: [], removed: [] })
+    expect(report.functions).to.be.deep.equal({ added: [], removed: [], unknownRemovedSelectors: [] })
+    expect(report.events).to.be.deep.equal({ source: 'bytecode', added: [], removed: [], unknownRemovedTopics: [] })
+    expect(report.libraries).to.be.empty
+  })
+
+  it('Should pass and compare the linked libraries when the live implementation is the current build', async () => {
+    const libraryAddress = await libMarketplace.getAddress()
+    const report = await checkUpgrade('NftRentalMarketplace', await marketplace.getAddress(), {
+      LibNftRentalMarketplace: libraryAddress,
+    })
+
+    expect(report.ok).to.be.true
+    expect(report.functions.removed).to.be.empty
+    expect(report.events.removed).to.be.empty
+    expect(report.libraries).to.be.deep.equal([
+      { name: 'LibNftRentalMarketplace', change: 'UNCHANGED', currentAddress: libraryAddress },
+    ])
+
+    const arrayReport = await checkUpgrade('NftRentalMarketplace', await marketplace.getAddress(), [
+      await mockERC20.getAddress(),
+    ])
+    expect(arrayReport.libraries).to.be.deep.equal([
+      { name: 'LibNftRentalMarketplace', change: 'CHANGED', currentAddress: await mockERC20.getAddress() },
+    ])
+  })
+
+  it('Should fail when the live implementation has functions and events the current build removed', async () => {
+    const proxy = await marketplaceRoyalties.getAddress()
+    const implementation = await upgrades.erc1967.getImplementationAddress(proxy)
+    // the live implementation becomes an ERC-20, whose functions and Transfer event the current build does not have
+    await ethers.provider.send('hardhat_setCode', [implementation, await ethers.provider.getCode(mockERC20)])
+
+    const report = await checkUpgrade('OriumMarketplaceRoyalties', proxy)
+
+    expect(report.ok).to.be.false
+    expect(report.storage.ok).to.be.true
+    expect(report.functions.removed).to.include.members(['transfer(address,uint256)', 'approve(address,uint256)'])
+    expect(report.functions.unknownRemovedSelectors).to.be.empty
+    expect(report.events.source).to.be.equal('bytecode')
+    // the bytecode only has the topics, which ERC-20 shares with the ERC-721 events of the same name
+    expect(report.events.removed.map(event => event.slice(0, event.indexOf('(')))).to.have.members([
+      'event Approval',
+      'event Transfer',
+    ])
+  })
+})
@@ -0,0 +1,294 @@
+/* eslint-disable no-unexpected-multiline */
+import { ethers } from 'hardhat'
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers'
+import { expect } from 'chai'
+import { randomBytes } from 'crypto'
+import { validateNftRentalOffer, validateSftRentalOffer } from '../utils/validate-rental-offer'
+import { RentalOffer, SftRentalOffer } from '../utils/types'
+import { AddressZero, EMPTY_BYTES, ONE_DAY, ONE_HOUR, THREE_MONTHS } from '../utils/constants'
+import { UNIQUE_ROLE, USER_ROLE } from '../utils/roles'
+import { toWei } from '../utils/bignumber'
+import { deployNftMarketplaceContracts } from './fixtures/NftRentalMarketplaceFixture'
+import { deploySftMarketplaceContracts } from './fixtures/OriumSftMarketplaceFixture'
+import {
+  MockERC1155,
+  MockERC20,
+  MockERC721,
+  NftRentalMarketplace,
+  NftRolesRegistryVault,
+  OriumMarketplaceRoyalties,
+  OriumSftMarketplace,
+  SftRolesRegistrySingleRole,
+  SftRolesRegistrySingleRoleLegacy,
+} from '../typechain-types'
+
+describe('ValidateRentalOffer', () => {
+  let operator: Awaited<ReturnType<typeof ethers.getSigner>>
+  let creator: Awaited<ReturnType<typeof ethers.getSigner>>
+  let lender: Awaited<ReturnType<typeof ethers.getSigner>>
+  let borrower: Awaited<ReturnType<typeof ethers.getSigner>>
+
+  const tokenId = BigInt(1)
+  const tokenAmount = BigInt(2)
+
+  before(async function () {
+    // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+    // prettier-ignore
+    [, operator, , creator, , lender, borrower] = await ethers.getSigners()
+  })
+
+  function codesOf(violations: { code: string }[]) {
+    return violations.map(({ code }) => code)
+  }
+
+  describe('validateNftRentalOffer', async () => {
+    let marketplace: NftRentalMarketplace
+    let marketplaceRoyalties: OriumMarketplaceRoyalties
+    let rolesRegistry: NftRolesRegistryVault
+    let mockERC721: MockERC721
+    let mockERC20: MockERC20
+    let rentalOffer: RentalOffer
+
+    beforeEach(async () => {
+      // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+      // prettier-ignore
+      [marketplace, marketplaceRoyalties, rolesRegistry, mockERC721, mockERC20] = await loadFixture(deployNftMarketplaceContracts)
+      const tokenAddress = await mockERC721.getAddress()
+      await mockERC721.mint(lender.address, tokenId)
+      await marketplaceRoyalties
+        .connect(operator)
+        .setTrustedFeeTokenForToken([tokenAddress], [await mockERC20.getAddress()], [true])
+      await marketplaceRoyalties.connect(operator).setRolesRegistry(tokenAddress, await rolesRegistry.getAddress())
+
+      rentalOffer = {
+        nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
+        lender: lender.address,
+        borrower: AddressZero,
+        tokenAddress,
+        tokenId,
+        feeTokenAddress: await mockERC20.getAddress(),
+        feeAmountPerSecond: toWei('0.0000001'),
+        deadline: (await time.latest()) + ONE_DAY,
+        minDuration: 0,
+        roles: [USER_ROLE],
+        rolesData: [EMPTY_BYTES],
+      }
+    })
+
+    it('Should find no violation in a valid offer', async () => {
+      expect(await validateNftRentalOffer(marketplace, rentalOffer, lender.address)).to.be.empty
+    })
+
+    it('Should require the sender to own the token or to have deposited it in the roles registry', async () => {
+      expect(codesOf(await validateNftRentalOffer(marketplace, rentalOffer, borrower.address))).to.be.deep.equal([
+        'NOT_TOKEN_OWNER',
+        'LENDER_MISMATCH',
+      ])
+
+      await mockERC721.connect(lender).setApprovalForAll(await rolesRegistry.getAddress(), true)
+      await rolesRegistry.connect(lender).grantRole({
+        roleId: UNIQUE_ROLE,
+        tokenAddress: rentalOffer.tokenAddress,
+        tokenId,
+        recipient: borrower.address,
+        expirationDate: (await time.latest()) + ONE_HOUR,
+        revocable: true,
+        data: EMPTY_BYTES,
+      })
+      expect(await mockERC721.ownerOf(tokenId)).to.be.equal(await rolesRegistry.getAddress())
+      expect(await validateNftRentalOffer(marketplace, rentalOffer, lender.address)).to.be.empty
+    })
+
+    it('Should report the roles of an active offer until its deadline', async () => {
+      await mockERC721.connect(lender).setApprovalForAll(await rolesRegistry.getAddress(), true)
+      await rolesRegistry.connect(lender).setRoleApprovalForAll(rentalOffer.tokenAddress, marketplace, true)
+      await marketplace.connect(lender).createRentalOffer(rentalOffer)
+      const newOffer = { ...rentalOffer, nonce: rentalOffer.nonce + BigInt(1) }
+
+      expect(codesOf(await validateNftRentalOffer(marketplace, newOffer, lender.address))).to.be.deep.equal([
+        'ROLE_IN_ACTIVE_OFFER',
+      ])
+      expect(codesOf(await validateNftRentalOffer(marketplace, rentalOffer, lender.address))).to.be.deep.equal([
+        'NONCE_ALREADY_USED',
+        'ROLE_IN_ACTIVE_OFFER',
+      ])
+
+      await time.increaseTo(rentalOffer.deadline + 1)
+      newOffer.deadline = (await time.latest()) + ONE_DAY
+      expect(await validateNftRentalOffer(marketplace, newOffer, lender.address)).to.be.empty
+    })
+
+    it('Should report every broken rule of the offer parameters', async () => {
+      const invalidOffer: RentalOffer = {
+        ...rentalOffer,
+        nonce: BigInt(0),
+        feeTokenAddress: AddressZero,
+        feeAmountPerSecond: BigInt(0),
+        deadline: (await time.latest()) + THREE_MONTHS + ONE_DAY,
+        minDuration: THREE_MONTHS * 2,
+        roles: [],
+      }
+
+      expect(codesOf(await validateNftRentalOffer(marketplace, invalidOffer, lender.address))).to.be.deep.equal([
+        'UNTRUSTED_FEE_TOKEN',
+        'INVALID_DEADLINE',
+        'ZERO_NONCE',
+        'EMPTY_ROLES',
+        'ROLES_DATA_LENGTH_MISMATCH',
+        'ZERO_FEE_PUBLIC_OFFER',
+        'INVALID_MIN_DURATION',
+      ])
+    })
+  })
+
+  describe('validateSftRentalOffer', async () => {
+    const wearableAddress = '0x58de9AaBCaeEC0f69883C94318810ad79Cc6a44f'
+
+    let marketplace: OriumSftMarketplace
+    let marketplaceRoyalties: OriumMarketplaceRoyalties
+    let rolesRegistry: SftRolesRegistrySingleRole
+    let mockERC1155: MockERC1155
+    let mockERC20: MockERC20
+    let secondMockERC1155: MockERC1155
+    let wearableToken: MockERC1155
+    let rolesRegistryLegacy: SftRolesRegistrySingleRoleLegacy
+    let rentalOffer: SftRentalOffer
+
+    beforeEach(async () => {
+      // we are disabling this rule so ; may not be added automatically by prettier at the beginning of the line
+      // prettier-ignore
+      [marketplace, marketplaceRoyalties, rolesRegistry, mockERC1155, mockERC20, secondMockERC1155, wearableToken, rolesRegistryLegacy] = await loadFixture(deploySftMarketplaceContracts)
+      const feeTokenAddress = await mockERC20.getAddress()
+      await marketplaceRoyalties
+        .connect(operator)
+        .setTrustedFeeTokenForToken(
+          [await mockERC1155.getAddress(), wearableAddress],
+          [feeTokenAddress, feeTokenAddress],
+          [true, true],
+        )
+      await mockERC1155.mint(lender.address, tokenId, tokenAmount, '0x')
+      await mockERC1155.connect(lender).setApprovalForAll(await rolesRegistry.getAddress(), true)
+      await rolesRegistry.setTokenAddressAllowed(await mockERC1155.getAddress(), true)
+
+      rentalOffer = {
+        nonce: BigInt(`0x${randomBytes(32).toString('hex')}`),
+        commitmentId: BigInt(0),
+        lender: lender.address,
+        borrower: AddressZero,
+        tokenAddress: await mockERC1155.getAddress(),
+        tokenId,
+        tokenAmount,
+        feeTokenAddress,
+        feeAmountPerSecond: toWei('0.0000001'),
+        deadline: (await time.latest()) + ONE_DAY,
+        minDuration: 0,
+        roles: [UNIQUE_ROLE],
+        rolesData: [EMPTY_BYTES],
+      }
+    })
+
+    describe('Without commitment', async () => {
+      it('Should find no violation in a valid offer', async () => {
+        expect(await validateSftRentalOffer(marketplace, rentalOffer, lender.address)).to.be.empty
+      })
+
+      it('Should require a positive token amount within the balance of the sender', async () => {
+        const tooLargeOffer = { ...rentalOffer, tokenAmount: tokenAmount + BigInt(1) }
+        expect(codesOf(await validateSftRentalOffer(marketplace, tooLargeOffer, lender.address))).to.be.deep.equal([
+          'INSUFFICIENT_BALANCE',
+        ])
+
+        const emptyOffer = { ...rentalOffer, tokenAmount: BigInt(0) }
+        expect(codesOf(await validateSftRentalOffer(marketplace, emptyOffer, lender.address))).to.be.deep.equal([
+          'ZERO_TOKEN_AMOUNT',
+        ])
+      })
+    })
+
+    describe('With commitment', async () => {
+      beforeEach(async () => {
+        await rolesRegistry.connect(lender).lockTokens(lender.address, rentalOffer.tokenAddress, tokenId, tokenAmount)
+        rentalOffer.commitmentId = BigInt(1)
+      })
+
+      it('Should find no violation when the commitment matches the offer', async () => {
+        expect(await validateSftRentalOffer(marketplace, rentalOffer, lender.address)).to.be.empty
+      })
+
+      it('Should report the fields that do not match the commitment', async () => {
+        const mismatchedOffer = { ...rentalOffer, tokenId: tokenId + BigInt(1), tokenAmount: BigInt(1) }
+
+        expect(codesOf(await validateSftRentalOffer(marketplace, mismatchedOffer, lender.address))).to.be.deep.equal([
+          'COMMITMENT_TOKEN_AMOUNT_MISMATCH',
+          'COMMITMENT_TOKEN_ID_MISMATCH',
+        ])
+      })
+
+      it('Should report a commitment of another grantor or token address', async () => {
+        await rolesRegistry.setTokenAddressAllowed(await secondMockERC1155.getAddress(), true)
+        await secondMockERC1155.mint(creator.address, tokenId, tokenAmount, '0x')
+        await secondMockERC1155.connect(creator).setApprovalForAll(await rolesRegistry.getAddress(), true)
+        await rolesRegistry
+          .connect(creator)
+          .lockTokens(creator.address, await secondMockERC1155.getAddress(), tokenId, tokenAmount)
+        const otherCommitmentOffer = { ...rentalOffer, commitmentId: BigInt(2) }
+
+        expect(
+          codesOf(await validateSftRentalOffer(marketplace, otherCommitmentOffer, lender.address)),
+        ).to.be.deep.equal(['COMMITMENT_GRANTOR_MISMATCH', 'COMMITMENT_TOKEN_ADDRESS_MISMATCH'])
+      })
+
+      it('Should report a commitment of an active offer', async () => {
+        await rolesRegistry.connect(lender).setRoleApprovalForAll(rentalOffer.tokenAddress, marketplace, true)
+        await marketplace.connect(lender).createRentalOffer(rentalOffer)
+        const newOffer = { ...rentalOffer, nonce: rentalOffer.nonce + BigInt(1) }
+
+        expect(codesOf(await validateSftRentalOffer(marketplace, newOffer, lender.address))).to.be.deep.equal([
+          'COMMITMENT_IN_ACTIVE_OFFER',
+        ])
+      })
+    })
+
+    describe('With legacy commitment', async () => {
+      let legacyOffer: SftRentalOffer
+
+      beforeEach(async () => {
+        // the legacy registry is only used for the Aavegotchi wearables, so the mock is deployed at their address
+        await ethers.provider.send('hardhat_setCode', [wearableAddress, await ethers.provider.getCode(wearableToken)])
+        wearableToken = await ethers.getContractAt('MockERC1155', wearableAddress)
+        await marketplaceRoyalties.connect(operator).setRolesRegistry(wearableAddress, rolesRegistryLegacy)
+
+        for (const grantor of [lender, creator]) {
+          await wearableToken.mint(grantor.address, tokenId, tokenAmount, '0x')
+          await wearableToken.connect(grantor).setApprovalForAll(rolesRegistryLegacy, true)
+          await rolesRegistryLegacy
+            .connect(grantor)
+            .commitTokens(grantor.address, wearableAddress, tokenId, tokenAmount)
+        }
+        legacyOffer = { ...rentalOffer, tokenAddress: wearableAddress, commitmentId: BigInt(1) }
+      })
+
+      it('Should find no violation when the commitment matches the offer', async () => {
+        expect(await validateSftRentalOffer(marketplace, legacyOffer, lender.address)).to.be.empty
+      })
+
+      it('Should report a commitment of another grantor', async () => {
+        const otherCommitmentOffer = { ...legacyOffer, commitmentId: BigInt(2) }
+
+        expect(
+          codesOf(await validateSftRentalOffer(marketplace, otherCommitmentOffer, lender.address)),
+        ).to.be.deep.equal(['COMMITMENT_GRANTOR_MISMATCH'])
+      })
+
+      it('Should not compare the token address, which the legacy registry does not expose', async () => {
+        await mockERC1155.connect(lender).setApprovalForAll(rolesRegistryLegacy, true)
+        await rolesRegistryLegacy
+          .connect(lender)
+          .commitTokens(lender.address, await mockERC1155.getAddress(), tokenId, tokenAmount)
+        const otherTokenOffer = { ...legacyOffer, commitmentId: BigInt(3) }
+
+        expect(await validateSftRentalOffer(marketplace, otherTokenOffer, lender.address)).to.be.empty
+      })
+    })
+  })
+})
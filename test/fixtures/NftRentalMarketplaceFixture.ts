@@ -6,11 +6,12 @@ import {
   MockERC721,
   OriumMarketplaceRoyalties,
   NftRentalMarketplace,
+  LibNftRentalMarketplace,
 } from '../../typechain-types'
 /**
  * @dev deployer, operator needs to be the first accounts in the hardhat ethers.getSigners()
  * list respectively. This should be considered to use this fixture in tests
- * @returns [marketplace, marketplaceRoyalties, rolesRegistry, mockERC721, mockERC20]
+ * @returns [marketplace, marketplaceRoyalties, rolesRegistry, mockERC721, mockERC20, libMarketplace]
  */
 export async function deployNftMarketplaceContracts() {
   const [, operator] = await ethers.getSigners()
@@ -32,7 +33,7 @@ export async function deployNftMarketplaceContracts() {
     await marketplaceRoyaltiesProxy.getAddress(),
   )
   const LibMarketplaceFactory = await ethers.getContractFactory('LibNftRentalMarketplace')
-  const libMarketplace = await LibMarketplaceFactory.deploy()
+  const libMarketplace: LibNftRentalMarketplace = await LibMarketplaceFactory.deploy()
   await libMarketplace.waitForDeployment()
 
   const MarketplaceFactory = await ethers.getContractFactory('NftRentalMarketplace', {
@@ -62,5 +63,5 @@ export async function deployNftMarketplaceContracts() {
   const mockERC20: MockERC20 = await MockERC20Factory.deploy()
   await mockERC20.waitForDeployment()
 
-  return [marketplace, marketplaceRoyalties, rolesRegistry, mockERC721, mockERC20] as const
+  return [marketplace, marketplaceRoyalties, rolesRegistry, mockERC721, mockERC20, libMarketplace] as const
 }
@@ -6,12 +6,14 @@ import {
   SftRolesRegistrySingleRole,
   MockERC1155,
   SftRolesRegistrySingleRoleLegacy,
+  LibOriumSftMarketplace,
 } from '../../typechain-types'
 
 /**
  * @dev deployer, operator needs to be the first accounts in the hardhat ethers.getSigners()
  * list respectively. This should be considered to use this fixture in tests
- * @returns [marketplace, marketplaceRoyalties, rolesRegistry, mockERC1155, mockERC20]
+ * @returns [marketplace, marketplaceRoyalties, rolesRegistry, mockERC1155, mockERC20, secondMockERC1155, wearableToken,
+ * rolesRegistryLegacy, libMarketplace]
  */
 export async function deploySftMarketplaceContracts() {
   const [, operator] = await ethers.getSigners()
@@ -44,7 +46,7 @@ export async function deploySftMarketplaceContracts() {
   )
 
   const LibMarketplaceFactory = await ethers.getContractFactory('LibOriumSftMarketplace')
-  const libMarketplace = await LibMarketplaceFactory.deploy()
+  const libMarketplace: LibOriumSftMarketplace = await LibMarketplaceFactory.deploy()
   await libMarketplace.waitForDeployment()
 
   const MarketplaceFactory = await ethers.getContractFactory('OriumSftMarketplace', {
@@ -85,5 +87,6 @@ export async function deploySftMarketplaceContracts() {
     secondMockERC1155,
     wearableToken,
     rolesRegistryLegacy,
+    libMarketplace,
   ] as const
 }
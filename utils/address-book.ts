@@ -0,0 +1,176 @@
+import { ethers, upgrades } from 'hardhat'
+import { existsSync, readFileSync } from 'fs'
+import { AddressBook, AddressBookEntry } from '../addresses'
+
+const ENTRY_FIELDS = ['address', 'operator', 'implementation', 'proxyAdmin', 'libraries']
+// entries of accounts without code
+const EXTERNALLY_OWNED_ACCOUNTS = ['KMSDeployer']
+const OWNABLE_ABI = ['function owner() view returns (address)']
+
+export type AddressBookCheckStatus = 'OK' | 'MISMATCH' | 'SKIPPED'
+
+export interface AddressBookCheck {
+  contractName: string
+  check: 'code' | 'implementation' | 'proxyAdmin' | 'operator' | 'library'
+  status: AddressBookCheckStatus
+  expected?: string
+  actual?: string
+  detail?: string
+}
+
+/**
+ * @notice Validates an address book against its schema
+ * @dev Besides the types of the fields, addresses must be valid, placeholders must be entirely empty, and the
+ * implementation and proxyAdmin of upgradeable contracts are recorded together
+ * @param addressBook The parsed content of addresses/<network>/index.json
+ * @returns The problems found, empty when the address book is valid
+ */
+export function validateAddressBook(addressBook: unknown): string[] {
+  if (!isObject(addressBook)) return ['The address book must be an object of contract names to entries']
+
+  const problems: string[] = []
+  for (const [contractName, entry] of Object.entries(addressBook)) {
+    if (!isObject(entry)) {
+      problems.push(`${contractName}: must be an object with an address`)
+      continue
+    }
+    const report = (problem: string) => problems.push(`${contractName}: ${problem}`)
+    const isPlaceholder = entry.address === ''
+
+    Object.keys(entry)
+      .filter(field => !ENTRY_FIELDS.includes(field))
+      .forEach(field => report(`unknown field ${field}`))
+    if (typeof entry.address !== 'string') report('address is missing')
+
+    for (const field of ['address', 'operator', 'implementation', 'proxyAdmin']) {
+      const value = entry[field]
+      if (value === undefined || value === '') continue
+      if (typeof value !== 'string' || !ethers.isAddress(value)) report(`${field} is not an address: ${value}`)
+      else if (isPlaceholder) report(`${field} must be empty in a placeholder`)
+    }
+    if ((entry.implementation === undefined) !== (entry.proxyAdmin === undefined)) {
+      report('implementation and proxyAdmin must be recorded together')
+    }
+    if (!isPlaceholder) {
+      ;['operator', 'implementation', 'proxyAdmin']
+        .filter(field => entry[field] === '')
+        .forEach(field => report(`${field} is empty`))
+    }
+
+    if (entry.libraries !== undefined) {
+      if (!isObject(entry.libraries) && !Array.isArray(entry.libraries)) {
+        report('libraries must be an object of library names to addresses, or an array of addresses')
+        continue
+      }
+      if (entry.implementation === undefined) report('libraries are only recorded for upgradeable contracts')
+      for (const [library, address] of librariesOf(entry.libraries)) {
+        if (address === '' && isPlaceholder) continue
+        if (typeof address !== 'string' || !ethers.isAddress(address)) {
+          report(`library ${library} is not an address: ${address}`)
+        } else if (isPlaceholder) report(`library ${library} must be empty in a placeholder`)
+      }
+    }
+  }
+  return problems
+}
+
+/**
+ * @notice Reads and validates an address book
+ * @param path The address book, addresses/<network>/index.json
+ * @returns The address book
+ * @throws Error listing the problems when the address book does not match the schema
+ */
+export function readAddressBook(path: string): AddressBook {
+  if (!existsSync(path)) throw new Error(`No address book found at ${path}`)
+  const addressBook = JSON.parse(readFileSync(path, 'utf8'))
+  const problems = validateAddressBook(addressBook)
+  if (problems.length > 0) throw new Error(`Invalid address book ${path}:\n${problems.join('\n')}`)
+  return addressBook
+}
+
+/**
+ * @notice Checks the entries of an address book against the chain
+ * @dev Each contract must have code. For upgradeable contracts, implementation and proxyAdmin must match the ERC-1967
+ * slots of the proxy, operator must be the owner() of the proxy, and the libraries must be linked to the current
+ * implementation. Placeholders and externally owned accounts are skipped
+ * @param addressBook The address book, validated by validateAddressBook
+ * @param contractNames The entries to check, all of them by default
+ * @returns The result of each check
+ */
+export async function checkAddressBook(
+  addressBook: AddressBook,
+  contractNames = Object.keys(addressBook),
+): Promise<AddressBookCheck[]> {
+  const checks: AddressBookCheck[] = []
+  for (const contractName of contractNames) {
+    const entry = addressBook[contractName]
+    if (!entry) throw new Error(`${contractName} is not in the address book`)
+    checks.push(...(await checkEntry(contractName, entry)))
+  }
+  return checks
+}
+
+async function checkEntry(contractName: string, entry: AddressBookEntry): Promise<AddressBookCheck[]> {
+  if (entry.address === '') return [{ contractName, check: 'code', status: 'SKIPPED', detail: 'placeholder' }]
+  if (EXTERNALLY_OWNED_ACCOUNTS.includes(contractName)) {
+    return [{ contractName, check: 'code', status: 'SKIPPED', detail: 'externally owned account' }]
+  }
+  if ((await ethers.provider.getCode(entry.address)) === '0x') {
+    return [{ contractName, check: 'code', status: 'MISMATCH', detail: `no code at ${entry.address}` }]
+  }
+  const checks: AddressBookCheck[] = [{ contractName, check: 'code', status: 'OK' }]
+
+  let implementation: string | undefined
+  if (entry.implementation !== undefined) {
+    implementation = await readSlot(() => upgrades.erc1967.getImplementationAddress(entry.address))
+    checks.push(compare(contractName, 'implementation', entry.implementation, implementation))
+  }
+  if (entry.proxyAdmin !== undefined) {
+    const proxyAdmin = await readSlot(() => upgrades.erc1967.getAdminAddress(entry.address))
+    checks.push(compare(contractName, 'proxyAdmin', entry.proxyAdmin, proxyAdmin))
+  }
+  if (entry.operator !== undefined) {
+    const contract = new ethers.Contract(entry.address, OWNABLE_ABI, ethers.provider)
+    const owner: string | undefined = await contract.owner().catch(() => undefined)
+    checks.push(compare(contractName, 'operator', entry.operator, owner))
+  }
+
+  const implementationCode = implementation ? (await ethers.provider.getCode(implementation)).toLowerCase() : '0x'
+  for (const [library, address] of librariesOf(entry.libraries ?? {})) {
+    const check = { contractName, check: 'library' as const, expected: address, detail: library }
+    if ((await ethers.provider.getCode(address)) === '0x') {
+      checks.push({ ...check, status: 'MISMATCH', detail: `${library} has no code` })
+    } else if (!implementationCode.includes(address.slice(2).toLowerCase())) {
+      checks.push({ ...check, status: 'MISMATCH', detail: `${library} is not linked to the implementation` })
+    } else {
+      checks.push({ ...check, status: 'OK' })
+    }
+  }
+  return checks
+}
+
+function compare(
+  contractName: string,
+  check: AddressBookCheck['check'],
+  expected: string,
+  actual: string | undefined,
+): AddressBookCheck {
+  const status = actual !== undefined && actual.toLowerCase() === expected.toLowerCase() ? 'OK' : 'MISMATCH'
+  return { contractName, check, status, expected, actual: actual ?? 'unreadable' }
+}
+
+// the slots are empty when the contract is not an ERC-1967 proxy
+async function readSlot(read: () => Promise<string>): Promise<string | undefined> {
+  return read().catch(() => undefined)
+}
+
+// libraries recorded as an array are named by their position
+function librariesOf<T>(libraries: Record<string, T> | T[]): [string, T][] {
+  return Array.isArray(libraries)
+    ? libraries.map((address, index) => [`library ${index}`, address])
+    : Object.entries(libraries)
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,181 @@
+import { ethers } from 'hardhat'
+import { quoteRental } from './fee-quote'
+import { isSftRentalOffer } from './rental-offer'
+import { CommitAndGrantRoleParams, GrantRoleParams, RentalOffer, SftRentalOffer } from './types'
+import { NftRentalMarketplace, OriumSftMarketplace } from '../typechain-types'
+
+export interface ApprovalTransaction {
+  description: string
+  contractName: 'IERC20' | 'IERC721' | 'IERC1155' | 'IERC7432' | 'IERC7589'
+  contractAddress: string
+  functionName: 'approve' | 'setApprovalForAll' | 'setRoleApprovalForAll'
+  args: (string | bigint | boolean)[]
+}
+
+/**
+ * @notice Lists the approvals the lender still needs before creating a rental offer
+ * @dev The token must be approved to the roles registry, which takes custody of it when the offer is accepted
+ * (NFT) or created (SFT), and the marketplace must be approved to grant roles on behalf of the lender
+ * @param marketplace The NftRentalMarketplace or OriumSftMarketplace contract
+ * @param offer The rental offer to be created
+ * @returns The approval transactions to send from the lender, in order
+ * @throws Error when the NFT does not exist
+ */
+export async function planCreateOfferApprovals(
+  marketplace: NftRentalMarketplace | OriumSftMarketplace,
+  offer: RentalOffer | SftRentalOffer,
+): Promise<ApprovalTransaction[]> {
+  return planGrantorApprovals(
+    marketplace,
+    offer.lender,
+    offer.tokenAddress,
+    offer.tokenId,
+    isSftRentalOffer(offer) ? BigInt(offer.commitmentId) : undefined,
+  )
+}
+
+/**
+ * @notice Lists the approvals the grantor still needs before granting roles directly, without a rental offer
+ * @dev Same approvals as planCreateOfferApprovals, listed once per token address
+ * @param marketplace The NftRentalMarketplace or OriumSftMarketplace contract
+ * @param params The roles to grant, NFT or SFT
+ * @param grantor The address that will grant the roles
+ * @returns The approval transactions to send from the grantor, in order
+ * @throws Error when an NFT does not exist
+ */
+export async function planBatchGrantRoleApprovals(
+  marketplace: NftRentalMarketplace | OriumSftMarketplace,
+  params: (GrantRoleParams | CommitAndGrantRoleParams)[],
+  grantor: string,
+): Promise<ApprovalTransaction[]> {
+  const plan = new Map<string, ApprovalTransaction>()
+  for (const param of params) {
+    const commitmentId = 'commitmentId' in param ? BigInt(param.commitmentId) : undefined
+    const approvals = await planGrantorApprovals(marketplace, grantor, param.tokenAddress, param.tokenId, commitmentId)
+    approvals.forEach(approval => plan.set(approval.description, approval))
+  }
+  return [...plan.values()]
+}
+
+/**
+ * @notice Lists the approvals the borrower still needs before accepting a rental offer
+ * @dev Only ERC-20 fees need an approval, native token fees are sent with the transaction
+ * @param marketplace The NftRentalMarketplace or OriumSftMarketplace contract
+ * @param offer The rental offer to be accepted
+ * @param duration The rental duration in seconds
+ * @param borrower The address that will accept the offer
+ * @returns The approval transactions to send from the borrower, in order
+ */
+export async function planAcceptOfferApprovals(
+  marketplace: NftRentalMarketplace | OriumSftMarketplace,
+  offer: RentalOffer | SftRentalOffer,
+  duration: number,
+  borrower: string,
+): Promise<ApprovalTransaction[]> {
+  const { allowance: requiredAllowance } = await quoteRental(marketplace, offer, duration)
+  if (requiredAllowance === BigInt(0)) return []
+
+  const marketplaceAddress = await marketplace.getAddress()
+  const feeToken = await ethers.getContractAt('IERC20', offer.feeTokenAddress)
+  if ((await feeToken.allowance(borrower, marketplaceAddress)) >= requiredAllowance) return []
+
+  return [
+    {
+      description: `Approve marketplace ${marketplaceAddress} to spend ${requiredAllowance} of ERC-20 ${offer.feeTokenAddress}`,
+      contractName: 'IERC20',
+      contractAddress: offer.feeTokenAddress,
+      functionName: 'approve',
+      args: [marketplaceAddress, requiredAllowance],
+    },
+  ]
+}
+
+/**
+ * @dev The commitmentId is only set for SFTs, tokens are transferred to the roles registry when it is 0
+ */
+async function planGrantorApprovals(
+  marketplace: NftRentalMarketplace | OriumSftMarketplace,
+  grantor: string,
+  tokenAddress: string,
+  tokenId: bigint,
+  commitmentId: bigint | undefined,
+): Promise<ApprovalTransaction[]> {
+  const plan: ApprovalTransaction[] = []
+  const marketplaceAddress = await marketplace.getAddress()
+  const marketplaceRoyalties = await ethers.getContractAt(
+    'OriumMarketplaceRoyalties',
+    await marketplace.oriumMarketplaceRoyalties(),
+  )
+
+  if (commitmentId !== undefined) {
+    const rolesRegistryAddress = await marketplaceRoyalties.sftRolesRegistryOf(tokenAddress)
+
+    // tokens are only transferred to the roles registry when no existing commitment is reused
+    if (commitmentId === BigInt(0)) {
+      const token = await ethers.getContractAt('IERC1155', tokenAddress)
+      if (!(await token.isApprovedForAll(grantor, rolesRegistryAddress))) {
+        plan.push({
+          description: `Approve roles registry ${rolesRegistryAddress} to transfer ERC-1155 ${tokenAddress}`,
+          contractName: 'IERC1155',
+          contractAddress: tokenAddress,
+          functionName: 'setApprovalForAll',
+          args: [rolesRegistryAddress, true],
+        })
+      }
+    }
+
+    const rolesRegistry = await ethers.getContractAt('IERC7589', rolesRegistryAddress)
+    if (!(await rolesRegistry.isRoleApprovedForAll(tokenAddress, grantor, marketplaceAddress))) {
+      plan.push(roleApproval('IERC7589', rolesRegistryAddress, tokenAddress, marketplaceAddress))
+    }
+
+    return plan
+  }
+
+  const rolesRegistryAddress = await marketplaceRoyalties.nftRolesRegistryOf(tokenAddress)
+  const token = await ethers.getContractAt('IERC721', tokenAddress)
+
+  // NFTs already deposited in the roles registry do not need to be approved again
+  let tokenOwner: string
+  try {
+    tokenOwner = await token.ownerOf(tokenId)
+  } catch {
+    throw new Error(`Token ${tokenId} of ${tokenAddress} does not exist`)
+  }
+  if (tokenOwner.toLowerCase() === grantor.toLowerCase()) {
+    const isApproved =
+      (await token.isApprovedForAll(grantor, rolesRegistryAddress)) ||
+      (await token.getApproved(tokenId)).toLowerCase() === rolesRegistryAddress.toLowerCase()
+    if (!isApproved) {
+      plan.push({
+        description: `Approve roles registry ${rolesRegistryAddress} to transfer ERC-721 ${tokenAddress}`,
+        contractName: 'IERC721',
+        contractAddress: tokenAddress,
+        functionName: 'setApprovalForAll',
+        args: [rolesRegistryAddress, true],
+      })
+    }
+  }
+
+  const rolesRegistry = await ethers.getContractAt('IERC7432', rolesRegistryAddress)
+  if (!(await rolesRegistry.isRoleApprovedForAll(tokenAddress, grantor, marketplaceAddress))) {
+    plan.push(roleApproval('IERC7432', rolesRegistryAddress, tokenAddress, marketplaceAddress))
+  }
+
+  return plan
+}
+
+function roleApproval(
+  contractName: 'IERC7432' | 'IERC7589',
+  rolesRegistryAddress: string,
+  tokenAddress: string,
+  marketplaceAddress: string,
+): ApprovalTransaction {
+  return {
+    description: `Approve marketplace ${marketplaceAddress} to manage roles of ${tokenAddress} in roles registry ${rolesRegistryAddress}`,
+    contractName,
+    contractAddress: rolesRegistryAddress,
+    functionName: 'setRoleApprovalForAll',
+    args: [tokenAddress, marketplaceAddress, true],
+  }
+}
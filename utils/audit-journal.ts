@@ -0,0 +1,107 @@
+import { appendFileSync, mkdirSync } from 'fs'
+import { dirname, resolve } from 'path'
+import { randomBytes } from 'crypto'
+
+export type ConfirmationMode = 'interactive' | 'non-interactive'
+export type ConfirmationAnswer = 'yes' | 'no' | 'auto' | 'refused'
+
+export interface ConfirmationEntry {
+  type: 'confirmation'
+  id: string
+  timestamp: string
+  network: string
+  mode: ConfirmationMode
+  query: string
+  arguments?: unknown
+  answer: ConfirmationAnswer
+}
+
+export interface TransactionEntry {
+  type: 'transaction'
+  // the confirmation that allowed the transaction
+  confirmationId: string
+  timestamp: string
+  network: string
+  transactionHash?: string
+  // deployed contract or Defender proposal, for results that are not a plain transaction
+  address?: string
+  proposalUrl?: string
+  description?: string
+}
+
+export type JournalEntry = ConfirmationEntry | TransactionEntry
+
+// confirmation the next transactions of this process are linked to
+let lastConfirmation: ConfirmationEntry | undefined
+
+/**
+ * @notice Gets the path of the audit journal
+ * @dev Set with the AUDIT_JOURNAL environment variable, audit-journal.jsonl in the working directory by default
+ * @returns The absolute path of the journal
+ */
+export function auditJournalPath() {
+  return resolve(process.env.AUDIT_JOURNAL ?? 'audit-journal.jsonl')
+}
+
+/**
+ * @notice Appends an entry to the audit journal
+ * @dev The journal is a JSON Lines file, entries are only ever appended. bigint values are written as decimal strings
+ * @param entry The entry to append
+ */
+export function appendJournalEntry(entry: JournalEntry) {
+  const path = auditJournalPath()
+  mkdirSync(dirname(path), { recursive: true })
+  appendFileSync(
+    path,
+    JSON.stringify(entry, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)) + '\n',
+  )
+}
+
+/**
+ * @notice Records a confirmation asked by confirmOrDie or yesOrNo
+ * @param network The network name
+ * @param mode Whether the operator answered or the confirmation was automatic
+ * @param query The confirmation question
+ * @param answer The answer, refused when the network is not allowed in non-interactive mode
+ * @param args The arguments of the confirmed action
+ * @returns The recorded entry
+ */
+export function recordConfirmation(
+  network: string,
+  mode: ConfirmationMode,
+  query: string,
+  answer: ConfirmationAnswer,
+  args?: unknown,
+): ConfirmationEntry {
+  const entry: ConfirmationEntry = {
+    type: 'confirmation',
+    id: randomBytes(8).toString('hex'),
+    timestamp: new Date().toISOString(),
+    network,
+    mode,
+    query,
+    arguments: args,
+    answer,
+  }
+  appendJournalEntry(entry)
+  if (answer === 'yes' || answer === 'auto') lastConfirmation = entry
+  return entry
+}
+
+/**
+ * @notice Records the result of the last accepted confirmation, such as a transaction hash
+ * @dev Does nothing when no confirmation was accepted in this process, e.g. in tests
+ * @param result The transaction hash, deployed address or proposal URL
+ */
+export function recordTransaction(
+  result: Pick<TransactionEntry, 'transactionHash' | 'address' | 'proposalUrl' | 'description'>,
+) {
+  if (!lastConfirmation) return
+  appendJournalEntry({
+    type: 'transaction',
+    confirmationId: lastConfirmation.id,
+    timestamp: new Date().toISOString(),
+    network: lastConfirmation.network,
+    ...result,
+  })
+}
@@ -0,0 +1,588 @@
+import { readFileSync, writeFileSync } from 'fs'
+import { ethers } from 'hardhat'
+import { MarketplaceClient, TransactionResult } from './marketplace-client'
+import { toMarketplaceError } from './errors'
+import type { ContractCall } from './safe-batch'
+import { toRoleId } from './roles'
+import { parseDuration } from './units'
+import { CommitAndGrantRoleParams, GrantRoleParams, RevokeRoleParams, SftRevokeRoleParams } from './types'
+
+const ERC1155_INTERFACE_ID = '0xd9b67a26'
+// intrinsic gas of a transaction, included once in the gas estimate of each batch
+const TRANSACTION_BASE_GAS = BigInt(21000)
+
+// normalized CSV headers, lowercase and without separators, mapped to the column names
+const COLUMN_ALIASES: Record<string, string> = {
+  tokenaddress: 'tokenAddress',
+  token: 'tokenAddress',
+  tokenid: 'tokenId',
+  amount: 'amount',
+  tokenamount: 'amount',
+  role: 'role',
+  rolename: 'role',
+  roleid: 'role',
+  grantee: 'grantee',
+  recipient: 'grantee',
+  expiration: 'expiration',
+  expirationdate: 'expiration',
+  revocable: 'revocable',
+  data: 'data',
+  commitmentid: 'commitmentId',
+  status: 'status',
+}
+
+const REPORT_COLUMNS = ['status', 'commitmentId', 'transactionHash', 'gasEstimate', 'error']
+
+export type BatchRowStatus = 'PENDING' | 'INVALID' | 'SKIPPED' | 'GRANTED' | 'REVOKED' | 'FAILED'
+
+export interface CsvRow {
+  // line of the row in the CSV file, the header being line 1
+  line: number
+  values: Record<string, string>
+}
+
+export interface BatchRow<T> extends CsvRow {
+  status: BatchRowStatus
+  params?: T
+  gasEstimate?: bigint
+  // commitment assigned to SFT grants, to revoke them later
+  commitmentId?: bigint
+  transactionHash?: string
+  error?: string
+}
+
+export type GrantRoleRow = BatchRow<GrantRoleParams | CommitAndGrantRoleParams>
+export type RevokeRoleRow = BatchRow<RevokeRoleParams | SftRevokeRoleParams>
+
+/**
+ * @notice Reads the rows of a CSV file with a header line
+ * @dev Headers are matched case-insensitively and without separators, so "Token Address" and "token_address" are the
+ * same column. Empty lines are skipped
+ * @param file The CSV file
+ * @returns The rows, with their values by column name
+ */
+export function readCsvRows(file: string): CsvRow[] {
+  const lines = readFileSync(file, 'utf8').split(/\r?\n/)
+  const headers = parseCsvLine(lines[0] ?? '').map(header => {
+    const normalized = header.toLowerCase().replace(/[^a-z0-9]/g, '')
+    return COLUMN_ALIASES[normalized] ?? header
+  })
+
+  const rows: CsvRow[] = []
+  lines.slice(1).forEach((line, index) => {
+    if (line.trim() === '') return
+    const cells = parseCsvLine(line)
+    const values: Record<string, string> = {}
+    headers.forEach((header, column) => (values[header] = cells[column] ?? ''))
+    rows.push({ line: index + 2, values })
+  })
+  return rows
+}
+
+/**
+ * @notice Validates the rows of a grant CSV and converts them into batchGrantRole or batchCommitTokensAndGrantRole params
+ * @dev Tokens supporting ERC-1155 are granted on OriumSftMarketplace, committing `amount` new tokens unless a
+ * commitmentId column is set, and the other tokens on NftRentalMarketplace. Expirations accept unix timestamps,
+ * ISO dates and durations from now, such as "30d"
+ * @param rows The CSV rows, with tokenAddress, tokenId, amount, role, grantee, expiration and revocable columns
+ * @param grantor The address that will grant the roles
+ * @returns The rows, PENDING when valid and INVALID with the error otherwise
+ */
+export async function parseGrantRoleRows(rows: CsvRow[], grantor: string): Promise<GrantRoleRow[]> {
+  const now = (await ethers.provider.getBlock('latest'))!.timestamp
+  const sftTokens = new Map<string, Promise<boolean>>()
+  const isSft = (tokenAddress: string) => {
+    const key = tokenAddress.toLowerCase()
+    if (!sftTokens.has(key)) sftTokens.set(key, supportsErc1155(tokenAddress))
+    return sftTokens.get(key)!
+  }
+
+  const parsed: GrantRoleRow[] = []
+  for (const row of rows) {
+    try {
+      parsed.push({ ...row, status: 'PENDING', params: await parseGrantRoleRow(row.values, now, isSft) })
+    } catch (error) {
+      parsed.push({ ...row, status: 'INVALID', error: (error as Error).message })
+    }
+  }
+
+  await checkGrantRoleRows(parsed, grantor)
+  return parsed
+}
+
+/**
+ * @notice Validates the rows of a revoke CSV and converts them into batchRevokeRole params
+ * @dev Rows with a commitmentId are revoked on OriumSftMarketplace, the other rows on NftRentalMarketplace. The report
+ * of a grant can be used as it is, its rows that were not GRANTED are skipped
+ * @param rows The CSV rows, with tokenAddress, role and either tokenId (NFT) or commitmentId and grantee (SFT) columns
+ * @returns The rows, PENDING when valid and INVALID or SKIPPED otherwise
+ */
+export function parseRevokeRoleRows(rows: CsvRow[]): RevokeRoleRow[] {
+  const seen = new Set<string>()
+  return rows.map(row => {
+    if (row.values.status && row.values.status !== 'GRANTED') {
+      return { ...row, status: 'SKIPPED', error: `Row was not granted: ${row.values.status}` }
+    }
+
+    try {
+      const params = parseRevokeRoleRow(row.values)
+      const key = (
+        'commitmentId' in params
+          ? `${params.commitmentId}-${params.role}-${params.grantee}`
+          : `${params.tokenAddress}-${params.tokenId}-${params.roleId}`
+      ).toLowerCase()
+      if (seen.has(key)) throw new Error('Duplicate of a previous row')
+      seen.add(key)
+      return { ...row, status: 'PENDING', params }
+    } catch (error) {
+      return { ...row, status: 'INVALID', error: (error as Error).message }
+    }
+  })
+}
+
+/**
+ * @notice Estimates the gas of granting each pending row on its own
+ * @dev A row that would revert is marked INVALID with the decoded revert reason, such as a missing approval or a
+ * token not owned by the grantor
+ * @param client The marketplace client of the grantor
+ * @param rows The parsed rows
+ */
+export async function estimateGrantRoleRows(client: MarketplaceClient, rows: GrantRoleRow[]) {
+  await estimateRows(rows, params => estimateBatchGrantRole(client, params))
+}
+
+/**
+ * @notice Estimates the gas of revoking each pending row on its own
+ * @dev A row that would revert is marked INVALID with the decoded revert reason
+ * @param client The marketplace client of the owner or grantor
+ * @param rows The parsed rows
+ */
+export async function estimateRevokeRoleRows(client: MarketplaceClient, rows: RevokeRoleRow[]) {
+  await estimateRows(rows, params => estimateBatchRevokeRole(client, params))
+}
+
+/**
+ * @notice Splits the estimated rows into batches that fit a gas budget, one marketplace per batch
+ * @dev The gas of a batch is approximated by the sum of the estimates of its rows, counting the intrinsic gas once.
+ * Rows that do not fit the budget on their own are marked INVALID
+ * @param rows The estimated rows
+ * @param gasBudget The maximum gas of each transaction
+ * @returns The batches of rows, in CSV order
+ */
+export function chunkRows<T extends object>(rows: BatchRow<T>[], gasBudget: bigint): BatchRow<T>[][] {
+  const chunks: BatchRow<T>[][] = []
+  for (const isSft of [false, true]) {
+    let chunk: BatchRow<T>[] = []
+    let chunkGas = TRANSACTION_BASE_GAS
+    for (const row of rows) {
+      if (row.status !== 'PENDING' || 'commitmentId' in row.params! !== isSft) continue
+      if (row.gasEstimate! > gasBudget) {
+        row.status = 'INVALID'
+        row.error = `Gas estimate ${row.gasEstimate} is above the gas budget of ${gasBudget}`
+        continue
+      }
+
+      const rowGas = row.gasEstimate! - TRANSACTION_BASE_GAS
+      if (chunk.length > 0 && chunkGas + rowGas > gasBudget) {
+        chunks.push(chunk)
+        chunk = []
+        chunkGas = TRANSACTION_BASE_GAS
+      }
+      chunk.push(row)
+      chunkGas += rowGas
+    }
+    if (chunk.length > 0) chunks.push(chunk)
+  }
+  return chunks
+}
+
+/**
+ * @notice Sends a batchGrantRole or batchCommitTokensAndGrantRole transaction for each batch
+ * @dev Batches whose actual gas estimate is above the budget are split in half. Rows are marked GRANTED, with the
+ * commitmentId assigned to SFT grants, or FAILED with the error, and the next batches are still sent
+ * @param client The marketplace client of the grantor
+ * @param chunks The batches returned by chunkRows
+ * @param gasBudget The maximum gas of each transaction
+ */
+export async function grantRoleChunks(client: MarketplaceClient, chunks: GrantRoleRow[][], gasBudget: bigint) {
+  await sendChunks(
+    chunks,
+    gasBudget,
+    params => estimateBatchGrantRole(client, params),
+    params => client.batchGrantRole(params as GrantRoleParams[] | CommitAndGrantRoleParams[]),
+    (chunk, { receipt, events }) => {
+      // the roles registry emits one RoleGranted per row, in order
+      const roleGrantedEvents = events.filter(event => event.name === 'RoleGranted')
+      chunk.forEach((row, index) => {
+        row.status = 'GRANTED'
+        row.transactionHash = receipt.hash
+        if ('commitmentId' in row.params!) row.commitmentId = BigInt(roleGrantedEvents[index].args[0])
+      })
+    },
+  )
+}
+
+/**
+ * @notice Sends a batchRevokeRole transaction for each batch
+ * @dev Batches whose actual gas estimate is above the budget are split in half. Rows are marked REVOKED, or FAILED
+ * with the error, and the next batches are still sent
+ * @param client The marketplace client of the owner or grantor
+ * @param chunks The batches returned by chunkRows
+ * @param gasBudget The maximum gas of each transaction
+ */
+export async function revokeRoleChunks(client: MarketplaceClient, chunks: RevokeRoleRow[][], gasBudget: bigint) {
+  await sendChunks(
+    chunks,
+    gasBudget,
+    params => estimateBatchRevokeRole(client, params),
+    params => client.batchRevokeRole(params as RevokeRoleParams[] | SftRevokeRoleParams[]),
+    (chunk, { receipt }) => {
+      chunk.forEach(row => {
+        row.status = 'REVOKED'
+        row.transactionHash = receipt.hash
+      })
+    },
+  )
+}
+
+/**
+ * @notice Lists the batchGrantRole or batchCommitTokensAndGrantRole call of each batch
+ * @dev Used to simulate or export the batches, which MarketplaceClient only sends
+ * @param client The marketplace client of the grantor
+ * @param chunks The batches returned by chunkRows
+ * @returns The calls, in batch order
+ */
+export async function grantRoleCalls(client: MarketplaceClient, chunks: GrantRoleRow[][]): Promise<ContractCall[]> {
+  return Promise.all(
+    chunks.map(chunk =>
+      grantRoleCallOf(
+        client,
+        chunk.map(row => row.params!),
+      ),
+    ),
+  )
+}
+
+/**
+ * @notice Lists the batchRevokeRole call of each batch
+ * @dev Used to simulate or export the batches, which MarketplaceClient only sends
+ * @param client The marketplace client of the owner or grantor
+ * @param chunks The batches returned by chunkRows
+ * @returns The calls, in batch order
+ */
+export async function revokeRoleCalls(client: MarketplaceClient, chunks: RevokeRoleRow[][]): Promise<ContractCall[]> {
+  return Promise.all(
+    chunks.map(chunk =>
+      revokeRoleCallOf(
+        client,
+        chunk.map(row => row.params!),
+      ),
+    ),
+  )
+}
+
+/**
+ * @notice Writes the result of each row to a CSV file
+ * @dev The report keeps the columns of the input, followed by status, commitmentId, transactionHash, gasEstimate and
+ * error, so the report of a grant can be used to revoke the same roles
+ * @param file The CSV file to write
+ * @param rows The rows, in CSV order
+ */
+export function writeReport<T>(file: string, rows: BatchRow<T>[]) {
+  const inputColumns = [...new Set(rows.flatMap(row => Object.keys(row.values)))].filter(
+    column => !REPORT_COLUMNS.includes(column),
+  )
+  const columns = [...inputColumns, ...REPORT_COLUMNS]
+
+  const lines = rows.map(row => {
+    const values: Record<string, string> = {
+      ...row.values,
+      status: row.status,
+      commitmentId: row.commitmentId?.toString() ?? row.values.commitmentId ?? '',
+      transactionHash: row.transactionHash ?? '',
+      gasEstimate: row.gasEstimate?.toString() ?? '',
+      error: row.error ?? '',
+    }
+    return columns.map(column => toCsvCell(values[column] ?? '')).join(',')
+  })
+  writeFileSync(file, [columns.join(','), ...lines].join('\n') + '\n')
+}
+
+async function parseGrantRoleRow(
+  values: Record<string, string>,
+  now: number,
+  isSft: (tokenAddress: string) => Promise<boolean>,
+): Promise<GrantRoleParams | CommitAndGrantRoleParams> {
+  const tokenAddress = parseAddress(values.tokenAddress, 'tokenAddress')
+  const tokenId = parseUint(values.tokenId, 'tokenId')
+  const roleId = parseRole(values.role)
+  const grantee = parseAddress(values.grantee, 'grantee')
+  const expirationDate = parseExpiration(values.expiration, now)
+  const revocable = parseBoolean(values.revocable, 'revocable')
+  const data = values.data || '0x'
+  if (!ethers.isHexString(data)) throw new Error(`Invalid data: ${data}`)
+
+  if ((await ethers.provider.getCode(tokenAddress)) === '0x') {
+    throw new Error(`Token ${tokenAddress} is not a contract`)
+  }
+
+  if (await isSft(tokenAddress)) {
+    const tokenAmount = parseUint(values.amount, 'amount')
+    if (tokenAmount === BigInt(0)) throw new Error('amount must be greater than 0')
+    const commitmentId = values.commitmentId ? parseUint(values.commitmentId, 'commitmentId') : BigInt(0)
+    return { commitmentId, tokenAddress, tokenId, tokenAmount, role: roleId, grantee, expirationDate, revocable, data }
+  }
+
+  if (values.amount && values.amount !== '1') throw new Error(`amount of an NFT must be 1, got ${values.amount}`)
+  try {
+    await (await ethers.getContractAt('IERC721', tokenAddress)).ownerOf(tokenId)
+  } catch {
+    throw new Error(`Token ${tokenId} of ${tokenAddress} does not exist`)
+  }
+  return { roleId, tokenAddress, tokenId, recipient: grantee, expirationDate, revocable, data }
+}
+
+/**
+ * @dev Checks rows against each other: the same NFT role cannot be granted twice, and new SFT commitments cannot
+ * lock more tokens than the grantor holds
+ */
+async function checkGrantRoleRows(rows: GrantRoleRow[], grantor: string) {
+  const grantedRoles = new Set<string>()
+  const remainingBalances = new Map<string, bigint>()
+
+  for (const row of rows) {
+    if (row.status !== 'PENDING') continue
+    const params = row.params!
+
+    if (!('commitmentId' in params)) {
+      const key = `${params.tokenAddress}-${params.tokenId}-${params.roleId}`.toLowerCase()
+      if (grantedRoles.has(key)) {
+        row.status = 'INVALID'
+        row.error = 'Duplicate of a previous row'
+      }
+      grantedRoles.add(key)
+      continue
+    }
+
+    if (params.commitmentId !== BigInt(0)) continue
+    const key = `${params.tokenAddress}-${params.tokenId}`.toLowerCase()
+    if (!remainingBalances.has(key)) {
+      const token = await ethers.getContractAt('IERC1155', params.tokenAddress)
+      remainingBalances.set(key, await token.balanceOf(grantor, params.tokenId))
+    }
+
+    const remainingBalance = remainingBalances.get(key)!
+    if (params.tokenAmount > remainingBalance) {
+      row.status = 'INVALID'
+      row.error = `Grantor balance left for the previous rows is ${remainingBalance}, below amount ${params.tokenAmount}`
+      continue
+    }
+    remainingBalances.set(key, remainingBalance - params.tokenAmount)
+  }
+}
+
+function parseRevokeRoleRow(values: Record<string, string>): RevokeRoleParams | SftRevokeRoleParams {
+  const tokenAddress = parseAddress(values.tokenAddress, 'tokenAddress')
+  const roleId = parseRole(values.role)
+
+  if (values.commitmentId) {
+    const commitmentId = parseUint(values.commitmentId, 'commitmentId')
+    return { commitmentId, role: roleId, grantee: parseAddress(values.grantee, 'grantee'), tokenAddress }
+  }
+  return { tokenAddress, tokenId: parseUint(values.tokenId, 'tokenId'), roleId }
+}
+
+async function estimateRows<T>(rows: BatchRow<T>[], estimateGas: (params: T[]) => Promise<bigint>) {
+  for (const row of rows) {
+    if (row.status !== 'PENDING') continue
+    try {
+      row.gasEstimate = await estimateGas([row.params!])
+    } catch (error) {
+      row.status = 'INVALID'
+      row.error = errorMessage(error)
+    }
+  }
+}
+
+async function sendChunks<T>(
+  chunks: BatchRow<T>[][],
+  gasBudget: bigint,
+  estimateGas: (params: T[]) => Promise<bigint>,
+  send: (params: T[]) => Promise<TransactionResult>,
+  onSent: (chunk: BatchRow<T>[], result: TransactionResult) => void,
+) {
+  const queue = [...chunks]
+  while (queue.length > 0) {
+    const chunk = queue.shift()!
+    const params = chunk.map(row => row.params!)
+    try {
+      if (chunk.length > 1 && (await estimateGas(params)) > gasBudget) {
+        const middle = Math.ceil(chunk.length / 2)
+        queue.unshift(chunk.slice(0, middle), chunk.slice(middle))
+        continue
+      }
+      onSent(chunk, await send(params))
+    } catch (error) {
+      chunk.forEach(row => {
+        row.status = 'FAILED'
+        row.error = errorMessage(error)
+      })
+    }
+  }
+}
+
+async function estimateBatchGrantRole(
+  client: MarketplaceClient,
+  params: (GrantRoleParams | CommitAndGrantRoleParams)[],
+) {
+  return estimateCall(client, await grantRoleCallOf(client, params))
+}
+
+async function estimateBatchRevokeRole(client: MarketplaceClient, params: (RevokeRoleParams | SftRevokeRoleParams)[]) {
+  return estimateCall(client, await revokeRoleCallOf(client, params))
+}
+
+async function estimateCall(client: MarketplaceClient, { contractName, functionName, args }: ContractCall) {
+  const marketplace = contractName === 'OriumSftMarketplace' ? client.oriumSftMarketplace : client.nftRentalMarketplace
+  return marketplace.getFunction(functionName).estimateGas(...args)
+}
+
+async function grantRoleCallOf(
+  client: MarketplaceClient,
+  params: (GrantRoleParams | CommitAndGrantRoleParams)[],
+): Promise<ContractCall> {
+  if (params.length > 0 && 'commitmentId' in params[0]) {
+    return {
+      contractName: 'OriumSftMarketplace',
+      contractAddress: await client.oriumSftMarketplace.getAddress(),
+      functionName: 'batchCommitTokensAndGrantRole',
+      args: [params],
+    }
+  }
+  return {
+    contractName: 'NftRentalMarketplace',
+    contractAddress: await client.nftRentalMarketplace.getAddress(),
+    functionName: 'batchGrantRole',
+    args: [params],
+  }
+}
+
+async function revokeRoleCallOf(
+  client: MarketplaceClient,
+  params: (RevokeRoleParams | SftRevokeRoleParams)[],
+): Promise<ContractCall> {
+  if (params.length > 0 && 'commitmentId' in params[0]) {
+    const sftParams = params as SftRevokeRoleParams[]
+    return {
+      contractName: 'OriumSftMarketplace',
+      contractAddress: await client.oriumSftMarketplace.getAddress(),
+      functionName: 'batchRevokeRole',
+      args: [
+        sftParams.map(param => param.commitmentId),
+        sftParams.map(param => param.role),
+        sftParams.map(param => param.grantee),
+        sftParams.map(param => param.tokenAddress),
+      ],
+    }
+  }
+
+  const nftParams = params as RevokeRoleParams[]
+  return {
+    contractName: 'NftRentalMarketplace',
+    contractAddress: await client.nftRentalMarketplace.getAddress(),
+    functionName: 'batchRevokeRole',
+    args: [
+      nftParams.map(param => param.tokenAddress),
+      nftParams.map(param => param.tokenId),
+      nftParams.map(param => param.roleId),
+    ],
+  }
+}
+
+async function supportsErc1155(tokenAddress: string): Promise<boolean> {
+  try {
+    return await (await ethers.getContractAt('IERC165', tokenAddress)).supportsInterface(ERC1155_INTERFACE_ID)
+  } catch {
+    // tokens without ERC-165 are treated as NFTs
+    return false
+  }
+}
+
+function parseAddress(value: string | undefined, column: string): string {
+  if (!value || !ethers.isAddress(value)) throw new Error(`Invalid ${column}: ${value ?? ''}`)
+  const address = ethers.getAddress(value.toLowerCase())
+  if (address === ethers.ZeroAddress) throw new Error(`${column} cannot be the zero address`)
+  return address
+}
+
+function parseUint(value: string | undefined, column: string): bigint {
+  if (!value || !/^\d+$/.test(value)) throw new Error(`Invalid ${column}: ${value ?? ''}`)
+  return BigInt(value)
+}
+
+function parseRole(value: string | undefined): string {
+  if (!value) throw new Error('Missing role')
+  return toRoleId(value)
+}
+
+function parseBoolean(value: string | undefined, column: string): boolean {
+  const normalized = value?.toLowerCase()
+  if (normalized === 'true' || normalized === 'yes' || normalized === '1') return true
+  if (normalized === 'false' || normalized === 'no' || normalized === '0') return false
+  throw new Error(`Invalid ${column}, expected true or false: ${value ?? ''}`)
+}
+
+/**
+ * @dev Digits are a unix timestamp, values starting with a date are ISO dates and anything else is a duration from now
+ */
+function parseExpiration(value: string | undefined, now: number): number {
+  if (!value) throw new Error('Missing expiration')
+
+  let expirationDate: number
+  if (/^\d+$/.test(value)) {
+    expirationDate = Number(value)
+  } else if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const time = Date.parse(value)
+    if (Number.isNaN(time)) throw new Error(`Invalid expiration date: ${value}`)
+    expirationDate = Math.floor(time / 1000)
+  } else {
+    expirationDate = now + parseDuration(value)
+  }
+
+  if (expirationDate <= now) throw new Error(`Expiration ${value} is not in the future`)
+  return expirationDate
+}
+
+function errorMessage(error: unknown): string {
+  const marketplaceError = toMarketplaceError(error)
+  return marketplaceError ? `${marketplaceError.code}: ${marketplaceError.reason}` : (error as Error).message
+}
+
+/**
+ * @dev Splits a CSV line on commas outside double quotes, "" being an escaped quote
+ */
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted && char === '"' && line[i + 1] === '"') {
+      cell += '"'
+      i++
+    } else if (char === '"') {
+      quoted = !quoted
+    } else if (char === ',' && !quoted) {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+function toCsvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
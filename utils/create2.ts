@@ -0,0 +1,261 @@
+import hre, { ethers, network, upgrades } from 'hardhat'
+import { Contract, ContractFactory, Signer } from 'ethers'
+import { getTransparentUpgradeableProxyFactory } from '@openzeppelin/hardhat-upgrades/dist/utils'
+import { print, confirmOrDie, colors } from './misc'
+import { recordDeployment } from './deployment-history'
+import { getSigner, useCustomFeeData } from './signer'
+import { recordTransaction } from './audit-journal'
+
+const NETWORK = network.name
+
+// ImmutableCreate2Factory interface: the first 20 bytes of a salt must be the caller or zero, which binds it to its owner
+const CREATE2_FACTORY_ABI = [
+  'function safeCreate2(bytes32 salt, bytes initializationCode) payable returns (address deploymentAddress)',
+  'function findCreate2Address(bytes32 salt, bytes initCode) view returns (address deploymentAddress)',
+  'function hasBeenDeployed(address deploymentAddress) view returns (bool)',
+]
+
+export interface Create2Deployment {
+  description: string
+  // the label the salt is derived from
+  label: string
+  salt: string
+  initCode: string
+  address: string
+}
+
+export interface Create2UpgradeableDeployment {
+  libraries: Record<string, Create2Deployment>
+  implementation: Create2Deployment
+  proxy: Create2Deployment
+}
+
+/**
+ * @notice Derives a salt bound to its owner
+ * @dev The salt starts with the owner address, so only the owner can deploy with it, and ends with the first 12 bytes
+ * of the label hash
+ * @param owner The account that sends the deployment to the factory
+ * @param label A label unique to the deployed contract, such as "v1/LibNftRentalMarketplace"
+ * @returns The salt
+ */
+export function create2Salt(owner: string, label: string): string {
+  return ethers.concat([ethers.getAddress(owner), ethers.dataSlice(ethers.id(label), 0, 12)])
+}
+
+/**
+ * @notice Predicts a CREATE2 deployment through the factory
+ * @param factoryAddress The ImmutableOwnerCreate2Factory address
+ * @param owner The account that sends the deployment to the factory
+ * @param label A label unique to the deployed contract
+ * @param initCode The creation code, with its constructor arguments
+ * @param description A description of the deployment
+ * @returns The salt and the address of the deployment
+ */
+export function predictCreate2Deployment(
+  factoryAddress: string,
+  owner: string,
+  label: string,
+  initCode: string,
+  description = label,
+): Create2Deployment {
+  const salt = create2Salt(owner, label)
+  const address = ethers.getCreate2Address(factoryAddress, salt, ethers.keccak256(initCode))
+  return { description, label, salt, initCode, address }
+}
+
+/**
+ * @notice Predicts the libraries, implementation and proxy of an upgradeable contract deployed through the factory
+ * @dev The implementation is linked to the predicted libraries, and the proxy is a TransparentUpgradeableProxy whose
+ * proxy admin is owned by the operator. The addresses only depend on the owner, the salt label, the bytecode and the
+ * initializer arguments, so they are the same on every network with the factory at the same address
+ * @param factoryAddress The ImmutableOwnerCreate2Factory address
+ * @param owner The account that sends the deployments to the factory
+ * @param saltLabel The label of the salts, such as "v1"
+ * @param PROXY_CONTRACT_NAME The name of the contract
+ * @param OPERATOR_ADDRESS The address of the operator
+ * @param INITIALIZER_ARGUMENTS The arguments to pass to the function
+ * @param LIBRARIES_CONTRACT_NAME The name of the libraries
+ * @returns The predicted deployments
+ */
+export async function predictCreate2UpgradeableDeployment(
+  factoryAddress: string,
+  owner: string,
+  saltLabel: string,
+  PROXY_CONTRACT_NAME: string,
+  OPERATOR_ADDRESS: string,
+  INITIALIZER_ARGUMENTS: unknown[],
+  LIBRARIES_CONTRACT_NAME: string[] = [],
+): Promise<Create2UpgradeableDeployment> {
+  const libraries: Record<string, Create2Deployment> = {}
+  for (const LIBRARY_CONTRACT_NAME of LIBRARIES_CONTRACT_NAME) {
+    const LibraryFactory = await ethers.getContractFactory(LIBRARY_CONTRACT_NAME)
+    libraries[LIBRARY_CONTRACT_NAME] = predictCreate2Deployment(
+      factoryAddress,
+      owner,
+      `${saltLabel}/${LIBRARY_CONTRACT_NAME}`,
+      await initCodeOf(LibraryFactory),
+      `${LIBRARY_CONTRACT_NAME} library`,
+    )
+  }
+
+  const ContractFactory = await ethers.getContractFactory(PROXY_CONTRACT_NAME, {
+    libraries: libraryAddressesOf(libraries),
+  })
+  const implementation = predictCreate2Deployment(
+    factoryAddress,
+    owner,
+    `${saltLabel}/${PROXY_CONTRACT_NAME}/implementation`,
+    await initCodeOf(ContractFactory),
+    `${PROXY_CONTRACT_NAME} implementation`,
+  )
+
+  const ProxyFactory = await getTransparentUpgradeableProxyFactory(hre)
+  const initializerData = ContractFactory.interface.encodeFunctionData('initialize', INITIALIZER_ARGUMENTS)
+  const proxy = predictCreate2Deployment(
+    factoryAddress,
+    owner,
+    `${saltLabel}/${PROXY_CONTRACT_NAME}/proxy`,
+    await initCodeOf(ProxyFactory, implementation.address, OPERATOR_ADDRESS, initializerData),
+    `${PROXY_CONTRACT_NAME} proxy`,
+  )
+
+  return { libraries, implementation, proxy }
+}
+
+/**
+ * @notice Deploys a contract through the factory, unless it is already deployed
+ * @param factory The ImmutableOwnerCreate2Factory, connected to the owner of the salt
+ * @param deployment The deployment predicted by predictCreate2Deployment
+ * @returns The hash of the deployment transaction, or undefined when the contract was already deployed
+ * @throws Error when the factory deploys to another address than the predicted one
+ */
+export async function deployWithCreate2(factory: Contract, deployment: Create2Deployment): Promise<string | undefined> {
+  if ((await ethers.provider.getCode(deployment.address)) !== '0x') {
+    print(colors.warn, `${deployment.description} already deployed at ${deployment.address}`)
+    return undefined
+  }
+
+  const address = await factory.findCreate2Address(deployment.salt, deployment.initCode)
+  if (address !== deployment.address) {
+    throw new Error(`The factory deploys ${deployment.description} to ${address}, not to ${deployment.address}`)
+  }
+  print(colors.highlight, `Deploying ${deployment.description}...`)
+  const transaction = await factory.safeCreate2(deployment.salt, deployment.initCode)
+  await transaction.wait()
+  recordTransaction({ transactionHash: transaction.hash, address, description: `Deploy ${deployment.description}` })
+  print(colors.success, `${deployment.description} deployed to: ${address}`)
+  return transaction.hash
+}
+
+/**
+ * @notice Gets the ImmutableOwnerCreate2Factory contract
+ * @param factoryAddress The factory address
+ * @param signer The owner of the salts
+ * @returns The factory contract
+ */
+export function getCreate2Factory(factoryAddress: string, signer?: Signer): Contract {
+  return new ethers.Contract(factoryAddress, CREATE2_FACTORY_ABI, signer ?? ethers.provider)
+}
+
+/**
+ * @notice Deploy an upgradeable contract at the same address on every network, through ImmutableOwnerCreate2Factory
+ * @dev The libraries, implementation and proxy already deployed are skipped. The proxy is registered in the
+ * OpenZeppelin manifest, so it can be upgraded with upgradeProxy
+ * @param FACTORY_ADDRESS The ImmutableOwnerCreate2Factory address
+ * @param SALT_LABEL The label of the salts, such as "v1"
+ * @param PROXY_CONTRACT_NAME The name of the contract
+ * @param OPERATOR_ADDRESS The address of the operator
+ * @param INITIALIZER_ARGUMENTS The arguments to pass to the function
+ * @param LIBRARIES_CONTRACT_NAME The name of the libraries
+ * @param CUSTOM_FEE_DATA The custom fee data
+ */
+export async function deployCreate2UpgradeableContract(
+  FACTORY_ADDRESS: string,
+  SALT_LABEL: string,
+  PROXY_CONTRACT_NAME: string,
+  OPERATOR_ADDRESS: string,
+  INITIALIZER_ARGUMENTS: string[],
+  LIBRARIES_CONTRACT_NAME?: string[],
+  CUSTOM_FEE_DATA?: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+) {
+  useCustomFeeData(CUSTOM_FEE_DATA)
+  const deployer = await getSigner()
+  const deployerAddress = await deployer.getAddress()
+  const deployment = await predictCreate2UpgradeableDeployment(
+    FACTORY_ADDRESS,
+    deployerAddress,
+    SALT_LABEL,
+    PROXY_CONTRACT_NAME,
+    OPERATOR_ADDRESS,
+    INITIALIZER_ARGUMENTS,
+    LIBRARIES_CONTRACT_NAME,
+  )
+  const ContractFactory = await ethers.getContractFactory(PROXY_CONTRACT_NAME, {
+    libraries: libraryAddressesOf(deployment.libraries),
+  })
+  await upgrades.validateImplementation(ContractFactory, { unsafeAllowLinkedLibraries: true })
+
+  await confirmOrDie(
+    `Deploying ${PROXY_CONTRACT_NAME} contract to ${deployment.proxy.address} on: ${NETWORK} network with ${deployerAddress}. Continue?`,
+    {
+      contract: PROXY_CONTRACT_NAME,
+      factory: FACTORY_ADDRESS,
+      salt: SALT_LABEL,
+      operator: OPERATOR_ADDRESS,
+      initializer: INITIALIZER_ARGUMENTS,
+      libraries: LIBRARIES_CONTRACT_NAME,
+    },
+  )
+
+  const factory = getCreate2Factory(FACTORY_ADDRESS, deployer)
+  const transactionHashes: string[] = []
+  for (const contract of [...Object.values(deployment.libraries), deployment.implementation, deployment.proxy]) {
+    const transactionHash = await deployWithCreate2(factory, contract)
+    if (transactionHash) transactionHashes.push(transactionHash)
+  }
+
+  const proxyAddress = deployment.proxy.address
+  await upgrades.forceImport(proxyAddress, ContractFactory, { kind: 'transparent' })
+
+  print(colors.highlight, 'Updating config files...')
+  const deploymentInfo: any = {
+    [PROXY_CONTRACT_NAME]: {
+      address: proxyAddress,
+      operator: OPERATOR_ADDRESS,
+      implementation: await upgrades.erc1967.getImplementationAddress(proxyAddress),
+      proxyAdmin: await upgrades.erc1967.getAdminAddress(proxyAddress),
+    },
+  }
+
+  if (LIBRARIES_CONTRACT_NAME) {
+    deploymentInfo[PROXY_CONTRACT_NAME].libraries = libraryAddressesOf(deployment.libraries)
+  }
+
+  console.log(deploymentInfo)
+  await recordDeployment(NETWORK, {
+    action: 'DEPLOY',
+    contractName: PROXY_CONTRACT_NAME,
+    entry: deploymentInfo[PROXY_CONTRACT_NAME],
+    transactionHashes,
+    deployer: deployerAddress,
+  })
+  print(colors.success, 'Config files updated!')
+
+  for (const { description, address } of [...Object.values(deployment.libraries), deployment.proxy]) {
+    try {
+      print(colors.highlight, `Verifying ${description} on block explorer...`)
+      await hre.run('verify:verify', { address, constructorArguments: [] })
+      print(colors.success, `${description} verified!`)
+    } catch (e) {
+      print(colors.error, `Error verifying ${description}: ${e}`)
+    }
+  }
+}
+
+function libraryAddressesOf(libraries: Record<string, Create2Deployment>): Record<string, string> {
+  return Object.fromEntries(Object.entries(libraries).map(([name, { address }]) => [name, address]))
+}
+
+async function initCodeOf(factory: ContractFactory, ...args: unknown[]): Promise<string> {
+  return (await factory.getDeployTransaction(...args)).data
+}
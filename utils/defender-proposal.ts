@@ -2,6 +2,7 @@ import { network as hardhatNetwork } from 'hardhat'
 import config, { Network } from '../addresses'
 import { print, colors, confirmOrDie } from '../utils/misc'
 import { AdminClient } from 'defender-admin-client'
+import { recordTransaction } from './audit-journal'
 
 const NETWORK: Network = hardhatNetwork.name as Network
 const DEFENDER_API_KEY = process.env.DEFENDER_TEAM_API_KEY
@@ -23,7 +24,11 @@ export async function createDefenderProposal(
 ) {
   console.log(FUNCTION_INPUTS_TYPE)
   console.log(FUNCTION_INPUTS)
-  await confirmOrDie(`Are you sure you want to create Defender Proposal to ${FUNCTION_NAME} on ${NETWORK} network?`)
+  await confirmOrDie(`Are you sure you want to create Defender Proposal to ${FUNCTION_NAME} on ${NETWORK} network?`, {
+    contract: CONTRACT_NAME,
+    function: FUNCTION_NAME,
+    arguments: FUNCTION_INPUTS,
+  })
 
   print(colors.highlight, `Create Defender Upgrade Proposal...`)
   if (!DEFENDER_API_KEY || !DEFENDER_API_SECRET) return print(colors.error, 'Missing Defender API Key or Secret')
@@ -51,4 +56,5 @@ export async function createDefenderProposal(
   })
 
   print(colors.bigSuccess, `Upgrade proposal created at: ${proposal.url}`)
+  recordTransaction({ proposalUrl: proposal.url, description: `Proposal to ${FUNCTION_NAME} on ${CONTRACT_NAME}` })
 }
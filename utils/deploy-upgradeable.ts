@@ -1,19 +1,32 @@
 import hre, { ethers, network, upgrades } from 'hardhat'
 import { print, confirmOrDie, colors } from './misc'
 import { Network } from '../addresses'
-import { updateJsonFile } from './json'
-import { kmsDeployer, kmsProvider } from './deployer'
+import { implementationTransactionHash, recordDeployment } from './deployment-history'
+import { getSigner, useCustomFeeData } from './signer'
+import { recordTransaction } from './audit-journal'
+import { ExportOptions, exportOptionsFromEnv, exportUnsignedTransactions } from './offline-transaction'
+import { getTransparentUpgradeableProxyFactory } from '@openzeppelin/hardhat-upgrades/dist/utils'
 
 const NETWORK = network.name as Network
+// the proxy constructor calls the initializer of an implementation that is not deployed yet, so its gas cannot be estimated
+const PROXY_DEPLOYMENT_GAS_LIMIT = BigInt(2_000_000)
+const PROXY_ADMIN_OWNABLE_ABI = [
+  'function owner() view returns (address)',
+  'function transferOwnership(address newOwner)',
+]
 
 /**
  * @notice Deploy an upgradeable contract
- * @dev The contract must existis in a solidity file in the contracts folder with the same name
+ * @dev The contract must existis in a solidity file in the contracts folder with the same name.
+ * When the EXPORT_UNSIGNED environment variable is set, the libraries, implementation and proxy deployments are
+ * exported as unsigned transactions to be signed offline by EXPORT_FROM, see exportDeployment
  * @param PROXY_CONTRACT_NAME The name of the contract
  * @param OPERATOR_ADDRESS The address of the operator
  * @param INITIALIZER_ARGUMENTS The arguments to pass to the function
  * @param LIBRARIES_CONTRACT_NAME The name of the libraries
  * @param CUSTOM_FEE_DATA The custom fee data
+ * @throws Error when the ownership of the proxy admin could not be transferred to the operator, after the deployment
+ * is recorded and verified
  */
 export async function deployUpgradeableContract(
   PROXY_CONTRACT_NAME: string,
@@ -22,25 +35,44 @@ export async function deployUpgradeableContract(
   LIBRARIES_CONTRACT_NAME?: string[],
   CUSTOM_FEE_DATA?: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
 ) {
-  if (CUSTOM_FEE_DATA !== undefined) {
-    const FEE_DATA: any = CUSTOM_FEE_DATA
-    kmsProvider.getFeeData = async () => FEE_DATA
+  useCustomFeeData(CUSTOM_FEE_DATA)
+  const exportOptions = await exportOptionsFromEnv(async () => (await getSigner()).getAddress())
+  if (exportOptions) {
+    return exportDeployment(
+      PROXY_CONTRACT_NAME,
+      OPERATOR_ADDRESS,
+      INITIALIZER_ARGUMENTS,
+      LIBRARIES_CONTRACT_NAME ?? [],
+      {
+        ...exportOptions,
+        CUSTOM_FEE_DATA,
+      },
+    )
   }
-  const deployerAddress = await kmsDeployer.getAddress()
+  const deployer = await getSigner()
+  const deployerAddress = await deployer.getAddress()
   const libraries: { [key: string]: string } = {}
+  const transactionHashes: string[] = []
 
   await confirmOrDie(
     `Deploying ${PROXY_CONTRACT_NAME} contract on: ${NETWORK} network with ${deployerAddress}. Continue?`,
+    {
+      contract: PROXY_CONTRACT_NAME,
+      operator: OPERATOR_ADDRESS,
+      initializer: INITIALIZER_ARGUMENTS,
+      libraries: LIBRARIES_CONTRACT_NAME,
+    },
   )
 
   if (LIBRARIES_CONTRACT_NAME !== undefined) {
     print(colors.highlight, 'Deploying libraries...')
 
     for (const LIBRARY_CONTRACT_NAME of LIBRARIES_CONTRACT_NAME) {
-      const LibraryFactory = await ethers.getContractFactory(LIBRARY_CONTRACT_NAME, kmsDeployer)
+      const LibraryFactory = await ethers.getContractFactory(LIBRARY_CONTRACT_NAME, deployer)
       const library = await LibraryFactory.deploy()
       await library.waitForDeployment()
       libraries[LIBRARY_CONTRACT_NAME] = await library.getAddress()
+      transactionHashes.push(library.deploymentTransaction()!.hash)
     }
 
     print(colors.success, 'Libraries deployed!')
@@ -50,13 +82,18 @@ export async function deployUpgradeableContract(
   console.log('INITIALIZER_ARGUMENTS', INITIALIZER_ARGUMENTS)
   const ContractFactory = await ethers.getContractFactory(PROXY_CONTRACT_NAME, {
     libraries,
-    signer: kmsDeployer,
+    signer: deployer,
   })
   const contract = await upgrades.deployProxy(ContractFactory, INITIALIZER_ARGUMENTS, {
     unsafeAllowLinkedLibraries: true,
   })
   await contract.waitForDeployment()
   print(colors.success, `${PROXY_CONTRACT_NAME} deployed to: ${contract.address}`)
+  recordTransaction({
+    transactionHash: contract.deploymentTransaction()?.hash,
+    address: await contract.getAddress(),
+    description: `Deploy ${PROXY_CONTRACT_NAME}`,
+  })
 
   print(colors.highlight, 'Updating config files...')
   const deploymentInfo: any = {
@@ -73,31 +110,38 @@ export async function deployUpgradeableContract(
   }
 
   console.log(deploymentInfo)
-  updateJsonFile(`addresses/${NETWORK}/index.json`, deploymentInfo)
+  const implementationHash = await implementationTransactionHash(deploymentInfo[PROXY_CONTRACT_NAME].implementation)
+  if (implementationHash) transactionHashes.push(implementationHash)
+  transactionHashes.push(contract.deploymentTransaction()!.hash)
+  await recordDeployment(NETWORK, {
+    action: 'DEPLOY',
+    contractName: PROXY_CONTRACT_NAME,
+    entry: deploymentInfo[PROXY_CONTRACT_NAME],
+    transactionHashes,
+    deployer: deployerAddress,
+  })
   print(colors.success, 'Config files updated!')
 
+  // a failed transfer leaves the proxy admin with the deployer, it is reported after the verifications
+  let proxyAdminTransferError: unknown
   try {
     print(colors.highlight, 'Transferring proxy admin ownership...')
-    const abi = [
-      {
-        inputs: [
-          {
-            internalType: 'address',
-            name: 'newOwner',
-            type: 'address',
-          },
-        ],
-        name: 'transferOwnership',
-        outputs: [],
-        stateMutability: 'nonpayable',
-        type: 'function',
-      },
-    ]
-    const proxyAdminContract = new ethers.Contract(deploymentInfo[PROXY_CONTRACT_NAME].proxyAdmin, abi, kmsDeployer)
-    await proxyAdminContract.transferOwnership(OPERATOR_ADDRESS)
+    const proxyAdminContract = new ethers.Contract(
+      deploymentInfo[PROXY_CONTRACT_NAME].proxyAdmin,
+      PROXY_ADMIN_OWNABLE_ABI,
+      deployer,
+    )
+    const transaction = await proxyAdminContract.transferOwnership(OPERATOR_ADDRESS)
+    recordTransaction({ transactionHash: transaction.hash, description: 'Transfer proxy admin ownership' })
+    await transaction.wait()
+    const proxyAdminOwner = await proxyAdminContract.owner()
+    if (proxyAdminOwner.toLowerCase() !== OPERATOR_ADDRESS.toLowerCase()) {
+      throw new Error(`the proxy admin is owned by ${proxyAdminOwner}`)
+    }
     print(colors.success, `Proxy admin ownership transferred to: ${OPERATOR_ADDRESS}`)
   } catch (e) {
     print(colors.error, `Error transferring proxy admin ownership: ${e}`)
+    proxyAdminTransferError = e
   }
 
   if (LIBRARIES_CONTRACT_NAME) {
@@ -116,10 +160,74 @@ export async function deployUpgradeableContract(
     }
   }
 
-  print(colors.highlight, 'Verifying contract on Etherscan...')
-  await hre.run('verify:verify', {
-    address: await contract.getAddress(),
-    constructorArguments: [],
+  try {
+    print(colors.highlight, 'Verifying contract on Etherscan...')
+    await hre.run('verify:verify', {
+      address: await contract.getAddress(),
+      constructorArguments: [],
+    })
+    print(colors.success, `${PROXY_CONTRACT_NAME} verified!`)
+  } catch (e) {
+    print(colors.error, `Error verifying ${PROXY_CONTRACT_NAME}: ${e}`)
+  }
+
+  if (proxyAdminTransferError) {
+    throw new Error(
+      `${PROXY_CONTRACT_NAME} is deployed, but the ownership of its proxy admin ` +
+        `${deploymentInfo[PROXY_CONTRACT_NAME].proxyAdmin} was not transferred to ${OPERATOR_ADDRESS}: ` +
+        `${proxyAdminTransferError}. Transfer it manually and check it with the privileges:audit task`,
+    )
+  }
+}
+
+/**
+ * @notice Exports the deployment of an upgradeable contract as unsigned transactions
+ * @dev The addresses of the libraries and the implementation are computed from the nonces of the signer, so the
+ * transactions must be sent in nonce order. The proxy admin is owned by the operator from the start. The deployment is
+ * not added to the config files nor to the OpenZeppelin manifest, which can be done with upgrades.forceImport
+ * @param PROXY_CONTRACT_NAME The name of the contract
+ * @param OPERATOR_ADDRESS The address of the operator
+ * @param INITIALIZER_ARGUMENTS The arguments to pass to the function
+ * @param LIBRARIES_CONTRACT_NAME The name of the libraries
+ * @param OPTIONS The signer, folder and custom fee data of the export
+ */
+async function exportDeployment(
+  PROXY_CONTRACT_NAME: string,
+  OPERATOR_ADDRESS: string,
+  INITIALIZER_ARGUMENTS: string[],
+  LIBRARIES_CONTRACT_NAME: string[],
+  OPTIONS: ExportOptions,
+) {
+  print(colors.warn, `Exporting the deployment of ${PROXY_CONTRACT_NAME} on ${NETWORK} network`)
+  const from = ethers.getAddress(OPTIONS.from)
+  const nonce = await ethers.provider.getTransactionCount(from, 'pending')
+  const libraries: { [key: string]: string } = {}
+  const requests = []
+
+  for (const [index, LIBRARY_CONTRACT_NAME] of LIBRARIES_CONTRACT_NAME.entries()) {
+    const LibraryFactory = await ethers.getContractFactory(LIBRARY_CONTRACT_NAME)
+    libraries[LIBRARY_CONTRACT_NAME] = ethers.getCreateAddress({ from, nonce: nonce + index })
+    const { data } = await LibraryFactory.getDeployTransaction()
+    requests.push({ description: `Deploy ${LIBRARY_CONTRACT_NAME}`, data })
+  }
+
+  const ContractFactory = await ethers.getContractFactory(PROXY_CONTRACT_NAME, { libraries })
+  await upgrades.validateImplementation(ContractFactory, { unsafeAllowLinkedLibraries: true })
+  const implementation = ethers.getCreateAddress({ from, nonce: nonce + LIBRARIES_CONTRACT_NAME.length })
+  requests.push({
+    description: `Deploy ${PROXY_CONTRACT_NAME} implementation`,
+    data: (await ContractFactory.getDeployTransaction()).data,
   })
-  print(colors.success, `${PROXY_CONTRACT_NAME} verified!`)
+
+  console.log('INITIALIZER_ARGUMENTS', INITIALIZER_ARGUMENTS)
+  const ProxyFactory = await getTransparentUpgradeableProxyFactory(hre)
+  const initializerData = ContractFactory.interface.encodeFunctionData('initialize', INITIALIZER_ARGUMENTS)
+  const { data } = await ProxyFactory.getDeployTransaction(implementation, OPERATOR_ADDRESS, initializerData)
+  requests.push({
+    description: `Deploy ${PROXY_CONTRACT_NAME} proxy`,
+    data,
+    fallbackGasLimit: PROXY_DEPLOYMENT_GAS_LIMIT,
+  })
+
+  return exportUnsignedTransactions(requests, OPTIONS)
 }
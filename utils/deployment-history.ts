@@ -0,0 +1,270 @@
+import hre, { ethers } from 'hardhat'
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs'
+import { dirname } from 'path'
+import { execSync } from 'child_process'
+import { EventFragment, id, Log, TransactionReceipt, zeroPadValue } from 'ethers'
+import { Manifest } from '@openzeppelin/upgrades-core'
+import { AddressBook, AddressBookEntry } from '../addresses'
+import { updateJsonFile } from './json'
+
+// PROPOSE records an upgrade proposed to the Multisig, which is not live until the proposal is executed
+export type DeploymentAction = 'DEPLOY' | 'UPGRADE' | 'PROPOSE'
+
+const UPGRADED_TOPIC = id('Upgraded(address)')
+
+export interface DeploymentRecord {
+  action: DeploymentAction
+  contractName: string
+  // the address book entry of the contract after the deployment
+  entry: AddressBookEntry
+  // transactions of the deployment, libraries first
+  transactionHashes: string[]
+  // block of the last transaction, from which the entry is live
+  blockNumber: number
+  // upgradeable contracts only, the events of the implementation and its libraries, compared by the upgrade checks
+  events?: string[]
+  deployer: string
+  // HEAD of the repository, suffixed with -dirty when there were uncommitted changes
+  gitCommit: string
+  timestamp: string
+}
+
+/**
+ * @notice Gets the path of the deployment history of a network
+ * @param network The network name
+ * @returns The path of addresses/<network>/history.jsonl
+ */
+export function deploymentHistoryPath(network: string) {
+  return `addresses/${network}/history.jsonl`
+}
+
+/**
+ * @notice Reads a deployment history
+ * @param path The history file, see deploymentHistoryPath
+ * @returns The records, oldest first, or an empty history when the file does not exist
+ */
+export function readDeploymentHistory(path: string): DeploymentRecord[] {
+  if (!existsSync(path)) return []
+  return readFileSync(path, 'utf8')
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line))
+}
+
+/**
+ * @notice Appends a deployment to the history of the network and regenerates its address book
+ * @dev The history is a JSON Lines file, records are only ever appended. The block number is the one of the last
+ * transaction, or the current block when the transactions are unknown. Upgradeable contracts are recorded with the
+ * events of the current build, which is the one deployed
+ * @param network The network name
+ * @param deployment The contract, its address book entry, the transactions and the deployer of the deployment
+ * @returns The appended record
+ */
+export async function recordDeployment(
+  network: string,
+  deployment: Pick<DeploymentRecord, 'action' | 'contractName' | 'entry' | 'transactionHashes' | 'deployer'>,
+): Promise<DeploymentRecord> {
+  const blockNumbers = []
+  for (const hash of deployment.transactionHashes) {
+    const receipt = await ethers.provider.getTransactionReceipt(hash)
+    if (receipt) blockNumbers.push(receipt.blockNumber)
+  }
+  const record: DeploymentRecord = {
+    ...deployment,
+    blockNumber: blockNumbers.length > 0 ? Math.max(...blockNumbers) : await ethers.provider.getBlockNumber(),
+    ...(deployment.entry.implementation && { events: await eventSignaturesOf(deployment.contractName) }),
+    gitCommit: gitCommit(),
+    timestamp: new Date().toISOString(),
+  }
+
+  appendDeploymentRecords(network, [record])
+  return record
+}
+
+/**
+ * @notice Seeds the history of a network with the upgradeable contracts deployed or upgraded outside of it
+ * @dev Each proxy of the address book that is in the OpenZeppelin manifest and not in the history yet gets a DEPLOY
+ * record at the block of the proxy deployment. When its implementation was set by a later upgrade, the DEPLOY record
+ * has no implementation and an UPGRADE record to the current entry follows, at the block of the Upgraded event. Seeded
+ * records have no events, since the live implementation may not be the current build, and an unknown git commit.
+ * Proxies of the history whose implementation changed since their last record, such as executed proposals, get an
+ * UPGRADE record at the block of the Upgraded event, with the entry and events of the proposal when there is one.
+ * Other contracts are kept as they are in the address book
+ * @param network The network name
+ * @returns The appended records
+ */
+export async function seedDeploymentHistory(network: string): Promise<DeploymentRecord[]> {
+  const addressBook: AddressBook = JSON.parse(readFileSync(`addresses/${network}/index.json`, 'utf8'))
+  const history = readDeploymentHistory(deploymentHistoryPath(network))
+  const live = liveDeployments(history)
+  const { proxies } = await (await Manifest.forNetwork(hre.network.provider)).read()
+
+  const records: DeploymentRecord[] = []
+  for (const [contractName, entry] of Object.entries(addressBook)) {
+    if (entry.address === '') continue
+    if (live[contractName]) {
+      const record = await executedUpgradeRecord(history, live[contractName])
+      if (record) records.push(record)
+      continue
+    }
+    const proxy = proxies.find(proxy => proxy.address.toLowerCase() === entry.address.toLowerCase())
+    const proxyReceipt = proxy?.txHash && (await ethers.provider.getTransactionReceipt(proxy.txHash))
+    if (!proxyReceipt) continue
+
+    const upgradedLog =
+      entry.implementation && (await upgradedLogOf(entry.address, entry.implementation, proxyReceipt.blockNumber))
+    const upgradeReceipt =
+      upgradedLog &&
+      upgradedLog.blockNumber > proxyReceipt.blockNumber &&
+      (await ethers.provider.getTransactionReceipt(upgradedLog.transactionHash))
+
+    const proxyEntry = { address: entry.address, operator: entry.operator, proxyAdmin: entry.proxyAdmin }
+    records.push(await seededRecord('DEPLOY', contractName, upgradeReceipt ? proxyEntry : entry, proxyReceipt))
+    if (upgradeReceipt) records.push(await seededRecord('UPGRADE', contractName, entry, upgradeReceipt))
+  }
+
+  if (records.length > 0) appendDeploymentRecords(network, records)
+  return records
+}
+
+/**
+ * @notice Gets the entries that were live at a block
+ * @dev Proposals are skipped, their upgrade is recorded once executed, see seedDeploymentHistory
+ * @param history The deployment history
+ * @param blockNumber The block, the latest by default
+ * @returns The entry of each contract of the history, with the record it comes from
+ */
+export function liveDeployments(history: DeploymentRecord[], blockNumber = Infinity): Record<string, DeploymentRecord> {
+  const live: Record<string, DeploymentRecord> = {}
+  history
+    .filter(record => record.action !== 'PROPOSE' && record.blockNumber <= blockNumber)
+    .forEach(record => {
+      live[record.contractName] = record
+    })
+  return live
+}
+
+/**
+ * @notice Generates the address book of a network from its deployment history
+ * @dev The contracts of the history get their latest entry. The other entries, such as the Multisig or contracts
+ * deployed before the history, are kept as they are
+ * @param network The network name
+ * @returns The entries written to addresses/<network>/index.json
+ */
+export function generateAddressBook(network: string): AddressBook {
+  const live = liveDeployments(readDeploymentHistory(deploymentHistoryPath(network)))
+  const entries = Object.fromEntries(Object.entries(live).map(([contractName, { entry }]) => [contractName, entry]))
+  updateJsonFile(`addresses/${network}/index.json`, entries)
+  return entries
+}
+
+/**
+ * @notice Gets the transaction that deployed an implementation, from the OpenZeppelin manifest
+ * @param implementation The implementation address
+ * @returns The transaction hash, or undefined when the implementation is not in the manifest
+ */
+export async function implementationTransactionHash(implementation: string): Promise<string | undefined> {
+  const manifest = await Manifest.forNetwork(hre.network.provider)
+  return manifest
+    .getDeploymentFromAddress(implementation)
+    .then(({ txHash }) => txHash)
+    .catch(() => undefined)
+}
+
+/**
+ * @notice Finds the block a contract was deployed in
+ * @dev Reads the first DEPLOY record of the contract in the deployment history, or the receipt of the proxy deployment
+ * in the OpenZeppelin manifest for deployments older than the history
+ * @param network The network name
+ * @param address The contract address
+ * @returns The block number, or undefined when the deployment is not recorded
+ */
+export async function deploymentBlockOf(network: string, address: string): Promise<number | undefined> {
+  const record = readDeploymentHistory(deploymentHistoryPath(network)).find(
+    ({ action, entry }) => action === 'DEPLOY' && entry.address.toLowerCase() === address.toLowerCase(),
+  )
+  if (record) return record.blockNumber
+
+  const manifest = await Manifest.forNetwork(hre.network.provider)
+  const proxy = (await manifest.read()).proxies.find(proxy => proxy.address.toLowerCase() === address.toLowerCase())
+  if (!proxy?.txHash) return undefined
+  const receipt = await ethers.provider.getTransactionReceipt(proxy.txHash)
+  return receipt?.blockNumber
+}
+
+/**
+ * @notice Lists the events of the current build of a contract and of the libraries linked to it
+ * @param contractName The name of the contract
+ * @returns The event signatures, with their indexed arguments, sorted
+ */
+export async function eventSignaturesOf(contractName: string): Promise<string[]> {
+  const artifact = await hre.artifacts.readArtifact(contractName)
+  const libraryNames = Object.values(artifact.linkReferences).flatMap(references => Object.keys(references))
+  const artifacts = [artifact, ...(await Promise.all(libraryNames.map(name => hre.artifacts.readArtifact(name))))]
+  const events = artifacts.flatMap(({ abi }) => abi).filter(item => item.type === 'event')
+  return [...new Set(events.map(item => EventFragment.from(item).format('minimal')))].sort()
+}
+
+function appendDeploymentRecords(network: string, records: DeploymentRecord[]) {
+  const path = deploymentHistoryPath(network)
+  mkdirSync(dirname(path), { recursive: true })
+  appendFileSync(path, records.map(record => JSON.stringify(record) + '\n').join(''))
+  generateAddressBook(network)
+}
+
+async function executedUpgradeRecord(
+  history: DeploymentRecord[],
+  { contractName, entry, blockNumber }: DeploymentRecord,
+): Promise<DeploymentRecord | undefined> {
+  if (!entry.implementation) return undefined
+  const implementation = await hre.upgrades.erc1967.getImplementationAddress(entry.address)
+  if (implementation.toLowerCase() === entry.implementation.toLowerCase()) return undefined
+  const upgradedLog = await upgradedLogOf(entry.address, implementation, blockNumber)
+  const receipt = upgradedLog && (await ethers.provider.getTransactionReceipt(upgradedLog.transactionHash))
+  if (!receipt) return undefined
+
+  const proposal = history
+    .filter(record => record.action === 'PROPOSE' && record.contractName === contractName)
+    .reverse()
+    .find(record => record.entry.implementation?.toLowerCase() === implementation.toLowerCase())
+  const record = await seededRecord('UPGRADE', contractName, proposal?.entry ?? { ...entry, implementation }, receipt)
+  return proposal ? { ...record, events: proposal.events, gitCommit: proposal.gitCommit } : record
+}
+
+async function upgradedLogOf(proxy: string, implementation: string, fromBlock: number): Promise<Log | undefined> {
+  const logs = await ethers.provider.getLogs({
+    address: proxy,
+    topics: [UPGRADED_TOPIC, zeroPadValue(implementation, 32)],
+    fromBlock,
+  })
+  return logs.at(-1)
+}
+
+async function seededRecord(
+  action: DeploymentAction,
+  contractName: string,
+  entry: AddressBookEntry,
+  receipt: TransactionReceipt,
+): Promise<DeploymentRecord> {
+  const block = await receipt.getBlock()
+  return {
+    action,
+    contractName,
+    entry,
+    transactionHashes: [receipt.hash],
+    blockNumber: receipt.blockNumber,
+    deployer: receipt.from,
+    gitCommit: 'unknown',
+    timestamp: new Date(block.timestamp * 1000).toISOString(),
+  }
+}
+
+function gitCommit(): string {
+  try {
+    const commit = execSync('git rev-parse HEAD', { encoding: 'utf8' }).trim()
+    const dirty = execSync('git status --porcelain', { encoding: 'utf8' }).trim() !== ''
+    return dirty ? `${commit}-dirty` : commit
+  } catch {
+    return 'unknown'
+  }
+}
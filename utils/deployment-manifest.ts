@@ -0,0 +1,207 @@
+import { ethers } from 'hardhat'
+import { existsSync, readFileSync } from 'fs'
+import { colors, print } from './misc'
+import { deployUpgradeableContract } from './deploy-upgradeable'
+
+export interface ContractDeployment {
+  // operator and initializer arguments may reference the address of a contract of the config file as "$ContractName"
+  operator: string
+  initializer: string[]
+  libraries?: string[]
+  // contracts to deploy first, besides the contracts referenced by the operator and initializer arguments
+  dependsOn?: string[]
+}
+
+export interface DeploymentManifest {
+  contracts: Record<string, ContractDeployment>
+}
+
+export type DeploymentStatus = 'DEPLOYED' | 'PENDING'
+
+export interface PlannedDeployment {
+  contractName: string
+  status: DeploymentStatus
+  // undefined for pending deployments
+  address?: string
+  dependencies: string[]
+}
+
+type AddressBook = Record<string, { address?: string }>
+
+/**
+ * @notice Gets the path of the deployment manifest of a network
+ * @param network The network name
+ * @returns The path of addresses/<network>/deployment.json
+ */
+export function deploymentManifestPath(network: string) {
+  return `addresses/${network}/deployment.json`
+}
+
+/**
+ * @notice Reads a deployment manifest
+ * @param path The manifest file, see deploymentManifestPath
+ * @returns The manifest
+ * @throws Error when the file does not exist
+ */
+export function readDeploymentManifest(path: string): DeploymentManifest {
+  if (!existsSync(path)) throw new Error(`No deployment manifest found at ${path}`)
+  return JSON.parse(readFileSync(path, 'utf8'))
+}
+
+/**
+ * @notice Sorts the contracts of a manifest so that each contract comes after its dependencies
+ * @dev Contracts keep the manifest order when they do not depend on each other
+ * @param manifest The deployment manifest
+ * @returns The contract names in deployment order
+ * @throws Error when a dependency is not in the manifest or the dependencies are circular
+ */
+export function deploymentOrder(manifest: DeploymentManifest): string[] {
+  const order: string[] = []
+  const visiting = new Set<string>()
+
+  const visit = (contractName: string, path: string[]) => {
+    if (order.includes(contractName)) return
+    if (visiting.has(contractName)) throw new Error(`Circular dependency: ${[...path, contractName].join(' -> ')}`)
+    const deployment = manifest.contracts[contractName]
+    if (!deployment)
+      throw new Error(`${path[path.length - 1]} depends on ${contractName}, which is not in the manifest`)
+
+    visiting.add(contractName)
+    dependenciesOf(manifest, contractName).forEach(dependency => visit(dependency, [...path, contractName]))
+    visiting.delete(contractName)
+    order.push(contractName)
+  }
+
+  Object.keys(manifest.contracts).forEach(contractName => visit(contractName, []))
+  return order
+}
+
+/**
+ * @notice Lists the manifest contracts a contract depends on
+ * @dev dependsOn plus the manifest contracts referenced by the operator and initializer arguments
+ * @param manifest The deployment manifest
+ * @param contractName The contract name
+ * @returns The names of the dependencies
+ */
+export function dependenciesOf(manifest: DeploymentManifest, contractName: string): string[] {
+  const { operator, initializer, dependsOn = [] } = manifest.contracts[contractName]
+  const references = [operator, ...initializer]
+    .map(referenceOf)
+    .filter((reference): reference is string => reference !== undefined && reference in manifest.contracts)
+  return [...new Set([...dependsOn, ...references])]
+}
+
+/**
+ * @notice Checks which contracts of a manifest are already deployed
+ * @dev A contract is deployed when the address book has its address and the address has code. References to contracts
+ * outside the manifest, such as the Multisig, are checked too, so that missing addresses fail before anything is deployed
+ * @param manifest The deployment manifest
+ * @param addressBookPath The address book of the network, addresses/<network>/index.json
+ * @returns The contracts in deployment order, with their status
+ * @throws Error when an address has no code or a reference is missing from the address book
+ */
+export async function planDeployments(
+  manifest: DeploymentManifest,
+  addressBookPath: string,
+): Promise<PlannedDeployment[]> {
+  const addressBook = readAddressBook(addressBookPath)
+  const plan: PlannedDeployment[] = []
+
+  for (const contractName of deploymentOrder(manifest)) {
+    const address = addressBook[contractName]?.address
+    if (address && (await ethers.provider.getCode(address)) === '0x') {
+      throw new Error(`${contractName} is recorded at ${address}, which has no code`)
+    }
+    const { operator, initializer } = manifest.contracts[contractName]
+    if (!address) {
+      // references to manifest contracts are resolved after their deployment
+      for (const value of [operator, ...initializer]) {
+        const reference = referenceOf(value)
+        if (reference === undefined || !(reference in manifest.contracts)) resolveValue(value, addressBook)
+      }
+    }
+    plan.push({
+      contractName,
+      status: address ? 'DEPLOYED' : 'PENDING',
+      address: address || undefined,
+      dependencies: dependenciesOf(manifest, contractName),
+    })
+  }
+  return plan
+}
+
+/**
+ * @notice Deploys the pending contracts of a manifest in dependency order with deployUpgradeableContract
+ * @dev deployUpgradeableContract records each deployment in the address book, which is read again before each
+ * deployment to resolve the references to the contracts deployed before
+ * @param manifest The deployment manifest
+ * @param addressBookPath The address book of the network, addresses/<network>/index.json
+ * @param CUSTOM_FEE_DATA The custom fee data
+ * @returns The plan, with the addresses of the deployed contracts
+ */
+export async function runDeploymentManifest(
+  manifest: DeploymentManifest,
+  addressBookPath: string,
+  CUSTOM_FEE_DATA?: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+): Promise<PlannedDeployment[]> {
+  if (process.env.EXPORT_UNSIGNED) {
+    throw new Error('Deployments that depend on each other cannot be exported, deploy the contracts one by one')
+  }
+  const plan = await planDeployments(manifest, addressBookPath)
+
+  for (const deployment of plan.filter(({ status }) => status === 'PENDING')) {
+    const { operator, initializer, libraries } = resolveContractDeployment(
+      manifest,
+      deployment.contractName,
+      addressBookPath,
+    )
+
+    print(colors.highlight, `Deploying ${deployment.contractName}...`)
+    await deployUpgradeableContract(deployment.contractName, operator, initializer, libraries, CUSTOM_FEE_DATA)
+
+    deployment.address = readAddressBook(addressBookPath)[deployment.contractName]?.address
+    if (!deployment.address) throw new Error(`${deployment.contractName} was not recorded in ${addressBookPath}`)
+    deployment.status = 'DEPLOYED'
+  }
+  return plan
+}
+
+/**
+ * @notice Replaces the references of a manifest contract with the addresses of the address book
+ * @param manifest The deployment manifest
+ * @param contractName The contract name
+ * @param addressBookPath The address book of the network, addresses/<network>/index.json
+ * @returns The operator, initializer arguments and libraries, with addresses instead of references
+ * @throws Error when the contract is not in the manifest or a reference has no address
+ */
+export function resolveContractDeployment(
+  manifest: DeploymentManifest,
+  contractName: string,
+  addressBookPath: string,
+): ContractDeployment {
+  const deployment = manifest.contracts[contractName]
+  if (!deployment) throw new Error(`${contractName} is not in the deployment manifest`)
+  const addressBook = readAddressBook(addressBookPath)
+  return {
+    ...deployment,
+    operator: resolveValue(deployment.operator, addressBook),
+    initializer: deployment.initializer.map(value => resolveValue(value, addressBook)),
+  }
+}
+
+function readAddressBook(addressBookPath: string): AddressBook {
+  if (!existsSync(addressBookPath)) throw new Error(`No address book found at ${addressBookPath}`)
+  return JSON.parse(readFileSync(addressBookPath, 'utf8'))
+}
+
+function referenceOf(value: string): string | undefined {
+  return value.startsWith('$') ? value.slice(1) : undefined
+}
+
+function resolveValue(value: string, addressBook: AddressBook): string {
+  const reference = referenceOf(value)
+  if (reference === undefined) return value
+  const address = addressBook[reference]?.address
+  if (!address) throw new Error(`${reference} has no address in the address book`)
+  return address
+}
@@ -0,0 +1,551 @@
+import { AbiCoder, dataLength, dataSlice, isHexString } from 'ethers'
+
+export interface RevertExplanation {
+  code: string
+  explanation: string
+  remedy: string
+}
+
+interface RevertDefinition extends RevertExplanation {
+  messages: string[]
+}
+
+// selectors of the Error(string) and Panic(uint256) builtin errors
+const ERROR_SELECTOR = '0x08c379a0'
+const PANIC_SELECTOR = '0x4e487b71'
+
+// Revert messages of the marketplaces, their libraries, the royalties config, the roles registries and the
+// OpenZeppelin contracts they inherit. Codes match the ones reported by validate-rental-offer.ts
+const REVERT_DEFINITIONS: RevertDefinition[] = [
+  // rental offer creation
+  {
+    code: 'NOT_TOKEN_OWNER',
+    messages: [
+      'NftRentalMarketplace: only token owner can call this function',
+      'OriumNftMarketplace: sender is not the owner',
+      "OriumNftMarketplace: sender is not the token's owner",
+    ],
+    explanation: 'The sender does not own the NFT, neither in its wallet nor deposited in the roles registry',
+    remedy: 'Send the transaction from the wallet that owns the NFT',
+  },
+  {
+    code: 'UNTRUSTED_FEE_TOKEN',
+    messages: [
+      'NftRentalMarketplace: tokenAddress or feeTokenAddress is not trusted',
+      'OriumSftMarketplace: tokenAddress is not trusted',
+    ],
+    explanation: 'The fee token is not trusted for the token in OriumMarketplaceRoyalties',
+    remedy: 'Use a trusted fee token, or ask the operator to call setTrustedFeeTokenForToken',
+  },
+  {
+    code: 'INVALID_DEADLINE',
+    messages: ['NftRentalMarketplace: Invalid deadline', 'OriumSftMarketplace: Invalid deadline'],
+    explanation: 'The offer deadline is in the past or further away than the maxDuration of OriumMarketplaceRoyalties',
+    remedy: 'Set a deadline in the future and within maxDuration from now',
+  },
+  {
+    code: 'ZERO_NONCE',
+    messages: ['NftRentalMarketplace: Nonce cannot be 0', 'OriumSftMarketplace: Nonce cannot be 0'],
+    explanation: 'Rental offers cannot use nonce 0',
+    remedy: 'Use a random non-zero nonce',
+  },
+  {
+    code: 'LENDER_MISMATCH',
+    messages: ['NftRentalMarketplace: Sender and Lender mismatch', 'OriumSftMarketplace: Sender and Lender mismatch'],
+    explanation: 'The offer lender is not the sender of the transaction',
+    remedy: 'Send the transaction from the lender wallet, or set the lender to the sender address',
+  },
+  {
+    code: 'EMPTY_ROLES',
+    messages: ['NftRentalMarketplace: roles should not be empty', 'OriumSftMarketplace: roles should not be empty'],
+    explanation: 'The offer does not have any role',
+    remedy: 'Add at least one role to the offer',
+  },
+  {
+    code: 'ROLES_DATA_LENGTH_MISMATCH',
+    messages: [
+      'NftRentalMarketplace: roles and rolesData should have the same length',
+      'OriumSftMarketplace: roles and rolesData should have the same length',
+    ],
+    explanation: 'The offer has a different number of roles and rolesData',
+    remedy: "Provide one rolesData entry for each role, '0x' when the role has no data",
+  },
+  {
+    code: 'ZERO_FEE_PUBLIC_OFFER',
+    messages: [
+      'NftRentalMarketplace: feeAmountPerSecond should be greater than 0',
+      'OriumSftMarketplace: feeAmountPerSecond should be greater than 0',
+    ],
+    explanation: 'Offers open to any borrower must charge a fee',
+    remedy: 'Set a feeAmountPerSecond greater than 0, or restrict the offer to a borrower',
+  },
+  {
+    code: 'INVALID_MIN_DURATION',
+    messages: ['NftRentalMarketplace: minDuration is invalid', 'OriumSftMarketplace: minDuration is invalid'],
+    explanation: 'The minimum duration is longer than the time left until the offer deadline',
+    remedy: 'Reduce minDuration or extend the deadline',
+  },
+  {
+    code: 'NONCE_ALREADY_USED',
+    messages: ['NftRentalMarketplace: nonce already used', 'OriumSftMarketplace: nonce already used'],
+    explanation: 'The lender already created an offer with this nonce',
+    remedy: 'Use a new random nonce',
+  },
+  {
+    code: 'ROLE_IN_ACTIVE_OFFER',
+    messages: ['NftRentalMarketplace: role still has an active offer or rental'],
+    explanation: 'Another offer or rental of the NFT still uses one of the roles',
+    remedy: 'Cancel the previous offer, or wait until its deadline and rental are over',
+  },
+  {
+    code: 'ZERO_TOKEN_AMOUNT',
+    messages: [
+      'OriumSftMarketplace: tokenAmount should be greater than 0',
+      'SftRolesRegistry: tokenAmount must be greater than zero',
+      'ERC7589RolesRegistry: tokenAmount must be greater than zero',
+    ],
+    explanation: 'The token amount is 0',
+    remedy: 'Set a token amount greater than 0',
+  },
+  {
+    code: 'INSUFFICIENT_BALANCE',
+    messages: [
+      'OriumSftMarketplace: caller does not have enough balance for the token',
+      'ERC1155: insufficient balance for transfer',
+    ],
+    explanation: 'The sender does not hold enough tokens to commit',
+    remedy: 'Reduce the token amount or acquire more tokens',
+  },
+  {
+    code: 'COMMITMENT_IN_ACTIVE_OFFER',
+    messages: ['OriumSftMarketplace: commitmentId is in an active rental offer'],
+    explanation: 'The commitment is used by another offer that has not reached its deadline',
+    remedy: 'Cancel the other offer or commit new tokens with commitmentId 0',
+  },
+  {
+    code: 'COMMITMENT_GRANTOR_MISMATCH',
+    messages: ['OriumSftMarketplace: expected grantor does not match the grantor of the commitmentId'],
+    explanation: 'The commitment belongs to another grantor',
+    remedy: 'Use a commitment of the lender, or commitmentId 0 to commit new tokens',
+  },
+  {
+    code: 'COMMITMENT_TOKEN_AMOUNT_MISMATCH',
+    messages: ["OriumSftMarketplace: tokenAmount provided does not match commitment's tokenAmount"],
+    explanation: 'The offer token amount differs from the amount locked in the commitment',
+    remedy: 'Use the token amount of the commitment',
+  },
+  {
+    code: 'COMMITMENT_TOKEN_ADDRESS_MISMATCH',
+    messages: ["OriumSftMarketplace: tokenAddress provided does not match commitment's tokenAddress"],
+    explanation: 'The offer token address differs from the one locked in the commitment',
+    remedy: 'Use the token address of the commitment',
+  },
+  {
+    code: 'COMMITMENT_TOKEN_ID_MISMATCH',
+    messages: ["OriumSftMarketplace: tokenId provided does not match commitment's tokenId"],
+    explanation: 'The offer token ID differs from the one locked in the commitment',
+    remedy: 'Use the token ID of the commitment',
+  },
+
+  // rental offer acceptance, cancellation and rental ending
+  {
+    code: 'OFFER_NOT_CREATED',
+    messages: ['NftRentalMarketplace: Offer not created', 'OriumSftMarketplace: Offer not created'],
+    explanation: 'No offer matches the hash of the given offer',
+    remedy: 'Check every offer field, they must match the created offer exactly',
+  },
+  {
+    code: 'ONGOING_RENTAL',
+    messages: [
+      'NftRentalMarketplace: This offer has an ongoing rental',
+      'OriumSftMarketplace: This offer has an ongoing rental',
+    ],
+    explanation: 'The offer is currently rented',
+    remedy: 'Wait until the current rental expires',
+  },
+  {
+    code: 'DURATION_BELOW_MINIMUM',
+    messages: [
+      'NftRentalMarketplace: Duration is less than the offer minimum duration',
+      'OriumSftMarketplace: Duration is less than the offer minimum duration',
+    ],
+    explanation: 'The rental duration is shorter than the offer minDuration',
+    remedy: 'Rent for at least minDuration seconds',
+  },
+  {
+    code: 'EXPIRATION_AFTER_DEADLINE',
+    messages: [
+      'NftRentalMarketplace: expiration date is greater than offer deadline',
+      'OriumSftMarketplace: expiration date is greater than offer deadline',
+    ],
+    explanation: 'The rental would end after the offer deadline, or the offer was cancelled',
+    remedy: 'Shorten the rental duration',
+  },
+  {
+    code: 'BORROWER_NOT_ALLOWED',
+    messages: [
+      'NftRentalMarketplace: Sender is not allowed to rent this NFT',
+      'OriumSftMarketplace: Sender is not allowed to rent this SFT',
+    ],
+    explanation: 'The offer is private to another borrower',
+    remedy: 'Send the transaction from the borrower set in the offer',
+  },
+  {
+    code: 'INCORRECT_NATIVE_AMOUNT',
+    messages: [
+      'NftRentalMarketplace: Incorrect native token amount',
+      'OriumSftMarketplace: Insufficient native token amount',
+    ],
+    explanation: 'The value sent differs from the rental fee of an offer paid in the native token',
+    remedy: 'Send exactly feeAmountPerSecond * duration as value',
+  },
+  {
+    code: 'TRANSFER_FAILED',
+    messages: ['NftRentalMarketplace: Transfer failed', 'OriumSftMarketplace: Transfer failed'],
+    explanation: 'A native token fee transfer to the treasury, the creator or the lender failed',
+    remedy: 'Check that the fee recipients can receive native tokens',
+  },
+  {
+    code: 'NOT_LENDER',
+    messages: [
+      'NftRentalMarketplace: Only lender can cancel a rental offer',
+      'OriumSftMarketplace: Only lender can cancel a rental offer',
+    ],
+    explanation: 'Only the lender can cancel an offer',
+    remedy: 'Send the transaction from the lender wallet',
+  },
+  {
+    code: 'NONCE_EXPIRED',
+    messages: [
+      'NftRentalMarketplace: Nonce expired or not used yet',
+      'OriumSftMarketplace: Nonce expired or not used yet',
+    ],
+    explanation: 'The offer was already cancelled or has reached its deadline',
+    remedy: 'Nothing to cancel, create a new offer if needed',
+  },
+  {
+    code: 'NOT_BORROWER',
+    messages: [
+      'NftRentalMarketplace: Only borrower can end a rental',
+      'OriumSftMarketplace: Only borrower can end a rental',
+    ],
+    explanation: 'Only the borrower of the current rental can end it',
+    remedy: 'Send the transaction from the borrower wallet',
+  },
+  {
+    code: 'NO_ACTIVE_RENTAL',
+    messages: ['NftRentalMarketplace: There are no active Rentals', 'OriumSftMarketplace: There are no active Rentals'],
+    explanation: 'The offer is not rented, or its rental already expired',
+    remedy: 'Nothing to end',
+  },
+
+  // direct rentals and commitments
+  {
+    code: 'ARRAYS_LENGTH_MISMATCH',
+    messages: [
+      'OriumNftMarketplace: arrays length mismatch',
+      'OriumSftMarketplace: arrays length mismatch',
+      'OriumMarketplaceRoyalties: Arrays should have the same length',
+    ],
+    explanation: 'The batch arguments have different lengths',
+    remedy: 'Provide one entry of each argument per item',
+  },
+  {
+    code: 'ROLE_EXPIRED',
+    messages: ['OriumNftMarketplace: role is expired', 'OriumSftMarketplace: role is expired'],
+    explanation: 'The role already expired',
+    remedy: 'Nothing to revoke',
+  },
+  {
+    code: 'ROLE_NOT_REVOCABLE',
+    messages: [
+      'OriumNftMarketplace: role is not revocable',
+      'OriumSftMarketplace: role is not revocable',
+      'OriumSftMarketplace: role is not revocable Legacy',
+      'NftRolesRegistryVault: role is not revocable nor expired',
+      'NftRolesRegistryVault: role must be expired or revocable',
+      'SftRolesRegistry: role is not expired and is not revocable',
+      'SftRolesRegistry: commitment has an active non-revocable role',
+      'ERC7589RolesRegistry: role is not expired nor revocable',
+      'ERC7589RolesRegistry: role is not revocable or caller is not the approved',
+    ],
+    explanation: 'The role was granted as non-revocable and has not expired yet',
+    remedy: 'Wait until the role expires, or revoke it from the grantee wallet',
+  },
+  {
+    code: 'NOT_GRANTOR_OR_GRANTEE',
+    messages: [
+      "OriumNftMarketplace: sender is not the token's owner or recipient",
+      "OriumSftMarketplace: sender is not the commitment's grantor or grantee",
+      "OriumSftMarketplace: sender is not the commitment's grantor or grantee Legacy",
+    ],
+    explanation: 'Only the owner of the token or the recipient of the role can revoke it',
+    remedy: 'Send the transaction from the owner or the recipient wallet',
+  },
+  {
+    code: 'NOT_COMMITMENT_GRANTOR',
+    messages: [
+      "OriumSftMarketplace: sender is not the commitment's grantor",
+      "OriumSftMarketplace: sender is not the commitment's grantor Legacy",
+    ],
+    explanation: 'Only the grantor of the commitment can release its tokens',
+    remedy: 'Send the transaction from the grantor wallet',
+  },
+
+  // roles registries
+  {
+    code: 'TOKEN_LOCKED',
+    messages: ['NftRolesRegistryVault: NFT is locked', 'ERC7589RolesRegistry: NFT is locked'],
+    explanation: 'The token is locked in the roles registry by an active role',
+    remedy: 'Wait until the roles of the token expire or revoke them',
+  },
+  {
+    code: 'EXPIRATION_DATE_IN_PAST',
+    messages: [
+      'NftRolesRegistryVault: expiration date must be in the future',
+      'SftRolesRegistry: expiration date must be in the future',
+      'ERC7589RolesRegistry: expirationDate must be in the future',
+    ],
+    explanation: 'The role expiration date is not in the future',
+    remedy: 'Use an expiration date after the current block timestamp',
+  },
+  {
+    code: 'REGISTRY_NOT_APPROVED',
+    messages: [
+      'NftRolesRegistryVault: role does not exist or sender is not approved',
+      'NftRolesRegistryVault: sender must be owner or approved',
+      'SftRolesRegistry: sender must be approved',
+      'SftRolesRegistry: account not approved',
+      'ERC7589RolesRegistry: sender is not approved',
+      'ERC7589RolesRegistry: sender is not manager',
+      'ERC7589RolesRegistry: sender is not owner or approved',
+    ],
+    explanation: 'The marketplace is not approved to manage roles on behalf of the token owner in the roles registry',
+    remedy: 'Call setRoleApprovalForAll on the roles registry with the marketplace address',
+  },
+  {
+    code: 'ROLE_NOT_SUPPORTED',
+    messages: ['SftRolesRegistry: role not supported', 'ERC7589RolesRegistry: role does not exist'],
+    explanation: 'The roles registry does not support the role',
+    remedy: 'Use a role supported by the roles registry of the token',
+  },
+  {
+    code: 'GRANTEE_MISMATCH',
+    messages: ['SftRolesRegistry: grantee mismatch'],
+    explanation: 'The role was granted to another grantee',
+    remedy: 'Use the grantee of the role',
+  },
+  {
+    code: 'TOKEN_NOT_ALLOWED',
+    messages: ['ERC7589RolesRegistry: tokenAddress is not allowed'],
+    explanation: 'The roles registry does not accept the token',
+    remedy: 'Use the roles registry configured for the token in OriumMarketplaceRoyalties',
+  },
+
+  // royalties config
+  {
+    code: 'INVALID_MAX_DURATION',
+    messages: ['OriumMarketplaceRoyalties: Max duration should be greater than 0'],
+    explanation: 'The max duration is 0',
+    remedy: 'Set a max duration greater than 0',
+  },
+  {
+    code: 'NOT_CREATOR_OR_OWNER',
+    messages: ['OriumMarketplaceRoyalties: Only creator or owner can set the royalty info'],
+    explanation: 'Only the token creator or the owner of OriumMarketplaceRoyalties can set the royalty info',
+    remedy: 'Send the transaction from the creator or the owner wallet',
+  },
+  {
+    code: 'CREATOR_MISMATCH',
+    messages: ['OriumMarketplaceRoyalties: sender and creator mismatch'],
+    explanation: 'The creator in the royalty info is not the sender',
+    remedy: 'Set the creator to the sender address',
+  },
+  {
+    code: 'FEES_ABOVE_100_PERCENT',
+    messages: ['OriumMarketplaceRoyalties: Royalty percentage + marketplace fee cannot be greater than 100%'],
+    explanation: 'The royalty and the marketplace fee add up to more than 100%',
+    remedy: 'Lower the royalty percentage',
+  },
+
+  // OpenZeppelin
+  {
+    code: 'NOT_OWNER',
+    messages: ['Ownable: caller is not the owner'],
+    explanation: 'Only the contract owner can call this function',
+    remedy: 'Send the transaction from the owner, usually the multisig',
+  },
+  {
+    code: 'ZERO_ADDRESS_OWNER',
+    messages: ['Ownable: new owner is the zero address'],
+    explanation: 'Ownership cannot be transferred to the zero address',
+    remedy: 'Use renounceOwnership to remove the owner',
+  },
+  {
+    code: 'PAUSED',
+    messages: ['Pausable: paused'],
+    explanation: 'The contract is paused',
+    remedy: 'Ask the owner to unpause the contract',
+  },
+  {
+    code: 'NOT_PAUSED',
+    messages: ['Pausable: not paused'],
+    explanation: 'The contract is not paused',
+    remedy: 'Nothing to unpause',
+  },
+  {
+    code: 'REENTRANT_CALL',
+    messages: ['ReentrancyGuard: reentrant call'],
+    explanation: 'A fee recipient called back into the marketplace during the transaction',
+    remedy: 'Check the contracts receiving the fees',
+  },
+  {
+    code: 'INSUFFICIENT_ALLOWANCE',
+    messages: ['ERC20: insufficient allowance'],
+    explanation: 'The marketplace is not allowed to spend the rental fee',
+    remedy: 'Approve the marketplace to spend feeAmountPerSecond * duration of the fee token',
+  },
+  {
+    code: 'INSUFFICIENT_FEE_BALANCE',
+    messages: ['ERC20: transfer amount exceeds balance'],
+    explanation: 'The borrower does not hold enough fee tokens',
+    remedy: 'Top up the fee token balance of the borrower',
+  },
+  {
+    code: 'TOKEN_NOT_APPROVED',
+    messages: ['ERC721: caller is not token owner or approved', 'ERC1155: caller is not token owner or approved'],
+    explanation: 'The roles registry is not approved to transfer the token',
+    remedy: 'Call setApprovalForAll on the token with the roles registry address',
+  },
+]
+
+export const REVERT_CATALOGUE: Record<string, RevertExplanation> = Object.fromEntries(
+  REVERT_DEFINITIONS.flatMap(({ messages, ...explanation }) => messages.map(message => [message, explanation])),
+)
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function',
+}
+
+/**
+ * @notice A revert of a marketplace, royalties or roles registry transaction, with its catalogued explanation
+ */
+export class MarketplaceError extends Error {
+  readonly code: string
+  readonly reason: string
+  readonly explanation: string
+  readonly remedy: string
+  readonly data?: string
+
+  constructor(reason: string, data?: string) {
+    const { code, explanation, remedy } = explainRevert(reason)
+    super(`${code}: ${reason}\n${explanation}\nRemedy: ${remedy}`)
+    this.name = 'MarketplaceError'
+    this.code = code
+    this.reason = reason
+    this.explanation = explanation
+    this.remedy = remedy
+    this.data = data
+  }
+}
+
+/**
+ * @notice Looks up a revert message in the catalogue
+ * @param reason The revert message
+ * @returns The error code, explanation and remedy, with the UNKNOWN_REVERT code for messages outside the catalogue
+ */
+export function explainRevert(reason: string): RevertExplanation {
+  if (REVERT_CATALOGUE[reason]) return REVERT_CATALOGUE[reason]
+  if (reason.startsWith('Panic(')) {
+    return {
+      code: 'PANIC',
+      explanation: 'The contract reverted with a Solidity panic, an underflow usually means a deadline in the past',
+      remedy: 'Check the arguments against the contract requirements',
+    }
+  }
+  return {
+    code: 'UNKNOWN_REVERT',
+    explanation: 'The revert message is not in the catalogue',
+    remedy: 'Check the revert message against the contract source',
+  }
+}
+
+/**
+ * @notice Decodes the revert data returned by a failed call
+ * @dev Supports the Error(string) and Panic(uint256) builtin errors
+ * @param data The revert data
+ * @returns The revert message, or undefined when the data is empty, malformed or a custom error
+ */
+export function decodeRevertData(data: string): string | undefined {
+  if (!isHexString(data) || dataLength(data) < 4) return undefined
+  const selector = dataSlice(data, 0, 4)
+  try {
+    if (selector === ERROR_SELECTOR) {
+      return AbiCoder.defaultAbiCoder().decode(['string'], dataSlice(data, 4))[0]
+    }
+    if (selector === PANIC_SELECTOR) {
+      const code = Number(AbiCoder.defaultAbiCoder().decode(['uint256'], dataSlice(data, 4))[0])
+      return `Panic(0x${code.toString(16).padStart(2, '0')}): ${PANIC_REASONS[code] ?? 'unknown panic code'}`
+    }
+  } catch {
+    // builtin error selector without a valid payload
+    return undefined
+  }
+  return undefined
+}
+
+/**
+ * @notice Converts an error thrown by ethers or Hardhat into a MarketplaceError
+ * @dev Works for transactions, gas estimations and static calls, on Hardhat network and on JSON-RPC providers
+ * @param error The caught error
+ * @returns The MarketplaceError, or undefined when the error is not a revert with a known reason
+ */
+export function toMarketplaceError(error: unknown): MarketplaceError | undefined {
+  if (error instanceof MarketplaceError) return error
+
+  const data = findRevertData(error)
+  const reason = (data && decodeRevertData(data)) ?? findRevertReason(error)
+  if (reason === undefined) return undefined
+  return new MarketplaceError(reason, data)
+}
+
+/**
+ * @notice Runs a transaction or a static call, throwing a MarketplaceError when it reverts
+ * @param action The function sending the transaction or making the call
+ * @returns The result of the action
+ */
+export async function withRevertDecoding<T>(action: () => Promise<T>): Promise<T> {
+  try {
+    return await action()
+  } catch (error) {
+    throw toMarketplaceError(error) ?? error
+  }
+}
+
+// providers nest the original JSON-RPC error in different properties
+const NESTED_ERROR_KEYS = ['error', 'info', 'cause', 'data']
+
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (typeof error !== 'object' || error === null || depth > 4) return undefined
+  const { data } = error as { data?: unknown }
+  if (typeof data === 'string' && /^0x[0-9a-fA-F]{8}/.test(data)) return data
+  for (const key of NESTED_ERROR_KEYS) {
+    const nested = findRevertData((error as Record<string, unknown>)[key], depth + 1)
+    if (nested) return nested
+  }
+  return undefined
+}
+
+function findRevertReason(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null) return undefined
+  const { reason, message } = error as { reason?: unknown; message?: unknown }
+  if (typeof reason === 'string' && reason.length > 0) return reason
+  const match = typeof message === 'string' ? message.match(/reverted with reason string '(.*)'/) : null
+  return match?.[1]
+}
@@ -0,0 +1,65 @@
+import { ethers } from 'hardhat'
+import { AddressZero, MAX_PERCENTAGE } from './constants'
+import { RentalOffer } from './types'
+import { NftRentalMarketplace, OriumSftMarketplace } from '../typechain-types'
+
+export interface RentalQuote {
+  totalFeeAmount: bigint
+  marketplaceFeeAmount: bigint
+  royaltyAmount: bigint
+  lenderAmount: bigint
+  marketplaceTreasury: string
+  royaltyTreasury: string
+  // value to send with acceptRentalOffer, only used when the fee is paid in the native token
+  msgValue: bigint
+  // allowance the borrower must give to the marketplace, only used when the fee is paid in an ERC-20 token
+  allowance: bigint
+}
+
+/**
+ * @notice Quotes the fees charged when accepting a rental offer
+ * @dev Mirrors NftRentalMarketplace._transferFees and OriumSftMarketplace._transferFees,
+ * reading the fee and royalty percentages from OriumMarketplaceRoyalties
+ * @param marketplace The NftRentalMarketplace or OriumSftMarketplace contract
+ * @param offer The rental offer to be accepted
+ * @param duration The rental duration in seconds
+ * @returns The amount received by each party, the msg.value and the ERC-20 allowance required
+ */
+export async function quoteRental(
+  marketplace: NftRentalMarketplace | OriumSftMarketplace,
+  offer: RentalOffer,
+  duration: number | bigint,
+): Promise<RentalQuote> {
+  const marketplaceRoyalties = await ethers.getContractAt(
+    'OriumMarketplaceRoyalties',
+    await marketplace.oriumMarketplaceRoyalties(),
+  )
+  const marketplaceFeePercentageInWei = await marketplaceRoyalties.marketplaceFeeOf(offer.tokenAddress)
+  const royaltyInfo = await marketplaceRoyalties.royaltyInfoOf(offer.tokenAddress)
+
+  const totalFeeAmount = BigInt(offer.feeAmountPerSecond) * BigInt(duration)
+  const marketplaceFeeAmount = getAmountFromPercentage(totalFeeAmount, marketplaceFeePercentageInWei)
+  const royaltyAmount = getAmountFromPercentage(totalFeeAmount, royaltyInfo.royaltyPercentageInWei)
+  const isNativeToken = offer.feeTokenAddress === AddressZero
+
+  return {
+    totalFeeAmount,
+    marketplaceFeeAmount,
+    royaltyAmount,
+    lenderAmount: totalFeeAmount - marketplaceFeeAmount - royaltyAmount,
+    marketplaceTreasury: await marketplace.owner(),
+    royaltyTreasury: royaltyInfo.treasury,
+    msgValue: isNativeToken ? totalFeeAmount : BigInt(0),
+    allowance: isNativeToken ? BigInt(0) : totalFeeAmount,
+  }
+}
+
+/**
+ * @dev Same truncation as getAmountFromPercentage in LibNftRentalMarketplace and LibOriumSftMarketplace
+ * @param amount The total amount
+ * @param percentage The percentage in wei, where 100 ether is 100%
+ * @returns The amount corresponding to the percentage
+ */
+export function getAmountFromPercentage(amount: bigint, percentage: bigint) {
+  return (amount * percentage) / MAX_PERCENTAGE
+}
@@ -1,5 +1,30 @@
 import { AbiCoder, keccak256 } from 'ethers'
-import { DirectRental } from './types'
+import { DirectRental, RentalOffer, SftRentalOffer } from './types'
+import { toNftRentalOfferTuple, toSftRentalOfferTuple } from './rental-offer'
+
+// Field types of LibNftRentalMarketplace.RentalOffer, in declaration order
+const NFT_RENTAL_OFFER_TUPLE =
+  'tuple(address lender, address borrower, address tokenAddress, uint256 tokenId, address feeTokenAddress, uint256 feeAmountPerSecond, uint256 nonce, uint64 deadline, uint64 minDuration, bytes32[] roles, bytes[] rolesData)'
+
+// Field types of LibOriumSftMarketplace.RentalOffer, in declaration order
+const SFT_RENTAL_OFFER_TUPLE =
+  'tuple(address lender, address borrower, address tokenAddress, uint256 tokenId, uint256 tokenAmount, address feeTokenAddress, uint256 feeAmountPerSecond, uint256 nonce, uint256 commitmentId, uint64 deadline, uint64 minDuration, bytes32[] roles, bytes[] rolesData)'
+
+// Field types used by LibOriumSftMarketplace.hashRentalOffer for offers created before minDuration existed
+const LEGACY_SFT_RENTAL_OFFER_FIELDS = [
+  'address',
+  'address',
+  'address',
+  'uint256',
+  'uint256',
+  'address',
+  'uint256',
+  'uint256',
+  'uint256',
+  'uint64',
+  'bytes32[]',
+  'bytes[]',
+]
 
 export function hashDirectRental(directRental: DirectRental) {
   const encodedDirectRental = AbiCoder.defaultAbiCoder().encode(
@@ -17,3 +42,47 @@ export function hashDirectRental(directRental: DirectRental) {
 
   return keccak256(encodedDirectRental)
 }
+
+/**
+ * @notice Gets the hash of an NftRentalMarketplace rental offer
+ * @dev Mirrors LibNftRentalMarketplace.hashRentalOffer, which is the key of `isCreated` and `rentals`
+ * @param offer The rental offer
+ * @returns The offer hash
+ */
+export function hashNftRentalOffer(offer: RentalOffer) {
+  const encodedOffer = AbiCoder.defaultAbiCoder().encode([NFT_RENTAL_OFFER_TUPLE], [toNftRentalOfferTuple(offer)])
+
+  return keccak256(encodedOffer)
+}
+
+/**
+ * @notice Gets the hash of an OriumSftMarketplace rental offer
+ * @dev Mirrors LibOriumSftMarketplace.hashRentalOffer, including the field-by-field
+ * encoding kept for offers with minDuration equal to 0
+ * @param offer The rental offer
+ * @returns The offer hash
+ */
+export function hashSftRentalOffer(offer: SftRentalOffer) {
+  const abiCoder = AbiCoder.defaultAbiCoder()
+
+  if (BigInt(offer.minDuration) === BigInt(0)) {
+    return keccak256(
+      abiCoder.encode(LEGACY_SFT_RENTAL_OFFER_FIELDS, [
+        offer.lender,
+        offer.borrower,
+        offer.tokenAddress,
+        offer.tokenId,
+        offer.tokenAmount,
+        offer.feeTokenAddress,
+        offer.feeAmountPerSecond,
+        offer.nonce,
+        offer.commitmentId,
+        offer.deadline,
+        offer.roles,
+        offer.rolesData,
+      ]),
+    )
+  }
+
+  return keccak256(abiCoder.encode([SFT_RENTAL_OFFER_TUPLE], [toSftRentalOfferTuple(offer)]))
+}
@@ -1,13 +1,21 @@
 import * as fs from 'fs'
 import * as path from 'path'
 
+/**
+ * @notice Sets the top-level entries of a JSON file
+ * @dev Entries of obj replace the entries with the same key. The file is created when it does not exist
+ * @param fileName The JSON file
+ * @param obj The entries to set
+ */
 export function updateJsonFile(fileName: string, obj: any) {
   const filePath = path.resolve(fileName)
   console.log(filePath)
+  let json = {}
   if (fs.existsSync(filePath)) {
-    const file = fs.readFileSync(filePath).toString()
-    let json = JSON.parse(file)
-    json = Object.assign(json, obj)
-    fs.writeFileSync(filePath, JSON.stringify(json, null, '\t'))
+    json = JSON.parse(fs.readFileSync(filePath).toString())
+  } else {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
   }
+  json = Object.assign(json, obj)
+  fs.writeFileSync(filePath, JSON.stringify(json, null, '\t'))
 }
@@ -0,0 +1,421 @@
+import { ethers } from 'hardhat'
+import {
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Interface,
+  Log,
+  LogDescription,
+  Overrides,
+  Signer,
+} from 'ethers'
+import config, { Network } from '../addresses'
+import {
+  CommitAndGrantRoleParams,
+  GrantRoleParams,
+  ReleaseTokensParams,
+  RentalOffer,
+  RevokeRoleParams,
+  SftRentalOffer,
+  SftRevokeRoleParams,
+} from './types'
+import { hashNftRentalOffer, hashSftRentalOffer } from './hash'
+import { rentalOfferIdOf } from './offer-id'
+import { isSftRentalOffer } from './rental-offer'
+import { quoteRental, RentalQuote } from './fee-quote'
+import { resolveRentalStatus, RentalStatusReport } from './rental-status'
+import { withRevertDecoding } from './errors'
+import { recordTransaction } from './audit-journal'
+import { getSigner } from './signer'
+import { sendModeOf } from './write-contract'
+import {
+  RentalOfferValidationError,
+  RentalOfferViolation,
+  validateNftRentalOffer,
+  validateSftRentalOffer,
+} from './validate-rental-offer'
+import {
+  IERC7432__factory,
+  IERC7589__factory,
+  IERC7589Legacy__factory,
+  NftRentalMarketplace,
+  NftRentalMarketplace__factory,
+  OriumMarketplaceRoyalties,
+  OriumSftMarketplace,
+  OriumSftMarketplace__factory,
+} from '../typechain-types'
+
+// Interfaces used to decode the logs of marketplace transactions, including the ones emitted by the roles registries
+const EVENT_INTERFACES: Interface[] = [
+  NftRentalMarketplace__factory.createInterface(),
+  OriumSftMarketplace__factory.createInterface(),
+  IERC7432__factory.createInterface(),
+  IERC7589__factory.createInterface(),
+  IERC7589Legacy__factory.createInterface(),
+]
+
+export interface TransactionResult {
+  receipt: ContractTransactionReceipt
+  events: LogDescription[]
+}
+
+export interface OfferTransactionResult extends TransactionResult {
+  offerId: string
+}
+
+export interface CreateOfferResult<T extends RentalOffer> extends OfferTransactionResult {
+  // for SFT offers created with commitmentId 0, the offer carries the commitmentId assigned by the roles registry
+  offer: T
+  offerHash: string
+}
+
+export interface AcceptOfferResult extends OfferTransactionResult {
+  borrower: string
+  expirationDate: number
+  quote: RentalQuote
+}
+
+/**
+ * @notice Typed wrapper around NftRentalMarketplace and OriumSftMarketplace
+ * @dev Offers are routed to the SFT marketplace when they have tokenAmount and commitmentId, and to the NFT marketplace otherwise.
+ * Results are read from the receipts, so the client throws in dry-run and export modes instead of sending, see
+ * callContractFunctions to simulate or export marketplace calls
+ */
+export class MarketplaceClient {
+  private constructor(
+    readonly signer: Signer,
+    readonly marketplaceRoyalties: OriumMarketplaceRoyalties,
+    private readonly nftMarketplace?: NftRentalMarketplace,
+    private readonly sftMarketplace?: OriumSftMarketplace,
+  ) {}
+
+  /**
+   * @notice Creates a client for the marketplaces deployed on a network
+   * @dev Addresses are read from addresses/index.ts, marketplaces missing on the network are left unavailable. The
+   * hardhat and localhost networks fork Polygon, so they use the addresses of FORK_NETWORK (polygon by default)
+   * @param network The network name
+   * @param signer The signer sending the transactions, defaults to the signer of the network, see getSigner
+   * @returns The client
+   * @throws Error when the network has no addresses or OriumMarketplaceRoyalties is not deployed on it
+   */
+  static async create(network: string, signer?: Signer) {
+    const addressesNetwork =
+      network === 'hardhat' || network === 'localhost' ? process.env.FORK_NETWORK ?? 'polygon' : network
+    if (!(addressesNetwork in config)) {
+      throw new Error(`No addresses for ${addressesNetwork} network, expected one of ${Object.keys(config).join(', ')}`)
+    }
+    const addresses: Partial<Record<string, { address: string }>> = config[addressesNetwork as Network]
+    const marketplaceRoyaltiesAddress = addresses.OriumMarketplaceRoyalties?.address
+    if (!marketplaceRoyaltiesAddress) {
+      throw new Error(`OriumMarketplaceRoyalties is not deployed on ${addressesNetwork} network`)
+    }
+
+    return MarketplaceClient.fromAddresses(
+      {
+        oriumMarketplaceRoyalties: marketplaceRoyaltiesAddress,
+        nftRentalMarketplace: addresses.NftRentalMarketplace?.address,
+        oriumSftMarketplace: addresses.OriumSftMarketplace?.address,
+      },
+      signer,
+    )
+  }
+
+  /**
+   * @notice Creates a client for marketplaces at custom addresses, e.g. deployed on a fork or in tests
+   * @param addresses The contract addresses, marketplaces left undefined are unavailable
+   * @param signer The signer sending the transactions, defaults to the signer of the network, see getSigner
+   * @returns The client
+   */
+  static async fromAddresses(
+    addresses: { oriumMarketplaceRoyalties: string; nftRentalMarketplace?: string; oriumSftMarketplace?: string },
+    signer?: Signer,
+  ) {
+    const runner = signer ?? (await getSigner())
+    const { oriumMarketplaceRoyalties, nftRentalMarketplace, oriumSftMarketplace } = addresses
+
+    return new MarketplaceClient(
+      runner,
+      await ethers.getContractAt('OriumMarketplaceRoyalties', oriumMarketplaceRoyalties, runner),
+      nftRentalMarketplace
+        ? await ethers.getContractAt('NftRentalMarketplace', nftRentalMarketplace, runner)
+        : undefined,
+      oriumSftMarketplace ? await ethers.getContractAt('OriumSftMarketplace', oriumSftMarketplace, runner) : undefined,
+    )
+  }
+
+  get nftRentalMarketplace(): NftRentalMarketplace {
+    if (!this.nftMarketplace) throw new Error('NftRentalMarketplace is not deployed on this network')
+    return this.nftMarketplace
+  }
+
+  get oriumSftMarketplace(): OriumSftMarketplace {
+    if (!this.sftMarketplace) throw new Error('OriumSftMarketplace is not deployed on this network')
+    return this.sftMarketplace
+  }
+
+  /**
+   * @notice Gets the roles registry the marketplaces use for a token
+   * @param tokenAddress The token address
+   * @param isSft Whether to resolve the SFT roles registry instead of the NFT one
+   * @returns The roles registry address
+   */
+  async rolesRegistryOf(tokenAddress: string, isSft: boolean) {
+    return isSft
+      ? this.marketplaceRoyalties.sftRolesRegistryOf(tokenAddress)
+      : this.marketplaceRoyalties.nftRolesRegistryOf(tokenAddress)
+  }
+
+  /**
+   * @notice Checks a rental offer against the createRentalOffer rules of its marketplace
+   * @param offer The rental offer
+   * @returns Every violation found, empty if the offer is valid
+   */
+  async validateOffer(offer: RentalOffer | SftRentalOffer): Promise<RentalOfferViolation[]> {
+    const sender = await this.signer.getAddress()
+    return isSftRentalOffer(offer)
+      ? validateSftRentalOffer(this.oriumSftMarketplace, offer, sender)
+      : validateNftRentalOffer(this.nftRentalMarketplace, offer, sender)
+  }
+
+  /**
+   * @notice Resolves the lifecycle state of a rental offer
+   * @param offer The rental offer
+   * @param fromBlock The first block to search for RentalEnded events
+   * @returns The status, the relevant timestamps and the role expirations on the roles registry
+   */
+  async getStatus(offer: RentalOffer | SftRentalOffer, fromBlock?: number): Promise<RentalStatusReport> {
+    return resolveRentalStatus(this.marketplaceOf(offer), offer, fromBlock)
+  }
+
+  /**
+   * @notice Creates a rental offer
+   * @dev The offer is validated first, so invalid offers throw a RentalOfferValidationError with every violation
+   * before any gas is spent
+   * @param offer The rental offer
+   * @param overrides Optional transaction overrides
+   * @returns The receipt, the parsed events, the offer ID and the offer as stored by the marketplace
+   */
+  async createOffer<T extends RentalOffer | SftRentalOffer>(
+    offer: T,
+    overrides: Overrides = {},
+  ): Promise<CreateOfferResult<T>> {
+    const violations = await this.validateOffer(offer)
+    if (violations.length > 0) throw new RentalOfferValidationError(violations)
+
+    const marketplace = this.marketplaceOf(offer)
+    const result = await this.send(() => marketplace.createRentalOffer(offer as SftRentalOffer, overrides))
+    const createdOffer = { ...offer }
+    if (isSftRentalOffer(createdOffer)) {
+      createdOffer.commitmentId = findEvent(result.events, 'RentalOfferCreated').args.commitmentId
+    }
+
+    return {
+      ...result,
+      offer: createdOffer,
+      offerId: rentalOfferIdOf(await marketplace.getAddress(), offer),
+      offerHash: isSftRentalOffer(createdOffer) ? hashSftRentalOffer(createdOffer) : hashNftRentalOffer(createdOffer),
+    }
+  }
+
+  /**
+   * @notice Accepts a rental offer, sending the native token amount required by the fee token
+   * @dev ERC-20 fees must be approved beforehand, see quote.allowance in the result
+   * @param offer The rental offer
+   * @param duration The rental duration in seconds
+   * @param overrides Optional transaction overrides
+   * @returns The receipt, the parsed events, the offer ID, the rental expiration date and the fee quote
+   */
+  async acceptOffer(
+    offer: RentalOffer | SftRentalOffer,
+    duration: number,
+    overrides: Overrides = {},
+  ): Promise<AcceptOfferResult> {
+    const marketplace = this.marketplaceOf(offer)
+    const quote = await quoteRental(marketplace, offer, duration)
+    const result = await this.send(() =>
+      marketplace.acceptRentalOffer(offer as SftRentalOffer, duration, { ...overrides, value: quote.msgValue }),
+    )
+    const rentalStarted = findEvent(result.events, 'RentalStarted')
+
+    return {
+      ...result,
+      offerId: rentalOfferIdOf(await marketplace.getAddress(), offer),
+      borrower: rentalStarted.args.borrower,
+      expirationDate: Number(rentalStarted.args.expirationDate),
+      quote,
+    }
+  }
+
+  /**
+   * @notice Cancels an NftRentalMarketplace offer or delists an OriumSftMarketplace offer
+   * @param offer The rental offer
+   * @param overrides Optional transaction overrides
+   * @returns The receipt, the parsed events and the offer ID
+   */
+  async cancelOffer(offer: RentalOffer | SftRentalOffer, overrides: Overrides = {}): Promise<OfferTransactionResult> {
+    const marketplace = this.marketplaceOf(offer)
+    const result = await this.send(() =>
+      isSftRentalOffer(offer)
+        ? this.oriumSftMarketplace.delistRentalOffer(offer, overrides)
+        : this.nftRentalMarketplace.cancelRentalOffer(offer, overrides),
+    )
+    return { ...result, offerId: rentalOfferIdOf(await marketplace.getAddress(), offer) }
+  }
+
+  /**
+   * @notice Same as cancelOffer, named after OriumSftMarketplace.delistRentalOffer
+   */
+  async delistOffer(offer: RentalOffer | SftRentalOffer, overrides: Overrides = {}): Promise<OfferTransactionResult> {
+    return this.cancelOffer(offer, overrides)
+  }
+
+  /**
+   * @notice Cancels or delists a rental offer and withdraws the tokens from the roles registry
+   * @param offer The rental offer
+   * @param overrides Optional transaction overrides
+   * @returns The receipt, the parsed events and the offer ID
+   */
+  async cancelAndWithdraw(
+    offer: RentalOffer | SftRentalOffer,
+    overrides: Overrides = {},
+  ): Promise<OfferTransactionResult> {
+    const marketplace = this.marketplaceOf(offer)
+    const result = await this.send(() =>
+      isSftRentalOffer(offer)
+        ? this.oriumSftMarketplace.delistRentalOfferAndWithdraw(offer, overrides)
+        : this.nftRentalMarketplace.cancelRentalOfferAndWithdraw(offer, overrides),
+    )
+    return { ...result, offerId: rentalOfferIdOf(await marketplace.getAddress(), offer) }
+  }
+
+  /**
+   * @notice Ends a rental before its expiration date
+   * @dev Can only be called by the borrower
+   * @param offer The rental offer
+   * @param overrides Optional transaction overrides
+   * @returns The receipt, the parsed events and the offer ID
+   */
+  async endRental(offer: RentalOffer | SftRentalOffer, overrides: Overrides = {}): Promise<OfferTransactionResult> {
+    const marketplace = this.marketplaceOf(offer)
+    const result = await this.send(() => marketplace.endRental(offer as SftRentalOffer, overrides))
+    return { ...result, offerId: rentalOfferIdOf(await marketplace.getAddress(), offer) }
+  }
+
+  /**
+   * @notice Grants roles directly, without a rental offer
+   * @dev NFT params use NftRentalMarketplace.batchGrantRole, SFT params use OriumSftMarketplace.batchCommitTokensAndGrantRole
+   * @param params The roles to grant
+   * @param overrides Optional transaction overrides
+   * @returns The receipt and the parsed events
+   */
+  async batchGrantRole(
+    params: GrantRoleParams[] | CommitAndGrantRoleParams[],
+    overrides: Overrides = {},
+  ): Promise<TransactionResult> {
+    if (params.length > 0 && 'commitmentId' in params[0]) {
+      return this.send(() =>
+        this.oriumSftMarketplace.batchCommitTokensAndGrantRole(params as CommitAndGrantRoleParams[], overrides),
+      )
+    }
+    return this.send(() => this.nftRentalMarketplace.batchGrantRole(params as GrantRoleParams[], overrides))
+  }
+
+  /**
+   * @notice Revokes roles in a single transaction
+   * @dev The sender must be the owner or grantor and approve the marketplace in the roles registry
+   * @param params The roles to revoke, NFT or SFT
+   * @param overrides Optional transaction overrides
+   * @returns The receipt and the parsed events
+   */
+  async batchRevokeRole(
+    params: RevokeRoleParams[] | SftRevokeRoleParams[],
+    overrides: Overrides = {},
+  ): Promise<TransactionResult> {
+    if (params.length > 0 && 'commitmentId' in params[0]) {
+      const sftParams = params as SftRevokeRoleParams[]
+      return this.send(() =>
+        this.oriumSftMarketplace.batchRevokeRole(
+          sftParams.map(param => param.commitmentId),
+          sftParams.map(param => param.role),
+          sftParams.map(param => param.grantee),
+          sftParams.map(param => param.tokenAddress),
+          overrides,
+        ),
+      )
+    }
+
+    const nftParams = params as RevokeRoleParams[]
+    return this.send(() =>
+      this.nftRentalMarketplace.batchRevokeRole(
+        nftParams.map(param => param.tokenAddress),
+        nftParams.map(param => param.tokenId),
+        nftParams.map(param => param.roleId),
+        overrides,
+      ),
+    )
+  }
+
+  /**
+   * @notice Releases committed tokens back to the grantor
+   * @dev Only available on OriumSftMarketplace
+   * @param params The commitments to release
+   * @param overrides Optional transaction overrides
+   * @returns The receipt and the parsed events
+   */
+  async batchReleaseTokens(params: ReleaseTokensParams[], overrides: Overrides = {}): Promise<TransactionResult> {
+    return this.send(() =>
+      this.oriumSftMarketplace.batchReleaseTokens(
+        params.map(param => param.tokenAddress),
+        params.map(param => param.commitmentId),
+        overrides,
+      ),
+    )
+  }
+
+  private marketplaceOf(offer: RentalOffer | SftRentalOffer): NftRentalMarketplace | OriumSftMarketplace {
+    return isSftRentalOffer(offer) ? this.oriumSftMarketplace : this.nftRentalMarketplace
+  }
+
+  private async send(transaction: () => Promise<ContractTransactionResponse>): Promise<TransactionResult> {
+    const mode = sendModeOf()
+    if (mode !== 'send') {
+      throw new Error(`MarketplaceClient cannot send transactions in ${mode} mode, unset DRY_RUN and EXPORT_UNSIGNED`)
+    }
+    const receipt = await withRevertDecoding(async () => (await transaction()).wait())
+    if (!receipt) throw new Error('Transaction was not mined')
+    recordTransaction({ transactionHash: receipt.hash })
+    return { receipt, events: parseEvents(receipt) }
+  }
+}
+
+/**
+ * @notice Decodes the logs of a transaction sent to either marketplace
+ * @dev Logs from contracts outside the marketplaces and roles registries are skipped
+ * @param receipt The transaction receipt
+ * @returns The decoded events, in log order
+ */
+export function parseEvents(receipt: ContractTransactionReceipt): LogDescription[] {
+  const events: LogDescription[] = []
+  for (const log of receipt.logs) {
+    const event = parseLog(log)
+    if (event) events.push(event)
+  }
+  return events
+}
+
+function parseLog(log: Log) {
+  for (const eventInterface of EVENT_INTERFACES) {
+    try {
+      const event = eventInterface.parseLog(log)
+      if (event) return event
+    } catch {
+      // same topic with a different set of indexed arguments, try the next interface
+    }
+  }
+  return undefined
+}
+
+function findEvent(events: LogDescription[], name: string) {
+  const event = events.find(event => event.name === name)
+  if (!event) throw new Error(`${name} event not found`)
+  return event
+}
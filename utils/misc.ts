@@ -1,4 +1,5 @@
 import * as readline from 'readline'
+import { recordConfirmation } from './audit-journal'
 /**
  * List of colors to be used in the `print` function
  */
@@ -48,8 +49,28 @@ export function print(color: string, message: string, breakLine = false) {
   console.log(`${color}${message}${colors.close}${lb}`)
 }
 
+// Networks where non-interactive mode is always allowed
+const LOCAL_NETWORKS = ['hardhat', 'localhost']
+
+// Non-interactive mode auto-confirms, set NON_INTERACTIVE=true to run the scripts in CI or scheduled jobs
+export function isNonInteractive() {
+  return process.env.NON_INTERACTIVE === 'true'
+}
+
 // Expects the user to answer "yes". If they don't, the process is killed.
-export async function confirmOrDie(query: string) {
+// In non-interactive mode, confirms automatically on the networks of NON_INTERACTIVE_NETWORKS and dies on the others.
+// Every confirmation is recorded in the audit journal with its arguments.
+export async function confirmOrDie(query: string, args?: unknown) {
+  const network = await networkName()
+
+  if (isNonInteractive()) {
+    assertNonInteractiveNetwork(network, query, args)
+    print(colors.h_red, `✋ ${query}`)
+    print(colors.green, `Confirmed by non-interactive mode! Continuing...`)
+    recordConfirmation(network, 'non-interactive', query, 'auto', args)
+    return
+  }
+
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -65,14 +86,25 @@ export async function confirmOrDie(query: string) {
   )
 
   if (answer !== 'yes') {
+    recordConfirmation(network, 'interactive', query, 'no', args)
     print(colors.warn, `Aborted by the operator.`)
     process.exit(1)
   } else {
+    recordConfirmation(network, 'interactive', query, 'yes', args)
     print(colors.green, `Confirmed! Continuing...`)
   }
 }
 
-export async function yesOrNo(query: string) {
+export async function yesOrNo(query: string, args?: unknown) {
+  const network = await networkName()
+
+  if (isNonInteractive()) {
+    assertNonInteractiveNetwork(network, query, args)
+    print(colors.cyan, `✋ ${query}`)
+    recordConfirmation(network, 'non-interactive', query, 'auto', args)
+    return true
+  }
+
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -88,8 +120,26 @@ export async function yesOrNo(query: string) {
   )
 
   if (answer !== 'yes') {
+    recordConfirmation(network, 'interactive', query, 'no', args)
     return false
   } else {
+    recordConfirmation(network, 'interactive', query, 'yes', args)
     return true
   }
 }
+
+// Kills the process when non-interactive mode is not allowed on the network, see NON_INTERACTIVE_NETWORKS
+function assertNonInteractiveNetwork(network: string, query: string, args: unknown) {
+  const allowedNetworks = (process.env.NON_INTERACTIVE_NETWORKS ?? '').split(',').map(name => name.trim())
+  if (LOCAL_NETWORKS.includes(network) || allowedNetworks.includes(network)) return
+
+  recordConfirmation(network, 'non-interactive', query, 'refused', args)
+  print(colors.error, `Non-interactive mode is not allowed on ${network} network, add it to NON_INTERACTIVE_NETWORKS`)
+  process.exit(1)
+}
+
+// Hardhat is only loaded when a confirmation is asked, so this file can be imported by the tasks
+async function networkName() {
+  const { network } = await import('hardhat')
+  return network.name
+}
@@ -0,0 +1,94 @@
+import { ethers, Log } from 'ethers'
+import { RentalOffer } from './types'
+import { NftRentalMarketplace__factory, OriumSftMarketplace__factory } from '../typechain-types'
+
+// Both marketplaces identify offers as `marketplace-lender-nonce`, with lowercase addresses and a decimal nonce
+const RENTAL_OFFER_ID_SEPARATOR = '-'
+
+const MARKETPLACE_INTERFACES = [
+  NftRentalMarketplace__factory.createInterface(),
+  OriumSftMarketplace__factory.createInterface(),
+]
+
+export interface RentalOfferId {
+  marketplace: string
+  lender: string
+  nonce: bigint
+}
+
+/**
+ * @notice Formats a rental offer ID in its canonical form
+ * @param id The marketplace address, lender address and nonce of the offer
+ * @returns The rental offer ID
+ */
+export function formatRentalOfferId(id: { marketplace: string; lender: string; nonce: string | bigint }) {
+  return [parseAddress(id.marketplace), parseAddress(id.lender), parseNonce(id.nonce.toString()).toString()].join(
+    RENTAL_OFFER_ID_SEPARATOR,
+  )
+}
+
+/**
+ * @notice Parses a rental offer ID
+ * @dev Addresses are accepted in any case and the nonce in decimal or 0x-prefixed hexadecimal
+ * @param rentalOfferId The rental offer ID
+ * @returns The marketplace address, lender address and nonce, with lowercase addresses
+ */
+export function parseRentalOfferId(rentalOfferId: string): RentalOfferId {
+  const parts = rentalOfferId.trim().split(RENTAL_OFFER_ID_SEPARATOR)
+  if (parts.length !== 3) {
+    throw new Error(`Invalid rental offer ID "${rentalOfferId}": expected marketplace-lender-nonce`)
+  }
+
+  const [marketplace, lender, nonce] = parts
+  return { marketplace: parseAddress(marketplace), lender: parseAddress(lender), nonce: parseNonce(nonce) }
+}
+
+/**
+ * @notice Converts a rental offer ID to its canonical form
+ * @param rentalOfferId The rental offer ID, in any accepted case and nonce radix
+ * @returns The canonical rental offer ID
+ */
+export function normalizeRentalOfferId(rentalOfferId: string) {
+  return formatRentalOfferId(parseRentalOfferId(rentalOfferId))
+}
+
+/**
+ * @notice Gets the ID of a rental offer
+ * @param marketplaceAddress The address of the NftRentalMarketplace or OriumSftMarketplace holding the offer
+ * @param offer The rental offer
+ * @returns The canonical rental offer ID
+ */
+export function rentalOfferIdOf(marketplaceAddress: string, offer: RentalOffer) {
+  return formatRentalOfferId({ marketplace: marketplaceAddress, lender: offer.lender, nonce: offer.nonce })
+}
+
+/**
+ * @notice Gets the ID of a rental offer from its RentalOfferCreated log
+ * @dev Works for logs of both NftRentalMarketplace and OriumSftMarketplace, the marketplace is the log emitter
+ * @param log The RentalOfferCreated log
+ * @returns The canonical rental offer ID
+ */
+export function rentalOfferIdFromLog(log: Log) {
+  for (const marketplaceInterface of MARKETPLACE_INTERFACES) {
+    const event = marketplaceInterface.parseLog(log)
+    if (event?.name === 'RentalOfferCreated') {
+      return formatRentalOfferId({ marketplace: log.address, lender: event.args.lender, nonce: event.args.nonce })
+    }
+  }
+
+  throw new Error(`Log ${log.index} of transaction ${log.transactionHash} is not a RentalOfferCreated event`)
+}
+
+function parseAddress(address: string) {
+  if (!ethers.isAddress(address.toLowerCase())) {
+    throw new Error(`Invalid address "${address}" in rental offer ID`)
+  }
+  return address.toLowerCase()
+}
+
+function parseNonce(nonce: string) {
+  if (!/^(0x[0-9a-f]+|[0-9]+)$/i.test(nonce)) {
+    throw new Error(`Invalid nonce "${nonce}" in rental offer ID`)
+  }
+  return BigInt(nonce.toLowerCase())
+}
@@ -0,0 +1,199 @@
+import { ethers } from 'hardhat'
+import { mkdirSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { Transaction } from 'ethers'
+import { colors, print } from './misc'
+import { withRevertDecoding } from './errors'
+
+export interface UnsignedTransactionRequest {
+  description: string
+  // undefined for contract deployments
+  to?: string
+  data: string
+  value?: bigint
+  // used when the gas cannot be estimated, e.g. when the transaction calls a contract deployed earlier in the same export
+  fallbackGasLimit?: bigint
+}
+
+export interface UnsignedTransaction {
+  description: string
+  chainId: string
+  from: string
+  to: string | null
+  data: string
+  value: string
+  nonce: number
+  gasLimit: string
+  type: 0 | 2
+  // EIP-1559 fee fields, gasPrice on networks without EIP-1559
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+  gasPrice?: string
+  // address of the contract deployed by the transaction
+  contractAddress?: string
+  // RLP-encoded unsigned transaction, for offline signers that sign raw payloads
+  unsignedSerialized: string
+}
+
+export interface ExportOptions {
+  // the account that will sign the transactions
+  from: string
+  // folder the JSON files are written to
+  directory: string
+  CUSTOM_FEE_DATA?: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+}
+
+/**
+ * @notice Reads the export options from the EXPORT_UNSIGNED and EXPORT_FROM environment variables
+ * @param defaultFrom Resolves the signing account when EXPORT_FROM is not set
+ * @returns The export options, or undefined when EXPORT_UNSIGNED is not set
+ */
+export async function exportOptionsFromEnv(defaultFrom: () => Promise<string>): Promise<ExportOptions | undefined> {
+  const directory = process.env.EXPORT_UNSIGNED
+  if (!directory) return undefined
+  return { directory, from: process.env.EXPORT_FROM ?? (await defaultFrom()) }
+}
+
+/**
+ * @notice Builds unsigned transactions with consecutive nonces, starting at the pending nonce of the signing account
+ * @dev Each transaction is estimated alone, so a transaction that depends on a previous one of the same list needs a
+ * fallbackGasLimit. Contract addresses of deployments are computed from the nonces
+ * @param requests The transactions to build, in the order they must be sent
+ * @param options The signing account and the custom fee data
+ * @returns The unsigned transactions
+ * @throws MarketplaceError when a transaction without fallbackGasLimit reverts
+ */
+export async function buildUnsignedTransactions(
+  requests: UnsignedTransactionRequest[],
+  options: Pick<ExportOptions, 'from' | 'CUSTOM_FEE_DATA'>,
+): Promise<UnsignedTransaction[]> {
+  const from = ethers.getAddress(options.from)
+  const { chainId } = await ethers.provider.getNetwork()
+  const fees = await feesOf(options.CUSTOM_FEE_DATA)
+  const firstNonce = await ethers.provider.getTransactionCount(from, 'pending')
+
+  const transactions: UnsignedTransaction[] = []
+  for (const [index, request] of requests.entries()) {
+    const nonce = firstNonce + index
+    const value = request.value ?? BigInt(0)
+    const gasLimit = await estimateGas(request, from, value)
+
+    const unsignedSerialized = Transaction.from({
+      chainId,
+      to: request.to ?? null,
+      data: request.data,
+      value,
+      nonce,
+      gasLimit,
+      ...fees,
+    }).unsignedSerialized
+
+    transactions.push({
+      description: request.description,
+      chainId: chainId.toString(),
+      from,
+      to: request.to ?? null,
+      data: request.data,
+      value: value.toString(),
+      nonce,
+      gasLimit: gasLimit.toString(),
+      type: fees.type,
+      maxFeePerGas: fees.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas?.toString(),
+      gasPrice: fees.gasPrice?.toString(),
+      contractAddress: request.to ? undefined : ethers.getCreateAddress({ from, nonce }),
+      unsignedSerialized,
+    })
+  }
+  return transactions
+}
+
+/**
+ * @notice Writes each unsigned transaction to a JSON file named after its nonce
+ * @param directory The folder to write to, created when missing
+ * @param transactions The transactions built by buildUnsignedTransactions
+ * @returns The paths of the written files
+ */
+export function writeUnsignedTransactions(directory: string, transactions: UnsignedTransaction[]): string[] {
+  mkdirSync(directory, { recursive: true })
+  return transactions.map(transaction => {
+    const slug = transaction.description.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '')
+    const file = join(directory, `${transaction.nonce}-${slug}.json`)
+    writeFileSync(file, JSON.stringify(transaction, null, 2) + '\n')
+    return file
+  })
+}
+
+/**
+ * @notice Builds, writes and prints unsigned transactions
+ * @param requests The transactions to export, in the order they must be sent
+ * @param options The signing account, the folder and the custom fee data
+ * @returns The unsigned transactions
+ */
+export async function exportUnsignedTransactions(
+  requests: UnsignedTransactionRequest[],
+  options: ExportOptions,
+): Promise<UnsignedTransaction[]> {
+  const transactions = await buildUnsignedTransactions(requests, options)
+  const files = writeUnsignedTransactions(options.directory, transactions)
+  transactions.forEach((transaction, index) => {
+    print(colors.highlight, `Nonce ${transaction.nonce}: ${transaction.description}`)
+    if (transaction.contractAddress) print(colors.cyan, `Deploys ${transaction.contractAddress}`)
+    print(colors.success, `Unsigned transaction saved to ${files[index]}`)
+  })
+  print(colors.warn, `Sign the transactions with ${transactions[0]?.from} and broadcast them in nonce order`)
+  return transactions
+}
+
+/**
+ * @notice Broadcasts a signed raw transaction and waits for its receipt
+ * @param transaction The signed transaction, decoded by parseSignedTransaction
+ * @param confirmations The number of blocks to wait for
+ * @returns The receipt of the transaction
+ * @throws Error when the transaction reverts
+ */
+export async function broadcastSignedTransaction(transaction: Transaction, confirmations = 1) {
+  const response = await ethers.provider.broadcastTransaction(transaction.serialized)
+  print(colors.highlight, `Waiting for transaction ${response.hash} to be mined...`)
+  const receipt = await response.wait(confirmations)
+  if (!receipt) throw new Error('Transaction was not mined')
+  return receipt
+}
+
+/**
+ * @notice Decodes a signed raw transaction and checks that it can be sent to the current network
+ * @param signedTransaction The RLP-encoded signed transaction, as a hex string
+ * @returns The decoded transaction
+ * @throws Error when the transaction is not signed or is signed for another chain
+ */
+export async function parseSignedTransaction(signedTransaction: string): Promise<Transaction> {
+  const transaction = Transaction.from(signedTransaction.trim())
+  if (!transaction.isSigned()) throw new Error('The transaction is not signed')
+  const { chainId } = await ethers.provider.getNetwork()
+  if (transaction.chainId !== chainId) {
+    throw new Error(`The transaction is signed for chain ${transaction.chainId}, not ${chainId}`)
+  }
+  return transaction
+}
+
+async function feesOf(customFeeData: ExportOptions['CUSTOM_FEE_DATA']) {
+  const feeData = customFeeData ?? (await ethers.provider.getFeeData())
+  if (feeData.maxFeePerGas != null && feeData.maxPriorityFeePerGas != null) {
+    const { maxFeePerGas, maxPriorityFeePerGas } = feeData
+    return { type: 2 as const, maxFeePerGas, maxPriorityFeePerGas, gasPrice: undefined }
+  }
+  // networks without EIP-1559
+  const { gasPrice } = await ethers.provider.getFeeData()
+  return { type: 0 as const, gasPrice: gasPrice ?? undefined, maxFeePerGas: undefined, maxPriorityFeePerGas: undefined }
+}
+
+async function estimateGas(request: UnsignedTransactionRequest, from: string, value: bigint): Promise<bigint> {
+  const estimate = () => ethers.provider.estimateGas({ from, to: request.to, data: request.data, value })
+  if (request.fallbackGasLimit === undefined) return withRevertDecoding(estimate)
+  try {
+    return await estimate()
+  } catch {
+    print(colors.warn, `Could not estimate the gas of "${request.description}", using ${request.fallbackGasLimit}`)
+    return request.fallbackGasLimit
+  }
+}
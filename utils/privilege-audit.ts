@@ -0,0 +1,113 @@
+import { ethers, upgrades } from 'hardhat'
+import { AddressBook } from '../addresses'
+import { AddressZero } from './constants'
+import { readRoyaltiesConfig, ReadRoyaltiesConfigOptions } from './royalties-config'
+import { OriumMarketplaceRoyalties } from '../typechain-types'
+
+const AUDITED_CONTRACTS = ['OriumSftMarketplace', 'NftRentalMarketplace', 'OriumMarketplaceRoyalties']
+const OWNABLE_ABI = ['function owner() view returns (address)']
+const PAUSABLE_ABI = ['function paused() view returns (bool)']
+
+export type PrivilegeType = 'owner' | 'proxy admin' | 'proxy admin owner' | 'royalty creator'
+
+export interface Privilege {
+  contractName: string
+  privilege: PrivilegeType
+  // the collection of a royalty creator
+  subject?: string
+  // "unreadable" when the call reverts
+  holder: string
+  // not held by the Multisig
+  flagged: boolean
+}
+
+export interface AuditedContract {
+  contractName: string
+  address: string
+  // undefined for contracts that cannot be paused
+  paused?: boolean
+}
+
+export interface PrivilegeAudit {
+  // undefined when the network has no Multisig, then every privilege is flagged
+  multisig?: string
+  contracts: AuditedContract[]
+  privileges: Privilege[]
+}
+
+/**
+ * @notice Lists the privileged accounts of the marketplaces and of OriumMarketplaceRoyalties
+ * @dev For each contract: its owner, its ERC-1967 admin and the owner of that ProxyAdmin. For OriumMarketplaceRoyalties,
+ * also the royalty creator of each collection, who can change the royalty of the collection. A proxy admin that is
+ * neither the Multisig nor an ownable contract, such as a ProxyAdmin, is flagged
+ * @param addressBook The address book of the network
+ * @param royaltiesOptions The collections and block range to search for royalty creators, see readRoyaltiesConfig
+ * @returns The audited contracts and their privileges
+ */
+export async function auditPrivileges(
+  addressBook: AddressBook,
+  royaltiesOptions: ReadRoyaltiesConfigOptions = {},
+): Promise<PrivilegeAudit> {
+  const multisig = addressBook.Multisig?.address ? ethers.getAddress(addressBook.Multisig.address) : undefined
+  const isMultisig = (holder: string) => multisig !== undefined && holder === multisig
+  const contracts: AuditedContract[] = []
+  const privileges: Privilege[] = []
+
+  for (const contractName of AUDITED_CONTRACTS) {
+    const address = addressBook[contractName]?.address
+    if (!address) continue
+    const owner = await readAddress(address, OWNABLE_ABI, 'owner')
+    const paused: boolean | undefined = await new ethers.Contract(address, PAUSABLE_ABI, ethers.provider)
+      .paused()
+      .catch(() => undefined)
+    contracts.push({ contractName, address, paused })
+    privileges.push({ contractName, privilege: 'owner', holder: owner, flagged: !isMultisig(owner) })
+
+    const proxyAdmin = await upgrades.erc1967.getAdminAddress(address).catch(() => 'unreadable')
+    const proxyAdminOwner = ethers.isAddress(proxyAdmin)
+      ? await readAddress(proxyAdmin, OWNABLE_ABI, 'owner')
+      : 'unreadable'
+    privileges.push({
+      contractName,
+      privilege: 'proxy admin',
+      holder: proxyAdmin,
+      // a ProxyAdmin is flagged through its owner
+      flagged: !isMultisig(proxyAdmin) && proxyAdminOwner === 'unreadable',
+    })
+    if (!isMultisig(proxyAdmin)) {
+      privileges.push({
+        contractName,
+        privilege: 'proxy admin owner',
+        holder: proxyAdminOwner,
+        flagged: !isMultisig(proxyAdminOwner),
+      })
+    }
+  }
+
+  const royaltiesAddress = addressBook.OriumMarketplaceRoyalties?.address
+  if (royaltiesAddress) {
+    const marketplaceRoyalties: OriumMarketplaceRoyalties = await ethers.getContractAt(
+      'OriumMarketplaceRoyalties',
+      royaltiesAddress,
+    )
+    const { collections } = await readRoyaltiesConfig(marketplaceRoyalties, royaltiesOptions)
+    collections
+      .filter(({ creator }) => creator !== AddressZero)
+      .forEach(({ tokenAddress, creator }) =>
+        privileges.push({
+          contractName: 'OriumMarketplaceRoyalties',
+          privilege: 'royalty creator',
+          subject: tokenAddress,
+          holder: creator,
+          flagged: !isMultisig(creator),
+        }),
+      )
+  }
+
+  return { multisig, contracts, privileges }
+}
+
+async function readAddress(address: string, abi: string[], functionName: string): Promise<string> {
+  const contract = new ethers.Contract(address, abi, ethers.provider)
+  return contract[functionName]().catch(() => 'unreadable')
+}
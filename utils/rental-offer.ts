@@ -0,0 +1,273 @@
+import { DirectRental, Rental, RentalOffer, SftRentalOffer } from './types'
+
+// Field order of LibNftRentalMarketplace.RentalOffer
+export type NftRentalOfferTuple = [
+  lender: string,
+  borrower: string,
+  tokenAddress: string,
+  tokenId: bigint,
+  feeTokenAddress: string,
+  feeAmountPerSecond: bigint,
+  nonce: bigint,
+  deadline: number,
+  minDuration: number,
+  roles: string[],
+  rolesData: string[],
+]
+
+// Field order of LibOriumSftMarketplace.RentalOffer
+export type SftRentalOfferTuple = [
+  lender: string,
+  borrower: string,
+  tokenAddress: string,
+  tokenId: bigint,
+  tokenAmount: bigint,
+  feeTokenAddress: string,
+  feeAmountPerSecond: bigint,
+  nonce: bigint,
+  commitmentId: bigint,
+  deadline: number,
+  minDuration: number,
+  roles: string[],
+  rolesData: string[],
+]
+
+/**
+ * @notice Checks whether a rental offer belongs to OriumSftMarketplace
+ * @param offer The rental offer
+ * @returns True if the offer has the SFT fields
+ */
+export function isSftRentalOffer(offer: RentalOffer | SftRentalOffer): offer is SftRentalOffer {
+  return 'tokenAmount' in offer && 'commitmentId' in offer
+}
+
+/**
+ * @notice Converts a rental offer to the LibNftRentalMarketplace.RentalOffer tuple
+ * @param offer The rental offer
+ * @returns The rental offer fields in struct order
+ */
+export function toNftRentalOfferTuple(offer: RentalOffer): NftRentalOfferTuple {
+  return [
+    offer.lender,
+    offer.borrower,
+    offer.tokenAddress,
+    BigInt(offer.tokenId),
+    offer.feeTokenAddress,
+    BigInt(offer.feeAmountPerSecond),
+    BigInt(offer.nonce),
+    Number(offer.deadline),
+    Number(offer.minDuration),
+    [...offer.roles],
+    [...offer.rolesData],
+  ]
+}
+
+/**
+ * @notice Converts a LibNftRentalMarketplace.RentalOffer tuple, such as a decoded call or event argument, to a rental offer
+ * @param tuple The rental offer fields in struct order
+ * @returns The rental offer
+ */
+export function fromNftRentalOfferTuple(tuple: ArrayLike<unknown>): RentalOffer {
+  assertTupleLength(tuple, 11, 'LibNftRentalMarketplace.RentalOffer')
+  return {
+    lender: String(tuple[0]),
+    borrower: String(tuple[1]),
+    tokenAddress: String(tuple[2]),
+    tokenId: toBigInt(tuple[3]),
+    feeTokenAddress: String(tuple[4]),
+    feeAmountPerSecond: toBigInt(tuple[5]),
+    nonce: toBigInt(tuple[6]),
+    deadline: toUint64(tuple[7]),
+    minDuration: toUint64(tuple[8]),
+    roles: Array.from(tuple[9] as ArrayLike<string>),
+    rolesData: Array.from(tuple[10] as ArrayLike<string>),
+  }
+}
+
+/**
+ * @notice Converts a rental offer to the LibOriumSftMarketplace.RentalOffer tuple
+ * @param offer The rental offer
+ * @returns The rental offer fields in struct order
+ */
+export function toSftRentalOfferTuple(offer: SftRentalOffer): SftRentalOfferTuple {
+  return [
+    offer.lender,
+    offer.borrower,
+    offer.tokenAddress,
+    BigInt(offer.tokenId),
+    BigInt(offer.tokenAmount),
+    offer.feeTokenAddress,
+    BigInt(offer.feeAmountPerSecond),
+    BigInt(offer.nonce),
+    BigInt(offer.commitmentId),
+    Number(offer.deadline),
+    Number(offer.minDuration),
+    [...offer.roles],
+    [...offer.rolesData],
+  ]
+}
+
+/**
+ * @notice Converts a LibOriumSftMarketplace.RentalOffer tuple, such as a decoded call or event argument, to a rental offer
+ * @param tuple The rental offer fields in struct order
+ * @returns The rental offer
+ */
+export function fromSftRentalOfferTuple(tuple: ArrayLike<unknown>): SftRentalOffer {
+  assertTupleLength(tuple, 13, 'LibOriumSftMarketplace.RentalOffer')
+  return {
+    lender: String(tuple[0]),
+    borrower: String(tuple[1]),
+    tokenAddress: String(tuple[2]),
+    tokenId: toBigInt(tuple[3]),
+    tokenAmount: toBigInt(tuple[4]),
+    feeTokenAddress: String(tuple[5]),
+    feeAmountPerSecond: toBigInt(tuple[6]),
+    nonce: toBigInt(tuple[7]),
+    commitmentId: toBigInt(tuple[8]),
+    deadline: toUint64(tuple[9]),
+    minDuration: toUint64(tuple[10]),
+    roles: Array.from(tuple[11] as ArrayLike<string>),
+    rolesData: Array.from(tuple[12] as ArrayLike<string>),
+  }
+}
+
+/**
+ * @notice Converts the value of the `rentals` mapping of either marketplace to a rental
+ * @param tuple The borrower and expiration date
+ * @returns The rental
+ */
+export function fromRentalTuple(tuple: ArrayLike<unknown>): Rental {
+  assertTupleLength(tuple, 2, 'Rental')
+  return { borrower: String(tuple[0]), expirationDate: toUint64(tuple[1]) }
+}
+
+/**
+ * @notice Serializes a rental offer, rental or direct rental to JSON
+ * @dev bigint fields are written as decimal strings, so nonces and amounts do not lose precision
+ * @param value The value to serialize
+ * @returns The JSON string
+ */
+export function toJson(value: RentalOffer | SftRentalOffer | Rental | DirectRental) {
+  return JSON.stringify(value, (_key, field) => (typeof field === 'bigint' ? field.toString() : field), 2)
+}
+
+/**
+ * @notice Parses an NftRentalMarketplace rental offer serialized with toJson
+ * @dev minDuration defaults to 0 for offers stored before it was added to the struct
+ * @param json The JSON string or an already parsed object
+ * @returns The rental offer
+ */
+export function nftRentalOfferFromJson(json: string | object): RentalOffer {
+  const offer = parseJsonObject(json)
+  return {
+    lender: readString(offer, 'lender'),
+    borrower: readString(offer, 'borrower'),
+    tokenAddress: readString(offer, 'tokenAddress'),
+    tokenId: toBigInt(readField(offer, 'tokenId')),
+    feeTokenAddress: readString(offer, 'feeTokenAddress'),
+    feeAmountPerSecond: toBigInt(readField(offer, 'feeAmountPerSecond')),
+    nonce: toBigInt(readField(offer, 'nonce')),
+    deadline: toUint64(readField(offer, 'deadline')),
+    minDuration: toUint64(offer.minDuration ?? 0),
+    roles: readStringArray(offer, 'roles'),
+    rolesData: readStringArray(offer, 'rolesData'),
+  }
+}
+
+/**
+ * @notice Parses an OriumSftMarketplace rental offer serialized with toJson
+ * @param json The JSON string or an already parsed object
+ * @returns The rental offer
+ */
+export function sftRentalOfferFromJson(json: string | object): SftRentalOffer {
+  const offer = parseJsonObject(json)
+  return {
+    ...nftRentalOfferFromJson(offer),
+    tokenAmount: toBigInt(readField(offer, 'tokenAmount')),
+    commitmentId: toBigInt(readField(offer, 'commitmentId')),
+  }
+}
+
+/**
+ * @notice Parses a rental serialized with toJson
+ * @param json The JSON string or an already parsed object
+ * @returns The rental
+ */
+export function rentalFromJson(json: string | object): Rental {
+  const rental = parseJsonObject(json)
+  return { borrower: readString(rental, 'borrower'), expirationDate: toUint64(readField(rental, 'expirationDate')) }
+}
+
+/**
+ * @notice Parses a direct rental serialized with toJson
+ * @param json The JSON string or an already parsed object
+ * @returns The direct rental
+ */
+export function directRentalFromJson(json: string | object): DirectRental {
+  const directRental = parseJsonObject(json)
+  return {
+    tokenAddress: readString(directRental, 'tokenAddress'),
+    tokenId: toBigInt(readField(directRental, 'tokenId')),
+    lender: readString(directRental, 'lender'),
+    borrower: readString(directRental, 'borrower'),
+    duration: toUint64(readField(directRental, 'duration')),
+    roles: readStringArray(directRental, 'roles'),
+    rolesData: readStringArray(directRental, 'rolesData'),
+  }
+}
+
+function parseJsonObject(json: string | object): Record<string, unknown> {
+  const value = typeof json === 'string' ? JSON.parse(json) : json
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Expected a JSON object')
+  }
+  return value as Record<string, unknown>
+}
+
+function readField(object: Record<string, unknown>, field: string) {
+  if (object[field] === undefined || object[field] === null) {
+    throw new Error(`Missing field "${field}"`)
+  }
+  return object[field]
+}
+
+function readString(object: Record<string, unknown>, field: string) {
+  const value = readField(object, field)
+  if (typeof value !== 'string') {
+    throw new Error(`Field "${field}" should be a string`)
+  }
+  return value
+}
+
+function readStringArray(object: Record<string, unknown>, field: string) {
+  const value = readField(object, field)
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`Field "${field}" should be an array of strings`)
+  }
+  return value as string[]
+}
+
+function toBigInt(value: unknown) {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new Error(`${value} is not a safe integer, use a string or bigint instead`)
+  }
+  // BigInt('') and BigInt(' ') are 0
+  if (typeof value === 'string' && value.trim() === '') {
+    throw new Error('Expected an integer, got an empty string')
+  }
+  return BigInt(value as bigint | number | string)
+}
+
+function toUint64(value: unknown) {
+  const uint64 = toBigInt(value)
+  if (uint64 > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new Error(`${uint64} is too large to be a timestamp or duration`)
+  }
+  return Number(uint64)
+}
+
+function assertTupleLength(tuple: ArrayLike<unknown>, length: number, structName: string) {
+  if (tuple.length !== length) {
+    throw new Error(`Expected ${length} fields for ${structName}, got ${tuple.length}`)
+  }
+}
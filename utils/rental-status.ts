@@ -0,0 +1,183 @@
+import { ethers } from 'hardhat'
+import { AddressZero } from './constants'
+import { hashNftRentalOffer, hashSftRentalOffer } from './hash'
+import { isSftRentalOffer } from './rental-offer'
+import { RentalOffer, SftRentalOffer } from './types'
+import { NftRentalMarketplace, OriumSftMarketplace } from '../typechain-types'
+
+export type RentalStatus =
+  | 'NOT_CREATED'
+  | 'LISTED'
+  | 'EXPIRED'
+  | 'CANCELLED'
+  | 'RENTED'
+  | 'RENTAL_ENDED_EARLY'
+  | 'RENTAL_EXPIRED'
+
+export interface RoleExpiration {
+  role: string
+  // roleDeadline of NftRentalMarketplace, undefined for SFT offers
+  roleDeadline?: number
+  registryExpirationDate: number
+}
+
+export interface RentalStatusReport {
+  status: RentalStatus
+  offerHash: string
+  blockTimestamp: number
+  deadline: number
+  nonceDeadline: number
+  cancelledAt?: number
+  borrower?: string
+  rentalExpirationDate?: number
+  rentalEndedAt?: number
+  roles: RoleExpiration[]
+  // mismatches between the marketplace and the roles registry, empty when both agree
+  inconsistencies: string[]
+}
+
+/**
+ * @notice Resolves the lifecycle state of a rental offer from the marketplace storage
+ * @dev A rental in progress takes precedence over the offer state, then an offer that can still be accepted,
+ * then the outcome of the last rental, then a cancellation and finally the offer deadline.
+ * Early endings are told apart from expirations through RentalEnded events, searched from `fromBlock`
+ * @param marketplace The NftRentalMarketplace or OriumSftMarketplace contract
+ * @param offer The rental offer
+ * @param fromBlock The first block to search for RentalEnded events, ideally the offer creation block
+ * @returns The status, the relevant timestamps and the role expirations on the roles registry
+ */
+export async function resolveRentalStatus(
+  marketplace: NftRentalMarketplace | OriumSftMarketplace,
+  offer: RentalOffer | SftRentalOffer,
+  fromBlock: number | string = 0,
+): Promise<RentalStatusReport> {
+  const blockTimestamp = (await ethers.provider.getBlock('latest'))!.timestamp
+  const offerHash = isSftRentalOffer(offer) ? hashSftRentalOffer(offer) : hashNftRentalOffer(offer)
+  const deadline = Number(offer.deadline)
+  const report: RentalStatusReport = {
+    status: 'NOT_CREATED',
+    offerHash,
+    blockTimestamp,
+    deadline,
+    nonceDeadline: 0,
+    roles: [],
+    inconsistencies: [],
+  }
+
+  if (!(await marketplace.isCreated(offerHash))) return report
+
+  report.nonceDeadline = Number(await marketplace.nonceDeadline(offer.lender, offer.nonce))
+  // cancelling sets the nonce deadline to the cancellation timestamp, which is always before the offer deadline
+  if (report.nonceDeadline < deadline) report.cancelledAt = report.nonceDeadline
+
+  const [borrower, expirationDate] = await marketplace.rentals(offerHash)
+  if (borrower !== AddressZero) {
+    report.borrower = borrower
+    report.rentalExpirationDate = Number(expirationDate)
+  }
+
+  report.roles = await roleExpirations(marketplace, offer, borrower)
+
+  if (report.rentalExpirationDate !== undefined && report.rentalExpirationDate > blockTimestamp) {
+    report.status = 'RENTED'
+    report.inconsistencies = checkActiveRental(report.roles, report.rentalExpirationDate)
+  } else if (report.cancelledAt === undefined && deadline > blockTimestamp) {
+    report.status = 'LISTED'
+  } else if (report.rentalExpirationDate !== undefined) {
+    report.rentalEndedAt = await rentalEndedAt(marketplace, offer, report.rentalExpirationDate, fromBlock)
+    report.status = report.rentalEndedAt === undefined ? 'RENTAL_EXPIRED' : 'RENTAL_ENDED_EARLY'
+  } else if (report.cancelledAt !== undefined) {
+    report.status = 'CANCELLED'
+  } else {
+    report.status = 'EXPIRED'
+  }
+
+  return report
+}
+
+async function roleExpirations(
+  marketplace: NftRentalMarketplace | OriumSftMarketplace,
+  offer: RentalOffer | SftRentalOffer,
+  borrower: string,
+): Promise<RoleExpiration[]> {
+  const marketplaceRoyalties = await ethers.getContractAt(
+    'OriumMarketplaceRoyalties',
+    await marketplace.oriumMarketplaceRoyalties(),
+  )
+
+  if (isSftRentalOffer(offer)) {
+    const sftMarketplace = marketplace as OriumSftMarketplace
+    const rolesRegistryAddress = await marketplaceRoyalties.sftRolesRegistryOf(offer.tokenAddress)
+    const isLegacy =
+      offer.tokenAddress.toLowerCase() === (await sftMarketplace.aavegotchiWearableAddress()).toLowerCase()
+
+    if (isLegacy) {
+      const rolesRegistry = await ethers.getContractAt('IERC7589Legacy', rolesRegistryAddress)
+      return Promise.all(
+        offer.roles.map(async role => ({
+          role,
+          registryExpirationDate: Number(await rolesRegistry.roleExpirationDate(offer.commitmentId, role, borrower)),
+        })),
+      )
+    }
+
+    const rolesRegistry = await ethers.getContractAt('IERC7589', rolesRegistryAddress)
+    return Promise.all(
+      offer.roles.map(async role => ({
+        role,
+        registryExpirationDate: Number(await rolesRegistry.roleExpirationDate(offer.commitmentId, role)),
+      })),
+    )
+  }
+
+  const nftMarketplace = marketplace as NftRentalMarketplace
+  const rolesRegistry = await ethers.getContractAt(
+    'IERC7432',
+    await marketplaceRoyalties.nftRolesRegistryOf(offer.tokenAddress),
+  )
+  return Promise.all(
+    offer.roles.map(async role => ({
+      role,
+      roleDeadline: Number(await nftMarketplace.roleDeadline(role, offer.tokenAddress, offer.tokenId)),
+      registryExpirationDate: Number(await rolesRegistry.roleExpirationDate(offer.tokenAddress, offer.tokenId, role)),
+    })),
+  )
+}
+
+function checkActiveRental(roles: RoleExpiration[], rentalExpirationDate: number) {
+  const inconsistencies: string[] = []
+  for (const { role, roleDeadline, registryExpirationDate } of roles) {
+    if (registryExpirationDate !== rentalExpirationDate) {
+      inconsistencies.push(
+        `Role ${role} expires at ${registryExpirationDate} in the roles registry, but the rental expires at ${rentalExpirationDate}`,
+      )
+    }
+    if (roleDeadline !== undefined && roleDeadline < rentalExpirationDate) {
+      inconsistencies.push(
+        `roleDeadline of role ${role} is ${roleDeadline}, before the rental expiration date ${rentalExpirationDate}`,
+      )
+    }
+  }
+  return inconsistencies
+}
+
+/**
+ * @dev endRental sets the rental expiration date to the block timestamp, so the last rental ended early
+ * when a RentalEnded event of the offer was mined at that timestamp
+ */
+async function rentalEndedAt(
+  marketplace: NftRentalMarketplace | OriumSftMarketplace,
+  offer: RentalOffer,
+  rentalExpirationDate: number,
+  fromBlock: number | string,
+) {
+  const events = await (marketplace as NftRentalMarketplace).queryFilter(
+    (marketplace as NftRentalMarketplace).filters.RentalEnded(offer.lender, offer.nonce),
+    fromBlock,
+  )
+  for (const event of events.reverse()) {
+    const block = await event.getBlock()
+    if (block.timestamp === rentalExpirationDate) return block.timestamp
+  }
+  return undefined
+}
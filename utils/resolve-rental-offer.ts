@@ -0,0 +1,214 @@
+import { ethers, network } from 'hardhat'
+import { Interface, Log } from 'ethers'
+import { deploymentBlockOf } from './deployment-history'
+import { formatRentalOfferId, parseRentalOfferId } from './offer-id'
+import { fromNftRentalOfferTuple, fromSftRentalOfferTuple, isSftRentalOffer } from './rental-offer'
+import { hashNftRentalOffer, hashSftRentalOffer } from './hash'
+import { RentalOffer, SftRentalOffer } from './types'
+import { NftRentalMarketplace__factory, OriumSftMarketplace__factory } from '../typechain-types'
+
+const NFT_MARKETPLACE_INTERFACE = NftRentalMarketplace__factory.createInterface()
+const SFT_MARKETPLACE_INTERFACE = OriumSftMarketplace__factory.createInterface()
+// OriumSftMarketplace offers created before minDuration existed, hashed with the legacy encoding of hashRentalOffer
+const LEGACY_SFT_MARKETPLACE_INTERFACE = new Interface([
+  'event RentalOfferCreated(uint256 indexed nonce, address indexed tokenAddress, uint256 indexed tokenId, uint256 tokenAmount, uint256 commitmentId, address lender, address borrower, address feeTokenAddress, uint256 feeAmountPerSecond, uint256 deadline, bytes32[] roles, bytes[] rolesData)',
+])
+
+// block range of each eth_getLogs request when none is given, within the limits of the Polygon RPC providers
+const DEFAULT_MAX_BLOCK_RANGE = 10_000
+
+export interface ResolvedRentalOffer {
+  offerId: string
+  marketplace: string
+  offer: RentalOffer | SftRentalOffer
+  blockNumber: number
+  transactionHash: string
+}
+
+export interface ResolveRentalOfferOptions {
+  // first block to search for the creation log, the marketplace deployment block by default
+  fromBlock?: number
+  // maximum block range of each eth_getLogs request, DEFAULT_MAX_BLOCK_RANGE by default
+  maxBlockRange?: number
+}
+
+/**
+ * @notice Rebuilds a rental offer from the RentalOfferCreated log of its creation transaction
+ * @dev The log carries every offer field, including the commitmentId assigned to SFT offers created with commitmentId
+ * 0. Legacy SFT offers, whose log has no minDuration, are rebuilt with minDuration 0 so they hash like the marketplace
+ * @param log A RentalOfferCreated log of NftRentalMarketplace or OriumSftMarketplace
+ * @returns The offer ID, the marketplace address, the rental offer and where it was created
+ */
+export function rentalOfferFromLog(log: Log): ResolvedRentalOffer {
+  const nftEvent = NFT_MARKETPLACE_INTERFACE.parseLog(log)
+  const sftEvent = nftEvent ? null : SFT_MARKETPLACE_INTERFACE.parseLog(log)
+  const legacySftEvent = nftEvent || sftEvent ? null : LEGACY_SFT_MARKETPLACE_INTERFACE.parseLog(log)
+  let offer: RentalOffer | SftRentalOffer
+
+  if (nftEvent?.name === 'RentalOfferCreated') {
+    const { args } = nftEvent
+    offer = fromNftRentalOfferTuple([
+      args.lender,
+      args.borrower,
+      args.tokenAddress,
+      args.tokenId,
+      args.feeTokenAddress,
+      args.feeAmountPerSecond,
+      args.nonce,
+      args.deadline,
+      args.minDuration,
+      args.roles,
+      args.rolesData,
+    ])
+  } else if (sftEvent?.name === 'RentalOfferCreated') {
+    const { args } = sftEvent
+    offer = fromSftRentalOfferTuple([
+      args.lender,
+      args.borrower,
+      args.tokenAddress,
+      args.tokenId,
+      args.tokenAmount,
+      args.feeTokenAddress,
+      args.feeAmountPerSecond,
+      args.nonce,
+      args.commitmentId,
+      args.deadline,
+      args.minDuration,
+      args.roles,
+      args.rolesData,
+    ])
+  } else if (legacySftEvent?.name === 'RentalOfferCreated') {
+    const { args } = legacySftEvent
+    offer = fromSftRentalOfferTuple([
+      args.lender,
+      args.borrower,
+      args.tokenAddress,
+      args.tokenId,
+      args.tokenAmount,
+      args.feeTokenAddress,
+      args.feeAmountPerSecond,
+      args.nonce,
+      args.commitmentId,
+      args.deadline,
+      0,
+      args.roles,
+      args.rolesData,
+    ])
+  } else {
+    throw new Error(`Log ${log.index} of transaction ${log.transactionHash} is not a RentalOfferCreated event`)
+  }
+
+  return {
+    offerId: formatRentalOfferId({ marketplace: log.address, lender: offer.lender, nonce: offer.nonce }),
+    marketplace: log.address,
+    offer,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+  }
+}
+
+/**
+ * @notice Rebuilds the rental offers created by a transaction
+ * @param transactionHash The hash of the createRentalOffer transaction
+ * @returns The rental offers created by the transaction, in log order
+ */
+export async function resolveRentalOffersByTransaction(transactionHash: string): Promise<ResolvedRentalOffer[]> {
+  const receipt = await ethers.provider.getTransactionReceipt(transactionHash)
+  if (!receipt) throw new Error(`Transaction ${transactionHash} not found`)
+
+  const offers: ResolvedRentalOffer[] = []
+  for (const log of receipt.logs) {
+    try {
+      offers.push(rentalOfferFromLog(log))
+    } catch {
+      // logs of tokens and roles registries
+    }
+  }
+  return offers
+}
+
+/**
+ * @notice Rebuilds a rental offer from its creation log, searching by the nonce of the offer ID
+ * @dev The lender is not indexed, so every offer created with the same nonce is fetched and filtered locally. The logs
+ * are searched from the marketplace deployment block, see deploymentBlockOf, in ranges of maxBlockRange blocks
+ * @param rentalOfferId The offer ID, as `marketplace-lender-nonce`
+ * @param options The block range to search
+ * @returns The rental offer and where it was created
+ * @throws Error when the offer is not found, or fromBlock is not given and the marketplace deployment is not recorded
+ */
+export async function resolveRentalOfferById(
+  rentalOfferId: string,
+  options: ResolveRentalOfferOptions = {},
+): Promise<ResolvedRentalOffer> {
+  const { marketplace, lender, nonce } = parseRentalOfferId(rentalOfferId)
+  const nonceTopic = ethers.zeroPadValue(ethers.toBeHex(nonce), 32)
+  const topics = [
+    [
+      NFT_MARKETPLACE_INTERFACE.getEvent('RentalOfferCreated')!.topicHash,
+      SFT_MARKETPLACE_INTERFACE.getEvent('RentalOfferCreated')!.topicHash,
+      LEGACY_SFT_MARKETPLACE_INTERFACE.getEvent('RentalOfferCreated')!.topicHash,
+    ],
+    nonceTopic,
+  ]
+
+  const latestBlock = await ethers.provider.getBlockNumber()
+  const fromBlock = options.fromBlock ?? (await deploymentBlockOf(network.name, marketplace))
+  if (fromBlock === undefined) {
+    throw new Error(`Deployment block of ${marketplace} on ${network.name} network is unknown, set fromBlock`)
+  }
+  const blockRange = options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE
+  for (let start = fromBlock; start <= latestBlock; start += blockRange) {
+    const logs = await ethers.provider.getLogs({
+      address: marketplace,
+      topics,
+      fromBlock: start,
+      toBlock: Math.min(start + blockRange - 1, latestBlock),
+    })
+    const resolved = logs.map(rentalOfferFromLog).find(({ offer }) => offer.lender.toLowerCase() === lender)
+    if (resolved) {
+      await assertCreated(resolved)
+      return resolved
+    }
+  }
+
+  throw new Error(`Rental offer ${rentalOfferId} not found from block ${fromBlock}`)
+}
+
+/**
+ * @notice Rebuilds a rental offer from an offer ID or from the hash of its creation transaction
+ * @param offerIdOrTransactionHash The offer ID, as `marketplace-lender-nonce`, or the creation transaction hash
+ * @param options The block range to search offer IDs
+ * @returns The rental offer and where it was created
+ */
+export async function resolveRentalOffer(
+  offerIdOrTransactionHash: string,
+  options: ResolveRentalOfferOptions = {},
+): Promise<ResolvedRentalOffer> {
+  if (!ethers.isHexString(offerIdOrTransactionHash, 32)) {
+    return resolveRentalOfferById(offerIdOrTransactionHash, options)
+  }
+
+  const offers = await resolveRentalOffersByTransaction(offerIdOrTransactionHash)
+  if (offers.length === 0) throw new Error(`Transaction ${offerIdOrTransactionHash} did not create a rental offer`)
+  if (offers.length > 1) {
+    const offerIds = offers.map(({ offerId }) => offerId).join(', ')
+    throw new Error(
+      `Transaction ${offerIdOrTransactionHash} created several rental offers, use an offer ID: ${offerIds}`,
+    )
+  }
+  await assertCreated(offers[0])
+  return offers[0]
+}
+
+/**
+ * @dev Guards against logs that do not hash to a created offer, such as logs of an unrelated contract
+ */
+async function assertCreated({ offerId, marketplace, offer }: ResolvedRentalOffer) {
+  const contract = isSftRentalOffer(offer)
+    ? OriumSftMarketplace__factory.connect(marketplace, ethers.provider)
+    : NftRentalMarketplace__factory.connect(marketplace, ethers.provider)
+  const offerHash = isSftRentalOffer(offer) ? hashSftRentalOffer(offer) : hashNftRentalOffer(offer)
+  if (!(await contract.isCreated(offerHash))) {
+    throw new Error(`Rental offer ${offerId} rebuilt from its creation log is not created in ${marketplace}`)
+  }
+}
@@ -6,3 +6,12 @@ export const USER_ROLE = ethers.keccak256(ethers.toUtf8Bytes('USER_ROLE'))
 export const USER_ROLE_MOONBEAM = ethers.keccak256(ethers.toUtf8Bytes('User()'))
 export const UNIQUE_ROLE = ethers.keccak256(ethers.toUtf8Bytes('UNIQUE_ROLE'))
 export const PLAYER_ROLE = ethers.keccak256(ethers.toUtf8Bytes('Player()'))
+
+/**
+ * @notice Converts a role name, such as "Player()", into its role ID
+ * @param role The role name, or a role ID that is returned as it is
+ * @returns The keccak256 hash of the role name
+ */
+export function toRoleId(role: string): string {
+  return ethers.isHexString(role, 32) ? role : ethers.keccak256(ethers.toUtf8Bytes(role))
+}
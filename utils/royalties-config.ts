@@ -0,0 +1,188 @@
+import { ethers } from 'hardhat'
+import { Filter, formatEther, Log } from 'ethers'
+import { AddressZero } from './constants'
+import {
+  NftRentalMarketplace__factory,
+  OriumMarketplaceRoyalties,
+  OriumSftMarketplace__factory,
+} from '../typechain-types'
+
+const MARKETPLACE_INTERFACES = [
+  NftRentalMarketplace__factory.createInterface(),
+  OriumSftMarketplace__factory.createInterface(),
+]
+
+export interface TrustedFeeToken {
+  feeTokenAddress: string
+  isTrusted: boolean
+}
+
+export interface CollectionConfig {
+  tokenAddress: string
+  // marketplaceFeeOf, in wei where 100 ether is 100%
+  marketplaceFee: bigint
+  isCustomFee: boolean
+  creator: string
+  royaltyPercentageInWei: bigint
+  treasury: string
+  // registry set for the collection, the zero address when it uses the defaults
+  rolesRegistry: string
+  nftRolesRegistry: string
+  sftRolesRegistry: string
+  trustedFeeTokens: TrustedFeeToken[]
+}
+
+export interface RoyaltiesConfig {
+  address: string
+  owner: string
+  maxDuration: bigint
+  defaultNftRolesRegistry: string
+  defaultSftRolesRegistry: string
+  collections: CollectionConfig[]
+}
+
+export interface ReadRoyaltiesConfigOptions {
+  // collections to inspect, discovered from the logs when undefined
+  collections?: string[]
+  // fee tokens to check for each collection, besides the native token and the fee tokens of rental offers
+  feeTokens?: string[]
+  // marketplaces whose RentalOfferCreated logs are searched for collections and fee tokens
+  marketplaces?: string[]
+  // first block to search the logs from, ideally the OriumMarketplaceRoyalties deployment block
+  fromBlock?: number
+  // maximum block range of each eth_getLogs request, for RPC nodes that limit it
+  maxBlockRange?: number
+}
+
+/**
+ * @notice Reads the effective OriumMarketplaceRoyalties configuration of a list of collections
+ * @dev Without a list of collections, the collections are discovered from the MarketplaceFeeSet, CreatorRoyaltySet and
+ * RolesRegistrySet logs and from the rental offers of the marketplaces. setTrustedFeeTokenForToken does not emit events,
+ * so trusted fee tokens are only checked against the native token, the given fee tokens and the fee tokens of rental offers
+ * @param marketplaceRoyalties The OriumMarketplaceRoyalties contract
+ * @param options The collections, fee tokens and block range to inspect
+ * @returns The global settings and the settings of each collection
+ */
+export async function readRoyaltiesConfig(
+  marketplaceRoyalties: OriumMarketplaceRoyalties,
+  options: ReadRoyaltiesConfigOptions = {},
+): Promise<RoyaltiesConfig> {
+  const collections = new Set((options.collections ?? []).map(address => ethers.getAddress(address)))
+  const feeTokens = new Set([AddressZero, ...(options.feeTokens ?? []).map(address => ethers.getAddress(address))])
+  const offerFeeTokens = new Map<string, Set<string>>()
+
+  if (!options.collections) {
+    const royaltiesInterface = marketplaceRoyalties.interface
+    const logs = await getLogsInRanges(
+      {
+        address: await marketplaceRoyalties.getAddress(),
+        topics: [
+          [
+            royaltiesInterface.getEvent('MarketplaceFeeSet').topicHash,
+            royaltiesInterface.getEvent('CreatorRoyaltySet').topicHash,
+            royaltiesInterface.getEvent('RolesRegistrySet').topicHash,
+          ],
+        ],
+      },
+      options,
+    )
+    // the collection is the first indexed argument of the three events
+    logs.forEach(log => collections.add(ethers.getAddress(ethers.dataSlice(log.topics[1], 12))))
+  }
+
+  for (const marketplace of options.marketplaces ?? []) {
+    const topics = MARKETPLACE_INTERFACES.map(iface => iface.getEvent('RentalOfferCreated')!.topicHash)
+    for (const log of await getLogsInRanges({ address: marketplace, topics: [topics] }, options)) {
+      const event = MARKETPLACE_INTERFACES.map(iface => iface.parseLog(log)).find(Boolean)!
+      const tokenAddress = ethers.getAddress(event.args.tokenAddress)
+      if (!options.collections) collections.add(tokenAddress)
+      if (!offerFeeTokens.has(tokenAddress)) offerFeeTokens.set(tokenAddress, new Set())
+      offerFeeTokens.get(tokenAddress)!.add(ethers.getAddress(event.args.feeTokenAddress))
+    }
+  }
+
+  const collectionConfigs: CollectionConfig[] = []
+  for (const tokenAddress of collections) {
+    const candidates = new Set([...feeTokens, ...(offerFeeTokens.get(tokenAddress) ?? [])])
+    collectionConfigs.push(await readCollectionConfig(marketplaceRoyalties, tokenAddress, [...candidates]))
+  }
+
+  return {
+    address: await marketplaceRoyalties.getAddress(),
+    owner: await marketplaceRoyalties.owner(),
+    maxDuration: await marketplaceRoyalties.maxDuration(),
+    defaultNftRolesRegistry: await marketplaceRoyalties.defaultNftRolesRegistry(),
+    defaultSftRolesRegistry: await marketplaceRoyalties.defaultSftRolesRegistry(),
+    collections: collectionConfigs,
+  }
+}
+
+/**
+ * @notice Reads the effective OriumMarketplaceRoyalties configuration of a collection
+ * @param marketplaceRoyalties The OriumMarketplaceRoyalties contract
+ * @param tokenAddress The NFT or SFT address
+ * @param feeTokens The fee tokens to check
+ * @returns The fee, royalty, roles registries and trusted fee tokens of the collection
+ */
+export async function readCollectionConfig(
+  marketplaceRoyalties: OriumMarketplaceRoyalties,
+  tokenAddress: string,
+  feeTokens: string[],
+): Promise<CollectionConfig> {
+  const [, isCustomFee] = await marketplaceRoyalties.feeInfo(tokenAddress)
+  const [creator, royaltyPercentageInWei, treasury] = await marketplaceRoyalties.royaltyInfoOf(tokenAddress)
+
+  const trustedFeeTokens: TrustedFeeToken[] = []
+  for (const feeTokenAddress of feeTokens) {
+    const isTrusted = await marketplaceRoyalties.isTrustedFeeTokenAddressForToken(tokenAddress, feeTokenAddress)
+    trustedFeeTokens.push({ feeTokenAddress, isTrusted })
+  }
+
+  return {
+    tokenAddress,
+    marketplaceFee: await marketplaceRoyalties.marketplaceFeeOf(tokenAddress),
+    isCustomFee,
+    creator,
+    royaltyPercentageInWei,
+    treasury,
+    rolesRegistry: await marketplaceRoyalties.tokenAddressToRolesRegistry(tokenAddress),
+    nftRolesRegistry: await marketplaceRoyalties.nftRolesRegistryOf(tokenAddress),
+    sftRolesRegistry: await marketplaceRoyalties.sftRolesRegistryOf(tokenAddress),
+    trustedFeeTokens,
+  }
+}
+
+/**
+ * @notice Formats the settings of each collection for console.table
+ * @dev Percentages are shown in %, and only the trusted fee tokens are listed
+ * @param config The configuration read by readRoyaltiesConfig
+ * @returns One row per collection
+ */
+export function toCollectionRows(config: RoyaltiesConfig): Record<string, string>[] {
+  return config.collections.map(collection => ({
+    collection: collection.tokenAddress,
+    fee: `${formatEther(collection.marketplaceFee)}%${collection.isCustomFee ? ' (custom)' : ''}`,
+    royalty: `${formatEther(collection.royaltyPercentageInWei)}%`,
+    creator: collection.creator,
+    treasury: collection.treasury,
+    nftRolesRegistry: collection.nftRolesRegistry,
+    sftRolesRegistry: collection.sftRolesRegistry,
+    trustedFeeTokens: collection.trustedFeeTokens
+      .filter(({ isTrusted }) => isTrusted)
+      .map(({ feeTokenAddress }) => (feeTokenAddress === AddressZero ? 'native' : feeTokenAddress))
+      .join(' '),
+  }))
+}
+
+async function getLogsInRanges(filter: Filter, options: ReadRoyaltiesConfigOptions): Promise<Log[]> {
+  const latestBlock = await ethers.provider.getBlockNumber()
+  const fromBlock = options.fromBlock ?? 0
+  const blockRange = options.maxBlockRange ?? latestBlock - fromBlock + 1
+
+  const logs: Log[] = []
+  for (let start = fromBlock; start <= latestBlock; start += blockRange) {
+    const toBlock = Math.min(start + blockRange - 1, latestBlock)
+    logs.push(...(await ethers.provider.getLogs({ ...filter, fromBlock: start, toBlock })))
+  }
+  return logs
+}
@@ -0,0 +1,199 @@
+import { ethers } from 'hardhat'
+import { existsSync, readFileSync } from 'fs'
+import { formatEther, parseEther } from 'ethers'
+import { AddressZero } from './constants'
+import { readCollectionConfig } from './royalties-config'
+import type { ContractCall } from './safe-batch'
+import { OriumMarketplaceRoyalties } from '../typechain-types'
+
+// percentages are decimal strings, such as "2.5" for 2.5%, and "native" is the native token
+export interface CollectionDesiredState {
+  // "default" to use the default marketplace fee
+  marketplaceFee?: string
+  royalty?: { creator: string; percentage: string; treasury: string }
+  rolesRegistry?: string
+  // only the listed fee tokens are reconciled, since trusted fee tokens cannot be listed on-chain
+  trustedFeeTokens?: Record<string, boolean>
+}
+
+export interface RoyaltiesDesiredState {
+  // seconds
+  maxDuration?: number | string
+  defaultNftRolesRegistry?: string
+  defaultSftRolesRegistry?: string
+  collections?: Record<string, CollectionDesiredState>
+}
+
+export interface ReconciliationCall extends ContractCall {
+  // the current and desired values, for the summary
+  description: string
+}
+
+const CONTRACT_NAME = 'OriumMarketplaceRoyalties'
+
+/**
+ * @notice Gets the path of the desired OriumMarketplaceRoyalties configuration of a network
+ * @param network The network name
+ * @returns The path of addresses/<network>/royalties.json
+ */
+export function royaltiesDesiredStatePath(network: string) {
+  return `addresses/${network}/royalties.json`
+}
+
+/**
+ * @notice Reads a desired OriumMarketplaceRoyalties configuration
+ * @param path The configuration file, see royaltiesDesiredStatePath
+ * @returns The desired configuration
+ * @throws Error when the file does not exist
+ */
+export function readRoyaltiesDesiredState(path: string): RoyaltiesDesiredState {
+  if (!existsSync(path)) throw new Error(`No desired royalties configuration found at ${path}`)
+  return JSON.parse(readFileSync(path, 'utf8'))
+}
+
+/**
+ * @notice Compares a desired configuration with the chain and lists the calls that apply the differences
+ * @dev Only the settings of the desired configuration are compared, the others are left as they are. All the fee token
+ * changes are grouped in one setTrustedFeeTokenForToken call. When a collection lowers its marketplace fee, the fee is
+ * set before the royalty, otherwise after it, so that their sum stays under 100% in between
+ * @param marketplaceRoyalties The OriumMarketplaceRoyalties contract
+ * @param desired The desired configuration
+ * @returns The calls to send from the owner, in order, empty when the chain matches the desired configuration
+ */
+export async function planRoyaltiesReconciliation(
+  marketplaceRoyalties: OriumMarketplaceRoyalties,
+  desired: RoyaltiesDesiredState,
+): Promise<ReconciliationCall[]> {
+  const contractAddress = await marketplaceRoyalties.getAddress()
+  const call = (functionName: string, args: unknown[], description: string): ReconciliationCall => ({
+    contractName: CONTRACT_NAME,
+    contractAddress,
+    functionName,
+    args,
+    description,
+  })
+  const calls: ReconciliationCall[] = []
+
+  if (desired.maxDuration !== undefined) {
+    const current = await marketplaceRoyalties.maxDuration()
+    const maxDuration = BigInt(desired.maxDuration)
+    if (current !== maxDuration) {
+      calls.push(call('setMaxDuration', [maxDuration], `maxDuration: ${current} -> ${maxDuration} seconds`))
+    }
+  }
+  if (desired.defaultNftRolesRegistry !== undefined) {
+    const current = await marketplaceRoyalties.defaultNftRolesRegistry()
+    const registry = ethers.getAddress(desired.defaultNftRolesRegistry)
+    if (current !== registry) {
+      calls.push(call('setDefaultNftRolesRegistry', [registry], `defaultNftRolesRegistry: ${current} -> ${registry}`))
+    }
+  }
+  if (desired.defaultSftRolesRegistry !== undefined) {
+    const current = await marketplaceRoyalties.defaultSftRolesRegistry()
+    const registry = ethers.getAddress(desired.defaultSftRolesRegistry)
+    if (current !== registry) {
+      calls.push(call('setDefaultSftRolesRegistry', [registry], `defaultSftRolesRegistry: ${current} -> ${registry}`))
+    }
+  }
+
+  const trustedFeeTokenChanges: { tokenAddress: string; feeTokenAddress: string; isTrusted: boolean }[] = []
+  for (const [collection, collectionDesired] of Object.entries(desired.collections ?? {})) {
+    const tokenAddress = ethers.getAddress(collection)
+    const feeTokens = Object.keys(collectionDesired.trustedFeeTokens ?? {})
+    const current = await readCollectionConfig(marketplaceRoyalties, tokenAddress, feeTokens.map(feeTokenAddressOf))
+    const collectionCalls: ReconciliationCall[] = []
+
+    let feeCall: ReconciliationCall | undefined
+    let loweredFee = false
+    if (collectionDesired.marketplaceFee === 'default') {
+      if (current.isCustomFee) {
+        feeCall = call(
+          'setMarketplaceFeeForCollection',
+          [tokenAddress, BigInt(0), false],
+          `${tokenAddress} marketplace fee: ${formatEther(current.marketplaceFee)}% (custom) -> default`,
+        )
+        loweredFee = (await marketplaceRoyalties.DEFAULT_FEE_PERCENTAGE()) < current.marketplaceFee
+      }
+    } else if (collectionDesired.marketplaceFee !== undefined) {
+      const fee = parseEther(collectionDesired.marketplaceFee)
+      if (!current.isCustomFee || current.marketplaceFee !== fee) {
+        feeCall = call(
+          'setMarketplaceFeeForCollection',
+          [tokenAddress, fee, true],
+          `${tokenAddress} marketplace fee: ${formatEther(current.marketplaceFee)}% -> ${formatEther(fee)}% (custom)`,
+        )
+        loweredFee = fee < current.marketplaceFee
+      }
+    }
+
+    let royaltyCall: ReconciliationCall | undefined
+    if (collectionDesired.royalty !== undefined) {
+      const creator = ethers.getAddress(collectionDesired.royalty.creator)
+      const treasury = ethers.getAddress(collectionDesired.royalty.treasury)
+      const percentage = parseEther(collectionDesired.royalty.percentage)
+      if (
+        current.creator !== creator ||
+        current.treasury !== treasury ||
+        current.royaltyPercentageInWei !== percentage
+      ) {
+        royaltyCall = call(
+          'setRoyaltyInfo',
+          [creator, tokenAddress, percentage, treasury],
+          `${tokenAddress} royalty: ${formatEther(current.royaltyPercentageInWei)}% to ${current.treasury} ` +
+            `-> ${formatEther(percentage)}% to ${treasury}, creator ${creator}`,
+        )
+      }
+    }
+    if (loweredFee) collectionCalls.push(...[feeCall, royaltyCall].filter(isDefined))
+    else collectionCalls.push(...[royaltyCall, feeCall].filter(isDefined))
+
+    if (collectionDesired.rolesRegistry !== undefined) {
+      const registry = ethers.getAddress(collectionDesired.rolesRegistry)
+      if (current.rolesRegistry !== registry) {
+        collectionCalls.push(
+          call(
+            'setRolesRegistry',
+            [tokenAddress, registry],
+            `${tokenAddress} roles registry: ${current.rolesRegistry} -> ${registry}`,
+          ),
+        )
+      }
+    }
+
+    for (const [feeToken, isTrusted] of Object.entries(collectionDesired.trustedFeeTokens ?? {})) {
+      const feeTokenAddress = feeTokenAddressOf(feeToken)
+      const currentFeeToken = current.trustedFeeTokens.find(token => token.feeTokenAddress === feeTokenAddress)
+      if (currentFeeToken?.isTrusted !== isTrusted)
+        trustedFeeTokenChanges.push({ tokenAddress, feeTokenAddress, isTrusted })
+    }
+    calls.push(...collectionCalls)
+  }
+
+  if (trustedFeeTokenChanges.length > 0) {
+    calls.push(
+      call(
+        'setTrustedFeeTokenForToken',
+        [
+          trustedFeeTokenChanges.map(({ tokenAddress }) => tokenAddress),
+          trustedFeeTokenChanges.map(({ feeTokenAddress }) => feeTokenAddress),
+          trustedFeeTokenChanges.map(({ isTrusted }) => isTrusted),
+        ],
+        trustedFeeTokenChanges
+          .map(
+            ({ tokenAddress, feeTokenAddress, isTrusted }) =>
+              `${tokenAddress} fee token ${feeTokenAddress}: ${isTrusted ? 'trusted' : 'untrusted'}`,
+          )
+          .join('\n'),
+      ),
+    )
+  }
+  return calls
+}
+
+function feeTokenAddressOf(feeToken: string): string {
+  return feeToken === 'native' ? AddressZero : ethers.getAddress(feeToken)
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined
+}
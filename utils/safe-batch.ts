@@ -0,0 +1,178 @@
+import { ethers, network } from 'hardhat'
+import { mkdirSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { FunctionFragment, Interface, ParamType, Result } from 'ethers'
+import config, { Network } from '../addresses'
+
+// version of the Safe Transaction Builder app the batch format is taken from
+const TX_BUILDER_VERSION = '1.16.5'
+
+export interface ContractCall {
+  // the contract name in the config file, or any compiled contract with contractAddress
+  contractName: keyof (typeof config)[Network] | string
+  functionName: string
+  args: unknown[]
+  contractAddress?: string
+  value?: bigint
+}
+
+interface SafeContractInput {
+  internalType: string
+  name: string
+  type: string
+  components?: SafeContractInput[]
+}
+
+export interface SafeBatchTransaction {
+  to: string
+  value: string
+  // null when the call is described by contractMethod and contractInputsValues
+  data: string | null
+  contractMethod: { inputs: SafeContractInput[]; name: string; payable: boolean }
+  // arrays and tuples are JSON strings, like the values typed in the Transaction Builder
+  contractInputsValues: Record<string, string>
+}
+
+export interface SafeBatch {
+  version: string
+  chainId: string
+  createdAt: number
+  meta: {
+    name: string
+    description: string
+    txBuilderVersion: string
+    createdFromSafeAddress: string
+    createdFromOwnerAddress: string
+    checksum?: string
+  }
+  transactions: SafeBatchTransaction[]
+}
+
+/**
+ * @notice Builds a Safe Transaction Builder batch of contract calls for the Multisig of the network
+ * @dev The arguments are validated by encoding them with the contract ABI. The decoded summary of the calls is used as
+ * the description of the batch
+ * @param name The name of the batch
+ * @param calls The calls, in the order they are executed by the Safe
+ * @param safeAddress The Safe address, config[NETWORK].Multisig by default
+ * @returns The batch, with its checksum
+ * @throws Error when a contract is not in the config file or the arguments do not match a function
+ */
+export async function buildSafeBatch(name: string, calls: ContractCall[], safeAddress?: string): Promise<SafeBatch> {
+  const safe = safeAddress ?? addressOf('Multisig')
+
+  const transactions: SafeBatchTransaction[] = []
+  const summary: string[] = []
+  for (const [index, call] of calls.entries()) {
+    const to = ethers.getAddress(call.contractAddress ?? addressOf(call.contractName))
+    const { interface: contractInterface } = await ethers.getContractAt(call.contractName, to)
+    const fragment = contractInterface.getFunction(call.functionName, call.args)
+    if (!fragment) throw new Error(`${call.functionName} not found in ${call.contractName}`)
+    const values = decodeArguments(contractInterface, fragment, call.args)
+
+    transactions.push({
+      to,
+      value: (call.value ?? BigInt(0)).toString(),
+      data: null,
+      contractMethod: {
+        inputs: fragment.inputs.map(toSafeContractInput),
+        name: fragment.name,
+        payable: fragment.payable,
+      },
+      contractInputsValues: Object.fromEntries(
+        fragment.inputs.map((param, position) => [param.name, toInputValue(values[position])]),
+      ),
+    })
+    const formattedArgs = fragment.inputs.map((param, position) => `${param.name}: ${format(values[position])}`)
+    summary.push(`${index + 1}. ${call.contractName} (${to}).${fragment.name}(${formattedArgs.join(', ')})`)
+  }
+
+  const batch: SafeBatch = {
+    version: '1.0',
+    chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description: summary.join('\n'),
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: ethers.getAddress(safe),
+      createdFromOwnerAddress: '',
+    },
+    transactions,
+  }
+  batch.meta.checksum = calculateChecksum(batch)
+  return batch
+}
+
+/**
+ * @notice Writes a batch to a JSON file, to be imported in the Safe Transaction Builder
+ * @param file The file to write
+ * @param batch The batch built by buildSafeBatch
+ */
+export function writeSafeBatch(file: string, batch: SafeBatch) {
+  mkdirSync(dirname(file), { recursive: true })
+  writeFileSync(file, JSON.stringify(batch, null, 2) + '\n')
+}
+
+/**
+ * @notice Calculates the checksum the Transaction Builder verifies when a batch is imported
+ * @dev keccak256 of the batch serialized like serializeJSONObject of the Transaction Builder, without its name and
+ * checksum
+ * @param batch The batch
+ * @returns The checksum
+ */
+export function calculateChecksum(batch: SafeBatch): string {
+  const meta: Partial<SafeBatch['meta']> = { ...batch.meta, name: undefined }
+  delete meta.checksum
+  return ethers.id(serialize({ ...batch, meta }))
+}
+
+// objects are written as `{` + the JSON array of their sorted keys + each value followed by a comma + `}`, and
+// undefined values as null
+function serialize(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(serialize).join(',')}]`
+  if (typeof value === 'object' && value !== null) {
+    const keys = Object.keys(value).sort()
+    const values = keys.map(key => `${serialize((value as Record<string, unknown>)[key])},`)
+    return `{${JSON.stringify(keys)}${values.join('')}}`
+  }
+  return JSON.stringify(value === undefined ? null : value)
+}
+
+function addressOf(contractName: string): string {
+  const addresses: Partial<Record<string, { address: string }>> = config[network.name as Network] ?? {}
+  const address = addresses[contractName]?.address
+  if (!address) throw new Error(`${contractName} is not deployed on ${network.name} network`)
+  return address
+}
+
+// encodes and decodes the arguments, which validates them and normalizes addresses and numbers
+function decodeArguments(contractInterface: Interface, fragment: FunctionFragment, args: unknown[]): unknown[] {
+  const data = contractInterface.encodeFunctionData(fragment, args)
+  return toPlainValue(contractInterface.decodeFunctionData(fragment, data)) as unknown[]
+}
+
+function toPlainValue(value: unknown): unknown {
+  if (value instanceof Result) return value.toArray().map(toPlainValue)
+  if (typeof value === 'bigint') return value.toString()
+  return value
+}
+
+function toSafeContractInput(param: ParamType): SafeContractInput {
+  // the components of tuple arrays are those of the array items
+  const components = param.components ?? param.arrayChildren?.components
+  return {
+    internalType: param.type,
+    name: param.name,
+    type: param.type,
+    ...(components && { components: components.map(toSafeContractInput) }),
+  }
+}
+
+function toInputValue(value: unknown): string {
+  return Array.isArray(value) ? JSON.stringify(value) : String(value)
+}
+
+function format(value: unknown): string {
+  return Array.isArray(value) ? `[${value.map(format).join(', ')}]` : String(value)
+}
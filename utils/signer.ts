@@ -0,0 +1,110 @@
+import { ethers, network } from 'hardhat'
+import { existsSync, readFileSync } from 'fs'
+import { Signer } from 'ethers'
+import { AwsKmsSigner } from './ethers-aws-kms-signer'
+
+// Secrets are never read from the signer config, only from the environment:
+// AWS_ACCESS_KEY_ID and AWS_ACCESS_KEY_SECRET (optional, the default AWS credential chain is used otherwise),
+// KEYSTORE_PASSWORD and MNEMONIC
+
+export type SignerConfig =
+  // keyId is a key id, ARN or alias such as "alias/deployer", AWS_KMS_KEY_ID by default
+  | { type: 'aws-kms'; region: string; keyId?: string }
+  // encrypted JSON keystore, decrypted with KEYSTORE_PASSWORD
+  | { type: 'keystore'; path: string }
+  | { type: 'mnemonic'; derivationPath?: string }
+  // Hardhat networks only, usually a fork, to send transactions as any account without its key
+  | { type: 'impersonate'; address: string }
+  // an account of the network in hardhat.config.ts
+  | { type: 'hardhat'; index?: number }
+
+const LOCAL_NETWORKS = ['hardhat', 'localhost']
+const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0"
+
+let signer: Promise<Signer> | undefined
+
+/**
+ * @notice Gets the path of the signer config of a network
+ * @dev Set with the SIGNER_CONFIG environment variable, addresses/<network>/signer.json by default
+ * @param networkName The network name
+ * @returns The path of the signer config
+ */
+export function signerConfigPath(networkName: string) {
+  return process.env.SIGNER_CONFIG ?? `addresses/${networkName}/signer.json`
+}
+
+/**
+ * @notice Reads the signer config of a network
+ * @dev Local networks without a signer config use the first account of Hardhat
+ * @param networkName The network name
+ * @returns The signer config
+ * @throws Error when a live network has no signer config
+ */
+export function readSignerConfig(networkName: string): SignerConfig {
+  const path = signerConfigPath(networkName)
+  if (existsSync(path)) return JSON.parse(readFileSync(path, 'utf8'))
+  if (LOCAL_NETWORKS.includes(networkName)) return { type: 'hardhat' }
+  throw new Error(`No signer config found at ${path}`)
+}
+
+/**
+ * @notice Builds a signer from its config, connected to the Hardhat provider
+ * @param config The signer config
+ * @returns The signer
+ * @throws Error when a secret is missing from the environment, or when impersonating on a live network
+ */
+export async function createSigner(config: SignerConfig): Promise<Signer> {
+  switch (config.type) {
+    case 'aws-kms': {
+      const keyId = config.keyId ?? process.env.AWS_KMS_KEY_ID
+      if (!keyId) throw new Error('Missing the AWS KMS key, set keyId in the signer config or AWS_KMS_KEY_ID')
+      const { AWS_ACCESS_KEY_ID, AWS_ACCESS_KEY_SECRET } = process.env
+      const credentials =
+        AWS_ACCESS_KEY_ID && AWS_ACCESS_KEY_SECRET
+          ? { accessKeyId: AWS_ACCESS_KEY_ID, secretAccessKey: AWS_ACCESS_KEY_SECRET }
+          : undefined
+      return new AwsKmsSigner({ region: config.region, keyId, credentials }).connect(ethers.provider)
+    }
+    case 'keystore': {
+      const password = process.env.KEYSTORE_PASSWORD
+      if (password === undefined) throw new Error('Missing KEYSTORE_PASSWORD')
+      const wallet = await ethers.Wallet.fromEncryptedJson(readFileSync(config.path, 'utf8'), password)
+      return wallet.connect(ethers.provider)
+    }
+    case 'mnemonic': {
+      const mnemonic = process.env.MNEMONIC
+      if (!mnemonic) throw new Error('Missing MNEMONIC')
+      const derivationPath = config.derivationPath ?? DEFAULT_DERIVATION_PATH
+      return ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, derivationPath).connect(ethers.provider)
+    }
+    case 'impersonate':
+      if (!LOCAL_NETWORKS.includes(network.name)) {
+        throw new Error(`Accounts can only be impersonated on Hardhat networks, not on ${network.name}`)
+      }
+      return ethers.getImpersonatedSigner(config.address)
+    case 'hardhat':
+      return (await ethers.getSigners())[config.index ?? 0]
+    default:
+      throw new Error(`Unknown signer type ${(config as { type: string }).type}`)
+  }
+}
+
+/**
+ * @notice Gets the signer of the network, which deploys, upgrades and administrates the contracts
+ * @dev Built once per process from the signer config of the network, see readSignerConfig
+ * @returns The signer
+ */
+export function getSigner(): Promise<Signer> {
+  if (!signer) signer = createSigner(readSignerConfig(network.name))
+  return signer
+}
+
+/**
+ * @notice Sets the fee data of the transactions sent by the signer
+ * @param CUSTOM_FEE_DATA The custom fee data, the fee data of the network is used when undefined
+ */
+export function useCustomFeeData(CUSTOM_FEE_DATA?: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }) {
+  if (CUSTOM_FEE_DATA === undefined) return
+  const FEE_DATA: any = CUSTOM_FEE_DATA
+  ethers.provider.getFeeData = async () => FEE_DATA
+}
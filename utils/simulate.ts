@@ -0,0 +1,398 @@
+import { ethers, network } from 'hardhat'
+import { BaseContract, formatEther, formatUnits, Interface, Log, Overrides, TransactionRequest } from 'ethers'
+import { colors, print } from './misc'
+import { withRevertDecoding } from './errors'
+import {
+  IERC1155__factory,
+  IERC20__factory,
+  IERC721__factory,
+  IERC7432__factory,
+  IERC7589__factory,
+  IERC7589Legacy__factory,
+  NftRentalMarketplace__factory,
+  OriumMarketplaceRoyalties__factory,
+  OriumSftMarketplace__factory,
+} from '../typechain-types'
+
+// Interfaces used to decode the logs of simulated transactions, after the interface of the called contract
+const EVENT_INTERFACES: Interface[] = [
+  NftRentalMarketplace__factory.createInterface(),
+  OriumSftMarketplace__factory.createInterface(),
+  OriumMarketplaceRoyalties__factory.createInterface(),
+  IERC7432__factory.createInterface(),
+  IERC7589__factory.createInterface(),
+  IERC7589Legacy__factory.createInterface(),
+  IERC20__factory.createInterface(),
+  IERC721__factory.createInterface(),
+  IERC1155__factory.createInterface(),
+]
+
+const ERC1155_INTERFACE = IERC1155__factory.createInterface()
+// ERC-20 and ERC-721 share the Transfer topic, ERC-721 also indexes the token ID
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)')
+const TRANSFER_SINGLE_TOPIC = ERC1155_INTERFACE.getEvent('TransferSingle').topicHash
+const TRANSFER_BATCH_TOPIC = ERC1155_INTERFACE.getEvent('TransferBatch').topicHash
+const VALUE_CALL_OPCODES = ['CALL', 'CALLCODE']
+const ADDRESS_MODULO = BigInt(2) ** BigInt(160)
+
+export interface SimulatedEvent {
+  address: string
+  // undefined when no known interface decodes the log
+  name?: string
+  args?: Record<string, unknown>
+  topics: readonly string[]
+  data: string
+}
+
+export interface TokenTransfer {
+  standard: 'native' | 'ERC-20' | 'ERC-721' | 'ERC-1155'
+  // the zero address for native token transfers
+  token: string
+  from: string
+  to: string
+  tokenId?: bigint
+  amount: bigint
+}
+
+export interface SimulationReport {
+  from: string
+  to: string
+  functionName: string
+  result: unknown
+  gasEstimate: bigint
+  gasPrice: bigint
+  // gasEstimate * gasPrice, in wei of the native token
+  gasCost: bigint
+  // undefined when the network cannot trace the call, see simulateContractCall
+  events?: SimulatedEvent[]
+  transfers?: TokenTransfer[]
+}
+
+interface CallFrame {
+  from: string
+  to: string
+  value?: string
+  logs?: { address: string; topics: string[]; data: string }[]
+  calls?: CallFrame[]
+}
+
+interface StructLog {
+  op: string
+  depth: number
+  stack?: string[]
+}
+
+/**
+ * @notice Simulates a contract call without broadcasting it
+ * @dev The call is run with staticCall and estimateGas. On the Hardhat network, including forks, the transaction is
+ * also sent from the impersonated sender inside a snapshot that is reverted afterwards, to decode its events and native
+ * token transfers. The same applies to Hardhat nodes, such as forks run with `npx hardhat node`. Other networks are
+ * traced with debug_traceCall, when the RPC node supports the callTracer
+ * @param contract The contract to call
+ * @param functionName The function to call
+ * @param args The arguments of the function
+ * @param from The address sending the transaction, which does not need to be a local signer
+ * @param maxFeePerGas The gas price used for the gas cost, the network fee data by default
+ * @returns The return value, the gas estimate and cost, the events and the token transfers
+ * @throws MarketplaceError when the call reverts
+ */
+export async function simulateContractCall(
+  contract: BaseContract,
+  functionName: string,
+  args: unknown[],
+  from: string,
+  maxFeePerGas?: bigint,
+): Promise<SimulationReport> {
+  const transaction = await transactionOf(contract, functionName, args, from)
+  const returnData = await withRevertDecoding(() => ethers.provider.call(transaction))
+  const result = contract.interface.decodeFunctionResult(functionName, returnData).toArray()
+  const gasEstimate = await withRevertDecoding(() => ethers.provider.estimateGas(transaction))
+  const feeData = await ethers.provider.getFeeData()
+  const gasPrice = maxFeePerGas ?? feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0)
+
+  const trace = (await isHardhatNode()) ? await traceOnSnapshot(transaction) : await traceCall(transaction)
+  const interfaces = [contract.interface, ...EVENT_INTERFACES]
+
+  return {
+    from,
+    to: transaction.to as string,
+    functionName,
+    result,
+    gasEstimate,
+    gasPrice,
+    gasCost: gasEstimate * gasPrice,
+    events: trace?.logs.map(log => decodeLog(interfaces, log)),
+    transfers: trace && [...trace.nativeTransfers, ...trace.logs.flatMap(tokenTransfersOf)],
+  }
+}
+
+/**
+ * @notice Simulates contract calls that are sent in order, such as approvals followed by the call that needs them
+ * @dev On the Hardhat network and Hardhat nodes, each call is applied from the impersonated sender after its
+ * simulation, inside a snapshot reverted at the end, so each call is simulated after the previous ones. Other networks
+ * simulate each call against the current state, where a call depending on a previous one may revert
+ * @param calls The contracts, functions and arguments to call, in order
+ * @param from The address sending the transactions, which does not need to be a local signer
+ * @param maxFeePerGas The gas price used for the gas costs, the network fee data by default
+ * @returns The report of each call, see simulateContractCall
+ * @throws MarketplaceError when a call reverts
+ */
+export async function simulateContractCalls(
+  calls: { contract: BaseContract; functionName: string; args: unknown[] }[],
+  from: string,
+  maxFeePerGas?: bigint,
+): Promise<SimulationReport[]> {
+  const reports: SimulationReport[] = []
+  if (!(await isHardhatNode())) {
+    for (const { contract, functionName, args } of calls) {
+      reports.push(await simulateContractCall(contract, functionName, args, from, maxFeePerGas))
+    }
+    return reports
+  }
+
+  const snapshotId = await ethers.provider.send('evm_snapshot', [])
+  try {
+    for (const { contract, functionName, args } of calls) {
+      reports.push(await simulateContractCall(contract, functionName, args, from, maxFeePerGas))
+      await (await sendImpersonated(await transactionOf(contract, functionName, args, from))).wait()
+    }
+    return reports
+  } finally {
+    await ethers.provider.send('evm_revert', [snapshotId])
+    await ethers.provider.send('hardhat_stopImpersonatingAccount', [from])
+  }
+}
+
+/**
+ * @notice Prints a simulation report
+ * @dev ERC-20 amounts are formatted with the decimals of the token when it exposes them
+ * @param report The report returned by simulateContractCall
+ */
+export async function printSimulation(report: SimulationReport) {
+  print(colors.highlight, `Simulated ${report.functionName} from ${report.from} to ${report.to}, nothing was broadcast`)
+  print(colors.highlight, `Return value:`)
+  console.log(report.result)
+  print(
+    colors.highlight,
+    `Gas: ${report.gasEstimate} at ${formatUnits(report.gasPrice, 'gwei')} gwei, ` +
+      `${formatEther(report.gasCost)} in native token`,
+  )
+
+  if (!report.events || !report.transfers) {
+    print(
+      colors.warn,
+      'The RPC node cannot trace calls, run the simulation on a Hardhat fork to see events and transfers',
+    )
+    return
+  }
+
+  print(colors.highlight, `Events (${report.events.length}):`)
+  report.events.forEach(event =>
+    console.log(`  ${event.address} ${event.name ?? `unknown ${event.topics[0]}`}`, event.args ?? event.data),
+  )
+
+  print(colors.highlight, `Token transfers (${report.transfers.length}):`)
+  for (const transfer of report.transfers) {
+    const tokenId = transfer.tokenId === undefined ? '' : ` #${transfer.tokenId}`
+    const token = transfer.standard === 'native' ? 'native token' : `${transfer.standard} ${transfer.token}${tokenId}`
+    console.log(`  ${await formatAmount(transfer)} ${token} from ${transfer.from} to ${transfer.to}`)
+  }
+}
+
+/**
+ * @dev True on the Hardhat network and on Hardhat nodes, such as `npx hardhat node --fork`
+ */
+async function isHardhatNode() {
+  if (network.name === 'hardhat') return true
+  try {
+    await ethers.provider.send('hardhat_metadata', [])
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function transactionOf(
+  contract: BaseContract,
+  functionName: string,
+  args: unknown[],
+  from: string,
+): Promise<TransactionRequest> {
+  // like contract calls, the arguments may end with the transaction overrides, such as the native token value
+  const { inputs } = contract.interface.getFunction(functionName)!
+  const overrides = (args.length > inputs.length ? args[inputs.length] : {}) as Overrides
+  return {
+    from,
+    to: await contract.getAddress(),
+    data: contract.interface.encodeFunctionData(functionName, args.slice(0, inputs.length)),
+    value: overrides.value,
+  }
+}
+
+/**
+ * @dev Must run inside a snapshot: the sender stays impersonated and gets native tokens, since it may not hold enough
+ * of them on a fork
+ */
+async function sendImpersonated(transaction: TransactionRequest) {
+  const from = transaction.from as string
+  await ethers.provider.send('hardhat_impersonateAccount', [from])
+  const balance = await ethers.provider.getBalance(from)
+  await ethers.provider.send('hardhat_setBalance', [from, ethers.toQuantity(balance + ethers.parseEther('1000'))])
+
+  const signer = await ethers.getSigner(from)
+  return signer.sendTransaction({ to: transaction.to, data: transaction.data, value: transaction.value })
+}
+
+/**
+ * @dev Sends the transaction from the impersonated sender and reverts the chain state afterwards
+ */
+async function traceOnSnapshot(transaction: TransactionRequest) {
+  const from = transaction.from as string
+  const snapshotId = await ethers.provider.send('evm_snapshot', [])
+  try {
+    const response = await sendImpersonated(transaction)
+    const receipt = await response.wait()
+    const { structLogs } = await ethers.provider.send('debug_traceTransaction', [
+      response.hash,
+      { disableMemory: true, disableStorage: true },
+    ])
+
+    return {
+      logs: receipt!.logs as readonly Pick<Log, 'address' | 'topics' | 'data'>[],
+      nativeTransfers: [
+        ...(transaction.value ? [nativeTransfer(from, transaction.to as string, BigInt(transaction.value))] : []),
+        ...nativeTransfersOf(structLogs, transaction.to as string),
+      ],
+    }
+  } finally {
+    await ethers.provider.send('evm_revert', [snapshotId])
+    await ethers.provider.send('hardhat_stopImpersonatingAccount', [from])
+  }
+}
+
+/**
+ * @dev Returns undefined when the RPC node does not support debug_traceCall with the callTracer
+ */
+async function traceCall(transaction: TransactionRequest) {
+  let frame: CallFrame
+  try {
+    frame = await ethers.provider.send('debug_traceCall', [
+      {
+        from: transaction.from,
+        to: transaction.to,
+        data: transaction.data,
+        value: transaction.value == null ? undefined : ethers.toQuantity(transaction.value),
+      },
+      'latest',
+      { tracer: 'callTracer', tracerConfig: { withLog: true } },
+    ])
+  } catch {
+    return undefined
+  }
+
+  const logs: Pick<Log, 'address' | 'topics' | 'data'>[] = []
+  const nativeTransfers: TokenTransfer[] = []
+  const visit = (call: CallFrame) => {
+    if (call.value && BigInt(call.value) > BigInt(0)) {
+      nativeTransfers.push(nativeTransfer(call.from, call.to, BigInt(call.value)))
+    }
+    call.logs?.forEach(log => logs.push(log))
+    call.calls?.forEach(visit)
+  }
+  visit(frame)
+  return { logs, nativeTransfers }
+}
+
+/**
+ * @dev Reads the value of the CALL opcodes of a default tracer trace, keeping the address running at each depth
+ */
+function nativeTransfersOf(structLogs: StructLog[], to: string): TokenTransfer[] {
+  const addresses = [to]
+  const transfers: TokenTransfer[] = []
+  for (const { op, depth, stack } of structLogs) {
+    if (!stack || !['CALL', 'CALLCODE', 'DELEGATECALL', 'STATICCALL'].includes(op)) continue
+
+    // the stack is listed bottom to top: the call gas is the last item, followed by the address and the value
+    const target = ethers.getAddress(ethers.toBeHex(stackItem(stack, 2) % ADDRESS_MODULO, 20))
+    const caller = addresses[depth - 1]
+    addresses[depth] = op === 'DELEGATECALL' || op === 'CALLCODE' ? caller : target
+
+    if (VALUE_CALL_OPCODES.includes(op)) {
+      const value = stackItem(stack, 3)
+      if (value > BigInt(0)) transfers.push(nativeTransfer(caller, target, value))
+    }
+  }
+  return transfers
+}
+
+function stackItem(stack: string[], positionFromTop: number): bigint {
+  const item = stack[stack.length - positionFromTop]
+  return BigInt(item.startsWith('0x') ? item : `0x${item}`)
+}
+
+function nativeTransfer(from: string, to: string, amount: bigint): TokenTransfer {
+  return {
+    standard: 'native',
+    token: ethers.ZeroAddress,
+    from: ethers.getAddress(from),
+    to: ethers.getAddress(to),
+    amount,
+  }
+}
+
+function tokenTransfersOf(log: Pick<Log, 'address' | 'topics' | 'data'>): TokenTransfer[] {
+  const token = ethers.getAddress(log.address)
+  const [topic] = log.topics
+
+  if (topic === TRANSFER_TOPIC && log.topics.length >= 3) {
+    const from = ethers.getAddress(ethers.dataSlice(log.topics[1], 12))
+    const to = ethers.getAddress(ethers.dataSlice(log.topics[2], 12))
+    if (log.topics.length === 4) {
+      return [{ standard: 'ERC-721', token, from, to, tokenId: BigInt(log.topics[3]), amount: BigInt(1) }]
+    }
+    return [{ standard: 'ERC-20', token, from, to, amount: BigInt(log.data) }]
+  }
+
+  if (topic === TRANSFER_SINGLE_TOPIC || topic === TRANSFER_BATCH_TOPIC) {
+    const { args } = ERC1155_INTERFACE.parseLog(log)!
+    const tokenIds: bigint[] = topic === TRANSFER_SINGLE_TOPIC ? [args.id] : [...args.ids]
+    // args.values is shadowed by Result.values(), so the amounts of TransferBatch are read by position
+    const amounts: bigint[] = topic === TRANSFER_SINGLE_TOPIC ? [args.value] : [...args[4]]
+    return tokenIds.map((tokenId, index) => ({
+      standard: 'ERC-1155',
+      token,
+      from: args.from,
+      to: args.to,
+      tokenId,
+      amount: amounts[index],
+    }))
+  }
+
+  return []
+}
+
+function decodeLog(interfaces: Interface[], log: Pick<Log, 'address' | 'topics' | 'data'>): SimulatedEvent {
+  const event: SimulatedEvent = { address: log.address, topics: log.topics, data: log.data }
+  for (const eventInterface of interfaces) {
+    try {
+      const description = eventInterface.parseLog(log)
+      if (description) {
+        return { ...event, name: description.name, args: description.args.toObject() }
+      }
+    } catch {
+      // same topic with a different set of indexed arguments, such as ERC-721 Transfer, try the next interface
+    }
+  }
+  return event
+}
+
+async function formatAmount(transfer: TokenTransfer): Promise<string> {
+  if (transfer.standard === 'native') return formatEther(transfer.amount)
+  if (transfer.standard !== 'ERC-20') return transfer.amount.toString()
+  try {
+    const token = await ethers.getContractAt('IERC20Metadata', transfer.token)
+    return `${formatUnits(transfer.amount, await token.decimals())} (${transfer.amount})`
+  } catch {
+    return transfer.amount.toString()
+  }
+}
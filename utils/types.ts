@@ -9,12 +9,14 @@ export interface RoyaltyInfo {
   treasury: string
 }
 
+// uint256 fields are bigint, uint64 fields (timestamps and durations) are number
+
 export interface RentalOffer {
-  nonce: string
+  nonce: bigint
   lender: string
   borrower: string
   tokenAddress: string
-  tokenId: number
+  tokenId: bigint
   feeTokenAddress: string
   feeAmountPerSecond: bigint
   deadline: number
@@ -23,9 +25,14 @@ export interface RentalOffer {
   rolesData: string[]
 }
 
+export interface Rental {
+  borrower: string
+  expirationDate: number
+}
+
 export interface DirectRental {
   tokenAddress: string
-  tokenId: number
+  tokenId: bigint
   lender: string
   borrower: string
   duration: number
@@ -41,7 +48,7 @@ export interface SftRentalOffer extends RentalOffer {
 export interface CommitAndGrantRoleParams {
   commitmentId: bigint
   tokenAddress: string
-  tokenId: number
+  tokenId: bigint
   tokenAmount: bigint
   role: string
   grantee: string
@@ -53,9 +60,27 @@ export interface CommitAndGrantRoleParams {
 export interface GrantRoleParams {
   roleId: string
   tokenAddress: string
-  tokenId: number
+  tokenId: bigint
   recipient: string
   expirationDate: number
   revocable: boolean
   data: string
 }
+
+export interface RevokeRoleParams {
+  tokenAddress: string
+  tokenId: bigint
+  roleId: string
+}
+
+export interface SftRevokeRoleParams {
+  commitmentId: bigint
+  role: string
+  grantee: string
+  tokenAddress: string
+}
+
+export interface ReleaseTokensParams {
+  tokenAddress: string
+  commitmentId: bigint
+}
@@ -0,0 +1,64 @@
+import { parseUnits } from 'ethers'
+
+const SECONDS_PER_UNIT: Record<string, number> = {
+  s: 1,
+  sec: 1,
+  second: 1,
+  seconds: 1,
+  m: 60,
+  min: 60,
+  minute: 60,
+  minutes: 60,
+  h: 60 * 60,
+  hour: 60 * 60,
+  hours: 60 * 60,
+  d: 60 * 60 * 24,
+  day: 60 * 60 * 24,
+  days: 60 * 60 * 24,
+  w: 60 * 60 * 24 * 7,
+  week: 60 * 60 * 24 * 7,
+  weeks: 60 * 60 * 24 * 7,
+}
+
+/**
+ * @notice Parses a human-readable duration
+ * @dev Accepts numbers of seconds, such as "3600", and amounts of units, such as "12h", "7 days" or "1d 12h"
+ * @param value The duration
+ * @returns The duration in seconds
+ */
+export function parseDuration(value: string | number): number {
+  const duration = String(value).trim().toLowerCase()
+  if (/^\d+$/.test(duration)) return Number(duration)
+
+  const parts = [...duration.matchAll(/(\d+(?:\.\d+)?)\s*([a-z]+)\s*/g)]
+  if (parts.length === 0 || parts.map(part => part[0]).join('') !== duration) {
+    throw new Error(`Invalid duration: ${value}`)
+  }
+
+  return parts.reduce((seconds, [, amount, unit]) => {
+    if (!SECONDS_PER_UNIT[unit]) throw new Error(`Invalid duration unit "${unit}" in ${value}`)
+    return seconds + Math.floor(Number(amount) * SECONDS_PER_UNIT[unit])
+  }, 0)
+}
+
+/**
+ * @notice Parses a human-readable rental price into the feeAmountPerSecond of a rental offer
+ * @dev Accepts prices per period, such as "0.173 per day" or "1.5/12h", and plain fee amounts per second in wei.
+ * The fee amount per second is rounded down, like etherPerDayToWeiPerSecond
+ * @param value The price
+ * @param decimals The decimals of the fee token, 18 by default
+ * @returns The fee amount per second, in the smallest unit of the fee token
+ */
+export function parsePricePerSecond(value: string | number | bigint, decimals = 18): bigint {
+  const price = String(value).trim().toLowerCase()
+  if (/^\d+$/.test(price)) return BigInt(price)
+
+  const match = price.match(/^(\d+(?:\.\d+)?)\s*(?:per|\/)\s*(.+)$/)
+  if (!match) throw new Error(`Invalid price: ${value}`)
+
+  const [, amount, period] = match
+  // "per day" means "per 1 day"
+  const periodInSeconds = parseDuration(/^\d/.test(period) ? period : `1${period}`)
+  if (periodInSeconds === 0) throw new Error(`Invalid price period: ${value}`)
+  return parseUnits(amount, decimals) / BigInt(periodInSeconds)
+}
@@ -0,0 +1,349 @@
+import hre, { ethers, network, upgrades } from 'hardhat'
+import { ContractFactory, Fragment, FunctionFragment, EventFragment } from 'ethers'
+import {
+  getStorageLayoutForAddress,
+  getStorageUpgradeReport,
+  Manifest,
+  StorageLayout,
+} from '@openzeppelin/upgrades-core'
+import { getDeployData } from '@openzeppelin/hardhat-upgrades/dist/utils/deploy-impl'
+import { colors, confirmOrDie, print } from './misc'
+import { deploymentHistoryPath, eventSignaturesOf, readDeploymentHistory } from './deployment-history'
+
+const PUSH1 = 0x60
+const PUSH4 = 0x63
+const PUSH20 = 0x73
+const PUSH32 = 0x7f
+const EQ = 0x14
+// libraries are linked to a placeholder, the storage layout and the ABI do not depend on their addresses
+const PLACEHOLDER_LIBRARY_ADDRESS = '0x0000000000000000000000000000000000000001'
+const LIBRARY_PLACEHOLDER = /__\$[0-9a-fA-F]{34}\$__/g
+const ZERO_ADDRESS = '0'.repeat(40)
+
+export type LibraryChange = 'ADDED' | 'REMOVED' | 'CHANGED' | 'UNCHANGED'
+
+export interface UpgradeCheckReport {
+  contractName: string
+  proxy: string
+  currentImplementation: string
+  storage: {
+    ok: boolean
+    // OpenZeppelin explanation of the incompatibilities, or why the current layout is unknown
+    explanation?: string
+    added: string[]
+    removed: string[]
+  }
+  // removed functions and events break the frontend and the indexers. A changed function signature removes a selector
+  // no compiled ABI knows, so it is reported as an unknown removed selector
+  functions: { added: string[]; removed: string[]; unknownRemovedSelectors: string[] }
+  events: {
+    // events of the live implementation recorded in the deployment history, or recovered from its bytecode
+    source: 'history' | 'bytecode'
+    added: string[]
+    removed: string[]
+    // bytecode only, 32-byte constants of the live code the new build no longer has and no compiled event is named by,
+    // such as the topic of an event whose signature changed
+    unknownRemovedTopics: string[]
+  }
+  libraries: { name: string; change: LibraryChange; currentAddress?: string }[]
+  ok: boolean
+}
+
+interface BytecodeConstants {
+  // PUSH4 values compared with EQ, the selectors of the function dispatcher
+  selectors: Set<string>
+  // PUSH32 values, which include the topics of the emitted events
+  words: Set<string>
+}
+
+/**
+ * @notice Compares the live implementation of a proxy with the current build of its contract
+ * @dev The storage layout of the live implementation is read from the OpenZeppelin manifest and compared by the
+ * OpenZeppelin storage checks. Live functions are recovered from the dispatcher selectors of the implementation
+ * bytecode and named with the ABIs of the compiled contracts. Live events are the ones recorded with the implementation
+ * in the deployment history, including their indexed arguments. Implementations deployed before the history are
+ * compared through the 32-byte constants of their bytecode and of their libraries, which include the event topics
+ * @param contractName The name of the contract
+ * @param proxyAddress The proxy address
+ * @param currentLibraries The libraries of the live implementation, from the config file
+ * @returns The report, ok when the storage layout is compatible and no function, event or unknown selector or topic was
+ * removed
+ */
+export async function checkUpgrade(
+  contractName: string,
+  proxyAddress: string,
+  currentLibraries: Record<string, string> | string[] = {},
+): Promise<UpgradeCheckReport> {
+  const currentImplementation = await upgrades.erc1967.getImplementationAddress(proxyAddress)
+  const artifact = await hre.artifacts.readArtifact(contractName)
+  const libraryNames = Object.values(artifact.linkReferences).flatMap(references => Object.keys(references))
+  const ContractFactory = await ethers.getContractFactory(contractName, {
+    libraries: Object.fromEntries(libraryNames.map(name => [name, PLACEHOLDER_LIBRARY_ADDRESS])),
+  })
+
+  // arrays are the library addresses written by older scripts, in link order
+  const currentLibraryAddresses: Record<string, string> = Array.isArray(currentLibraries)
+    ? Object.fromEntries(currentLibraries.map((address, index) => [libraryNames[index] ?? `library ${index}`, address]))
+    : currentLibraries
+
+  const liveCode = scanBytecode(await ethers.provider.getCode(currentImplementation))
+  const newCode = scanBytecode(artifact.deployedBytecode)
+  for (const address of Object.values(currentLibraryAddresses)) {
+    scanBytecode(await ethers.provider.getCode(address)).words.forEach(word => liveCode.words.add(word))
+  }
+  for (const name of libraryNames) {
+    const { deployedBytecode } = await hre.artifacts.readArtifact(name)
+    scanBytecode(deployedBytecode).words.forEach(word => newCode.words.add(word))
+  }
+
+  const knownFragments = await compiledFragments()
+  const newFunctions = ContractFactory.interface.fragments.filter(FunctionFragment.isFunction)
+  const newSelectors = new Set(newFunctions.map(fragment => fragment.selector))
+  const removedSelectors = [...liveCode.selectors].filter(selector => !newSelectors.has(selector))
+
+  const storage = await checkStorage(ContractFactory, currentImplementation)
+  const functions = {
+    added: newFunctions.filter(fragment => !liveCode.selectors.has(fragment.selector)).map(signatureOf),
+    removed: removedSelectors
+      .filter(selector => knownFragments.functions.has(selector))
+      .map(selector => knownFragments.functions.get(selector)!),
+    unknownRemovedSelectors: removedSelectors.filter(selector => !knownFragments.functions.has(selector)),
+  }
+  const events = await compareEvents(contractName, currentImplementation, liveCode, newCode, knownFragments.events)
+  const libraries = await compareLibraries(libraryNames, currentLibraryAddresses)
+
+  return {
+    contractName,
+    proxy: proxyAddress,
+    currentImplementation,
+    storage,
+    functions,
+    events,
+    libraries,
+    ok:
+      storage.ok &&
+      functions.removed.length === 0 &&
+      functions.unknownRemovedSelectors.length === 0 &&
+      events.removed.length === 0 &&
+      events.unknownRemovedTopics.length === 0,
+  }
+}
+
+/**
+ * @notice Prints an upgrade check report
+ * @param report The report returned by checkUpgrade
+ */
+export function printUpgradeCheck(report: UpgradeCheckReport) {
+  print(colors.highlight, `Upgrade check of ${report.contractName} (${report.proxy})`)
+  print(colors.cyan, `Live implementation: ${report.currentImplementation}`)
+
+  print(
+    report.storage.ok ? colors.success : colors.error,
+    `Storage layout: ${report.storage.ok ? 'compatible' : 'INCOMPATIBLE'}`,
+  )
+  if (report.storage.explanation) console.log(report.storage.explanation)
+  report.storage.added.forEach(variable => print(colors.green, `  + ${variable}`))
+  report.storage.removed.forEach(variable => print(colors.red, `  - ${variable}`))
+
+  printChanges('Functions', report.functions.added, report.functions.removed)
+  report.functions.unknownRemovedSelectors.forEach(selector =>
+    print(colors.warn, `  ? ${selector} is dispatched by the live implementation but unknown to the compiled ABIs`),
+  )
+  printChanges(`Events (live events from the ${report.events.source})`, report.events.added, report.events.removed)
+  report.events.unknownRemovedTopics.forEach(topic =>
+    print(
+      colors.warn,
+      `  ? ${topic} is a constant of the live bytecode, unknown to the new build and the compiled ABIs`,
+    ),
+  )
+
+  print(colors.cyan, 'Libraries:')
+  report.libraries.forEach(({ name, change, currentAddress }) =>
+    print(
+      change === 'UNCHANGED' ? colors.green : colors.warn,
+      `  ${name}: ${change}${currentAddress ? ` (live ${currentAddress})` : ''}`,
+    ),
+  )
+  print(report.ok ? colors.success : colors.error, report.ok ? 'Upgrade check passed' : 'Upgrade check FAILED')
+}
+
+/**
+ * @notice Checks an upgrade and blocks it unless it passes or the operator overrides the check
+ * @dev The check can only be overridden with ALLOW_INCOMPATIBLE_UPGRADE=true, which still asks for a confirmation
+ * @param contractName The name of the contract
+ * @param proxyAddress The proxy address
+ * @param currentLibraries The libraries of the live implementation, from the config file
+ * @returns The report
+ * @throws Error when the check fails and is not overridden
+ */
+export async function assertUpgradeCompatible(
+  contractName: string,
+  proxyAddress: string,
+  currentLibraries?: Record<string, string> | string[],
+): Promise<UpgradeCheckReport> {
+  const report = await checkUpgrade(contractName, proxyAddress, currentLibraries)
+  printUpgradeCheck(report)
+  if (report.ok) return report
+
+  if (process.env.ALLOW_INCOMPATIBLE_UPGRADE !== 'true') {
+    throw new Error(`Upgrade check of ${contractName} failed, set ALLOW_INCOMPATIBLE_UPGRADE=true to override it`)
+  }
+  await confirmOrDie(`The upgrade check of ${contractName} failed. Are you sure you want to override it?`, {
+    contract: contractName,
+    proxy: proxyAddress,
+    storage: report.storage,
+    functions: report.functions,
+    events: report.events,
+  })
+  return report
+}
+
+async function checkStorage(ContractFactory: ContractFactory, currentImplementation: string) {
+  const deployData = await getDeployData(hre, ContractFactory, {
+    unsafeAllowLinkedLibraries: true,
+    kind: 'transparent',
+  })
+  let currentLayout: StorageLayout
+  try {
+    const manifest = await Manifest.forNetwork(hre.network.provider)
+    currentLayout = await getStorageLayoutForAddress(manifest, deployData.validations, currentImplementation)
+  } catch (e) {
+    const explanation = `The storage layout of ${currentImplementation} is unknown, import the proxy with upgrades.forceImport: ${e}`
+    return { ok: false, explanation, added: [], removed: [] }
+  }
+
+  const report = getStorageUpgradeReport(currentLayout, deployData.layout, deployData.fullOpts)
+  const currentVariables = currentLayout.storage.map(item => variableOf(item, currentLayout))
+  const newVariables = deployData.layout.storage.map(item => variableOf(item, deployData.layout))
+  return {
+    ok: report.ok,
+    explanation: report.ok ? undefined : report.explain(false),
+    added: newVariables.filter(variable => !currentVariables.includes(variable)),
+    removed: currentVariables.filter(variable => !newVariables.includes(variable)),
+  }
+}
+
+async function compareEvents(
+  contractName: string,
+  currentImplementation: string,
+  liveCode: BytecodeConstants,
+  newCode: BytecodeConstants,
+  knownEvents: Map<string, string>,
+): Promise<UpgradeCheckReport['events']> {
+  const record = readDeploymentHistory(deploymentHistoryPath(network.name))
+    .reverse()
+    .find(({ entry, events }) => events && entry.implementation?.toLowerCase() === currentImplementation.toLowerCase())
+
+  if (record?.events) {
+    const liveEvents = record.events
+    const newEvents = await eventSignaturesOf(contractName)
+    return {
+      source: 'history',
+      added: newEvents.filter(event => !liveEvents.includes(event)),
+      removed: liveEvents.filter(event => !newEvents.includes(event)),
+      unknownRemovedTopics: [],
+    }
+  }
+
+  const liveEvents = [...liveCode.words].flatMap(word => knownEvents.get(word) ?? [])
+  const newEvents = [...newCode.words].flatMap(word => knownEvents.get(word) ?? [])
+  return {
+    source: 'bytecode',
+    added: newEvents.filter(event => !liveEvents.includes(event)),
+    removed: liveEvents.filter(event => !newEvents.includes(event)),
+    unknownRemovedTopics: [...liveCode.words].filter(
+      word => !newCode.words.has(word) && !knownEvents.has(word) && isHashLike(word),
+    ),
+  }
+}
+
+async function compareLibraries(libraryNames: string[], currentLibraries: Record<string, string>) {
+  const names = [...new Set([...libraryNames, ...Object.keys(currentLibraries)])]
+  const libraries: UpgradeCheckReport['libraries'] = []
+  for (const name of names) {
+    const currentAddress = currentLibraries[name]
+    if (!libraryNames.includes(name)) {
+      libraries.push({ name, change: 'REMOVED', currentAddress })
+    } else if (!currentAddress) {
+      libraries.push({ name, change: 'ADDED' })
+    } else {
+      const { deployedBytecode } = await hre.artifacts.readArtifact(name)
+      const liveBytecode = await ethers.provider.getCode(currentAddress)
+      const change = normalizeLibrary(liveBytecode) === normalizeLibrary(deployedBytecode) ? 'UNCHANGED' : 'CHANGED'
+      libraries.push({ name, change, currentAddress })
+    }
+  }
+  return libraries
+}
+
+// functions and events of every compiled contract, to name the selectors and topics found in bytecode
+async function compiledFragments() {
+  const functions = new Map<string, string>()
+  const events = new Map<string, string>()
+  for (const name of await hre.artifacts.getAllFullyQualifiedNames()) {
+    const { abi } = await hre.artifacts.readArtifact(name)
+    for (const fragment of abi.map(item => Fragment.from(item))) {
+      if (FunctionFragment.isFragment(fragment)) functions.set(fragment.selector, signatureOf(fragment))
+      if (EventFragment.isFragment(fragment)) events.set(fragment.topicHash, fragment.format('minimal'))
+    }
+  }
+  return { functions, events }
+}
+
+function scanBytecode(bytecode: string): BytecodeConstants {
+  // the deployed bytecode of the artifacts has placeholders where libraries are linked
+  const code = withoutMetadata(ethers.getBytes(bytecode.replace(LIBRARY_PLACEHOLDER, ZERO_ADDRESS)))
+  const selectors = new Set<string>()
+  const words = new Set<string>()
+  for (let position = 0; position < code.length; position++) {
+    const opcode = code[position]
+    if (opcode < PUSH1 || opcode > PUSH32) continue
+    const size = opcode - PUSH1 + 1
+    const value = ethers.hexlify(code.slice(position + 1, position + 1 + size))
+    if (opcode === PUSH4 && code[position + 1 + size] === EQ) selectors.add(value)
+    if (opcode === PUSH32) words.add(value)
+    position += size
+  }
+  return { selectors, words }
+}
+
+// keccak256 outputs, such as event topics, as opposed to chunks of revert strings and bit masks
+function isHashLike(word: string): boolean {
+  const bytes = ethers.getBytes(word)
+  if (bytes.every(byte => byte === 0 || (byte >= 0x20 && byte < 0x7f))) return false
+  return !bytes.some(
+    (byte, index) =>
+      index >= 2 && (byte === 0 || byte === 0xff) && bytes[index - 1] === byte && bytes[index - 2] === byte,
+  )
+}
+
+// strips the metadata hash and the address libraries push to prevent direct calls
+function normalizeLibrary(bytecode: string): string {
+  const code = withoutMetadata(ethers.getBytes(bytecode))
+  if (code[0] === PUSH20) code.fill(0, 1, 21)
+  return ethers.hexlify(code)
+}
+
+// the CBOR metadata appended by solc, whose length is in the last 2 bytes, is not code
+function withoutMetadata(code: Uint8Array): Uint8Array {
+  if (code.length < 2) return code
+  const metadataLength = (code[code.length - 2] << 8) + code[code.length - 1] + 2
+  return metadataLength > code.length ? code : code.slice(0, code.length - metadataLength)
+}
+
+function variableOf(item: StorageLayout['storage'][number], layout: StorageLayout): string {
+  return `${item.contract}.${item.label}: ${layout.types[item.type]?.label ?? item.type}`
+}
+
+function signatureOf(fragment: FunctionFragment | EventFragment): string {
+  return fragment.format('sighash')
+}
+
+function printChanges(title: string, added: string[], removed: string[]) {
+  print(
+    removed.length > 0 ? colors.error : colors.cyan,
+    `${title}:${added.length + removed.length === 0 ? ' unchanged' : ''}`,
+  )
+  added.forEach(signature => print(colors.green, `  + ${signature}`))
+  removed.forEach(signature => print(colors.red, `  - ${signature}`))
+}
@@ -1,14 +1,28 @@
 import hre, { ethers, network, upgrades } from 'hardhat'
+import { ContractTransactionResponse } from 'ethers'
 import { print, confirmOrDie, colors } from './misc'
 import addresses, { Network } from '../addresses'
-import { updateJsonFile } from './json'
-import { kmsDeployer, kmsProvider } from './deployer'
+import { implementationTransactionHash, recordDeployment } from './deployment-history'
+import { getSigner, useCustomFeeData } from './signer'
+import { recordTransaction } from './audit-journal'
+import { ExportOptions, exportOptionsFromEnv, exportUnsignedTransactions } from './offline-transaction'
+import { assertUpgradeCompatible } from './upgrade-check'
 
 const NETWORK = network.name as Network
+// the upgrade points the proxy to an implementation that is not deployed yet, so its gas cannot be estimated
+const UPGRADE_GAS_LIMIT = BigInt(200_000)
+const PROXY_ADMIN_ABI = [
+  'function UPGRADE_INTERFACE_VERSION() view returns (string)',
+  'function upgrade(address proxy, address implementation)',
+  'function upgradeAndCall(address proxy, address implementation, bytes data) payable',
+]
 
 /**
  * @notice Upgrade an proxy contract
- * @dev The contract must existis in a solidity file in the contracts folder with the same name
+ * @dev The contract must existis in a solidity file in the contracts folder with the same name.
+ * When the EXPORT_UNSIGNED environment variable is set, the upgrade is exported as unsigned transactions to be signed
+ * offline by EXPORT_FROM, the owner of the proxy admin, see exportUpgrade. The upgrade is blocked when the new build
+ * fails the upgrade check, unless the operator overrides it, see assertUpgradeCompatible
  * @param PROXY_CONTRACT_NAME The name of the contract
  * @param LIBRARIES_CONTRACT_NAME The name of the libraries
  * @param CUSTOM_FEE_DATA The custom fee data
@@ -18,25 +32,40 @@ export async function upgradeProxy(
   LIBRARIES_CONTRACT_NAME?: string[],
   CUSTOM_FEE_DATA?: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
 ) {
-  if (CUSTOM_FEE_DATA !== undefined) {
-    const FEE_DATA: any = CUSTOM_FEE_DATA
-    kmsProvider.getFeeData = async () => FEE_DATA
+  useCustomFeeData(CUSTOM_FEE_DATA)
+  const { address: proxyAddress, libraries: currentLibraries } = addresses[NETWORK][PROXY_CONTRACT_NAME] as {
+    address: string
+    libraries?: Record<string, string> | string[]
   }
-  const deployerAddress = await kmsDeployer.getAddress()
+  await assertUpgradeCompatible(PROXY_CONTRACT_NAME, proxyAddress, currentLibraries)
+
+  const exportOptions = await exportOptionsFromEnv(async () => (await getSigner()).getAddress())
+  if (exportOptions) {
+    return exportUpgrade(PROXY_CONTRACT_NAME, LIBRARIES_CONTRACT_NAME ?? [], { ...exportOptions, CUSTOM_FEE_DATA })
+  }
+  const deployer = await getSigner()
+  const deployerAddress = await deployer.getAddress()
   const libraries: { [key: string]: string } = {}
+  const transactionHashes: string[] = []
 
   await confirmOrDie(
     `Upgrading ${PROXY_CONTRACT_NAME} contract on: ${NETWORK} network with ${deployerAddress}. Continue?`,
+    {
+      contract: PROXY_CONTRACT_NAME,
+      proxy: proxyAddress,
+      libraries: LIBRARIES_CONTRACT_NAME,
+    },
   )
 
   if (LIBRARIES_CONTRACT_NAME !== undefined) {
     print(colors.highlight, 'Deploying libraries...')
 
     for (const LIBRARY_CONTRACT_NAME of LIBRARIES_CONTRACT_NAME) {
-      const LibraryFactory = await ethers.getContractFactory(LIBRARY_CONTRACT_NAME, kmsDeployer)
+      const LibraryFactory = await ethers.getContractFactory(LIBRARY_CONTRACT_NAME, deployer)
       const library = await LibraryFactory.deploy()
       await library.waitForDeployment()
       libraries[LIBRARY_CONTRACT_NAME] = await library.getAddress()
+      transactionHashes.push(library.deploymentTransaction()!.hash)
     }
 
     print(colors.success, 'Libraries deployed!')
@@ -45,13 +74,22 @@ export async function upgradeProxy(
   print(colors.highlight, 'Upgrading proxy contract...')
   const ContractFactory = await ethers.getContractFactory(PROXY_CONTRACT_NAME, {
     libraries,
-    signer: kmsDeployer,
+    signer: deployer,
   })
   const contract = await upgrades.upgradeProxy(addresses[NETWORK][PROXY_CONTRACT_NAME].address, ContractFactory, {
     unsafeAllowLinkedLibraries: true,
   })
   await contract.waitForDeployment()
   print(colors.success, `${PROXY_CONTRACT_NAME} upgraded to: ${contract.address}`)
+  // hardhat-upgrades sets the upgrade transaction as deployTransaction
+  const { deployTransaction: upgradeTransaction } = contract as typeof contract & {
+    deployTransaction?: ContractTransactionResponse
+  }
+  recordTransaction({
+    transactionHash: upgradeTransaction?.hash,
+    address: await upgrades.erc1967.getImplementationAddress(await contract.getAddress()),
+    description: `Upgrade ${PROXY_CONTRACT_NAME}`,
+  })
 
   print(colors.highlight, 'Updating config files...')
   const deploymentInfo: any = {
@@ -66,7 +104,16 @@ export async function upgradeProxy(
   }
 
   console.log(deploymentInfo)
-  updateJsonFile(`addresses/${NETWORK}/index.json`, deploymentInfo)
+  const implementationHash = await implementationTransactionHash(deploymentInfo[PROXY_CONTRACT_NAME].implementation)
+  if (implementationHash) transactionHashes.push(implementationHash)
+  if (upgradeTransaction) transactionHashes.push(upgradeTransaction.hash)
+  await recordDeployment(NETWORK, {
+    action: 'UPGRADE',
+    contractName: PROXY_CONTRACT_NAME,
+    entry: deploymentInfo[PROXY_CONTRACT_NAME],
+    transactionHashes,
+    deployer: deployerAddress,
+  })
   print(colors.success, 'Config files updated!')
 
   if (LIBRARIES_CONTRACT_NAME) {
@@ -92,3 +139,59 @@ export async function upgradeProxy(
   })
   print(colors.success, `${PROXY_CONTRACT_NAME} verified!`)
 }
+
+/**
+ * @notice Exports the upgrade of a proxy contract as unsigned transactions
+ * @dev The new implementation is validated against the OpenZeppelin manifest, and its address and the addresses of the
+ * libraries are computed from the nonces of the signer, so the transactions must be sent in nonce order. The config
+ * files are not updated
+ * @param PROXY_CONTRACT_NAME The name of the contract
+ * @param LIBRARIES_CONTRACT_NAME The name of the libraries
+ * @param OPTIONS The signer, folder and custom fee data of the export
+ */
+async function exportUpgrade(
+  PROXY_CONTRACT_NAME: keyof (typeof addresses)[Network],
+  LIBRARIES_CONTRACT_NAME: string[],
+  OPTIONS: ExportOptions,
+) {
+  print(colors.warn, `Exporting the upgrade of ${PROXY_CONTRACT_NAME} on ${NETWORK} network`)
+  const proxyAddress = addresses[NETWORK][PROXY_CONTRACT_NAME].address
+  const from = ethers.getAddress(OPTIONS.from)
+  const nonce = await ethers.provider.getTransactionCount(from, 'pending')
+  const libraries: { [key: string]: string } = {}
+  const requests = []
+
+  for (const [index, LIBRARY_CONTRACT_NAME] of LIBRARIES_CONTRACT_NAME.entries()) {
+    const LibraryFactory = await ethers.getContractFactory(LIBRARY_CONTRACT_NAME)
+    libraries[LIBRARY_CONTRACT_NAME] = ethers.getCreateAddress({ from, nonce: nonce + index })
+    const { data } = await LibraryFactory.getDeployTransaction()
+    requests.push({ description: `Deploy ${LIBRARY_CONTRACT_NAME}`, data })
+  }
+
+  const ContractFactory = await ethers.getContractFactory(PROXY_CONTRACT_NAME, { libraries })
+  await upgrades.validateUpgrade(proxyAddress, ContractFactory, { unsafeAllowLinkedLibraries: true })
+  const implementation = ethers.getCreateAddress({ from, nonce: nonce + LIBRARIES_CONTRACT_NAME.length })
+  requests.push({
+    description: `Deploy ${PROXY_CONTRACT_NAME} implementation`,
+    data: (await ContractFactory.getDeployTransaction()).data,
+  })
+
+  // like upgrades.upgradeProxy, proxy admins of OpenZeppelin Contracts 5 only have upgradeAndCall
+  const proxyAdmin = new ethers.Contract(
+    await upgrades.erc1967.getAdminAddress(proxyAddress),
+    PROXY_ADMIN_ABI,
+    ethers.provider,
+  )
+  const upgradeInterfaceVersion = await proxyAdmin.UPGRADE_INTERFACE_VERSION().catch(() => undefined)
+  requests.push({
+    description: `Upgrade ${PROXY_CONTRACT_NAME} proxy`,
+    to: await proxyAdmin.getAddress(),
+    data:
+      upgradeInterfaceVersion === '5.0.0'
+        ? proxyAdmin.interface.encodeFunctionData('upgradeAndCall', [proxyAddress, implementation, '0x'])
+        : proxyAdmin.interface.encodeFunctionData('upgrade', [proxyAddress, implementation]),
+    fallbackGasLimit: UPGRADE_GAS_LIMIT,
+  })
+
+  return exportUnsignedTransactions(requests, OPTIONS)
+}
@@ -0,0 +1,282 @@
+import { ethers } from 'hardhat'
+import { AddressZero } from './constants'
+import { MarketplaceError } from './errors'
+import { RentalOffer, SftRentalOffer } from './types'
+import { IERC7589, IERC7589Legacy, NftRentalMarketplace, OriumSftMarketplace } from '../typechain-types'
+
+export interface RentalOfferViolation {
+  code: string
+  message: string
+}
+
+/**
+ * @notice A rental offer that breaks one or more rules of the marketplace
+ * @dev Explained like the revert of the first violation, with every violation in the message
+ */
+export class RentalOfferValidationError extends MarketplaceError {
+  readonly violations: RentalOfferViolation[]
+
+  constructor(violations: RentalOfferViolation[]) {
+    super(violations[0].message)
+    this.name = 'RentalOfferValidationError'
+    this.message = violations.map(({ code, message }) => `${code}: ${message}`).join('\n')
+    this.violations = violations
+  }
+}
+
+/**
+ * @notice Checks a rental offer against the rules of NftRentalMarketplace.createRentalOffer
+ * @dev Mirrors LibNftRentalMarketplace.validateCreateRentalOfferParams and the role deadline check,
+ * using the latest block timestamp as an approximation of the block the transaction will be mined in
+ * @param marketplace The NftRentalMarketplace contract
+ * @param offer The rental offer to be created
+ * @param sender The address that will send the transaction
+ * @returns Every violation found, empty if the offer is valid
+ */
+export async function validateNftRentalOffer(
+  marketplace: NftRentalMarketplace,
+  offer: RentalOffer,
+  sender: string,
+): Promise<RentalOfferViolation[]> {
+  const violations: RentalOfferViolation[] = []
+  const blockTimestamp = await latestBlockTimestamp()
+  const marketplaceRoyalties = await ethers.getContractAt(
+    'OriumMarketplaceRoyalties',
+    await marketplace.oriumMarketplaceRoyalties(),
+  )
+  const rolesRegistryAddress = await marketplaceRoyalties.nftRolesRegistryOf(offer.tokenAddress)
+
+  const tokenOwner = await tryCall(async () =>
+    (await ethers.getContractAt('IERC721', offer.tokenAddress)).ownerOf(offer.tokenId),
+  )
+  const rolesRegistryOwner = await tryCall(async () =>
+    (await ethers.getContractAt('IERC7432', rolesRegistryAddress)).ownerOf(offer.tokenAddress, offer.tokenId),
+  )
+  if (!isSameAddress(sender, tokenOwner) && !isSameAddress(sender, rolesRegistryOwner)) {
+    violations.push({
+      code: 'NOT_TOKEN_OWNER',
+      message: 'NftRentalMarketplace: only token owner can call this function',
+    })
+  }
+
+  if (!(await marketplaceRoyalties.isTrustedFeeTokenAddressForToken(offer.tokenAddress, offer.feeTokenAddress))) {
+    violations.push({
+      code: 'UNTRUSTED_FEE_TOKEN',
+      message: 'NftRentalMarketplace: tokenAddress or feeTokenAddress is not trusted',
+    })
+  }
+
+  const maxDuration = await marketplaceRoyalties.maxDuration()
+  if (!isValidDeadline(offer.deadline, blockTimestamp, maxDuration)) {
+    violations.push({ code: 'INVALID_DEADLINE', message: 'NftRentalMarketplace: Invalid deadline' })
+  }
+
+  violations.push(...validateOfferParams('NftRentalMarketplace', offer, sender, blockTimestamp))
+
+  if ((await marketplace.nonceDeadline(sender, offer.nonce)) !== BigInt(0)) {
+    violations.push({ code: 'NONCE_ALREADY_USED', message: 'NftRentalMarketplace: nonce already used' })
+  }
+
+  for (const role of offer.roles) {
+    if ((await marketplace.roleDeadline(role, offer.tokenAddress, offer.tokenId)) >= blockTimestamp) {
+      violations.push({
+        code: 'ROLE_IN_ACTIVE_OFFER',
+        message: 'NftRentalMarketplace: role still has an active offer or rental',
+      })
+      break
+    }
+  }
+
+  return violations
+}
+
+/**
+ * @notice Checks a rental offer against the rules of OriumSftMarketplace.createRentalOffer
+ * @dev Mirrors OriumSftMarketplace._validateCreateRentalOffer, LibOriumSftMarketplace.validateOffer and
+ * LibOriumSftMarketplace.validateCommitmentId, using the latest block timestamp as an approximation of the
+ * block the transaction will be mined in
+ * @param marketplace The OriumSftMarketplace contract
+ * @param offer The rental offer to be created
+ * @param sender The address that will send the transaction
+ * @returns Every violation found, empty if the offer is valid
+ */
+export async function validateSftRentalOffer(
+  marketplace: OriumSftMarketplace,
+  offer: SftRentalOffer,
+  sender: string,
+): Promise<RentalOfferViolation[]> {
+  const violations: RentalOfferViolation[] = []
+  const blockTimestamp = await latestBlockTimestamp()
+  const marketplaceRoyalties = await ethers.getContractAt(
+    'OriumMarketplaceRoyalties',
+    await marketplace.oriumMarketplaceRoyalties(),
+  )
+  const rolesRegistryAddress = await marketplaceRoyalties.sftRolesRegistryOf(offer.tokenAddress)
+
+  if (!(await marketplaceRoyalties.isTrustedFeeTokenAddressForToken(offer.tokenAddress, offer.feeTokenAddress))) {
+    violations.push({ code: 'UNTRUSTED_FEE_TOKEN', message: 'OriumSftMarketplace: tokenAddress is not trusted' })
+  }
+
+  const maxDuration = await marketplaceRoyalties.maxDuration()
+  if (!isValidDeadline(offer.deadline, blockTimestamp, maxDuration)) {
+    violations.push({ code: 'INVALID_DEADLINE', message: 'OriumSftMarketplace: Invalid deadline' })
+  }
+
+  if (BigInt(offer.tokenAmount) <= BigInt(0)) {
+    violations.push({
+      code: 'ZERO_TOKEN_AMOUNT',
+      message: 'OriumSftMarketplace: tokenAmount should be greater than 0',
+    })
+  }
+
+  violations.push(...validateOfferParams('OriumSftMarketplace', offer, sender, blockTimestamp))
+
+  if ((await marketplace.nonceDeadline(offer.lender, offer.nonce)) !== BigInt(0)) {
+    violations.push({ code: 'NONCE_ALREADY_USED', message: 'OriumSftMarketplace: nonce already used' })
+  }
+
+  if (BigInt(offer.commitmentId) === BigInt(0)) {
+    const balance = await (await ethers.getContractAt('IERC1155', offer.tokenAddress)).balanceOf(sender, offer.tokenId)
+    if (balance < BigInt(offer.tokenAmount)) {
+      violations.push({
+        code: 'INSUFFICIENT_BALANCE',
+        message: 'OriumSftMarketplace: caller does not have enough balance for the token',
+      })
+    }
+    return violations
+  }
+
+  const commitmentNonce = await marketplace.commitmentIdToNonce(rolesRegistryAddress, offer.commitmentId)
+  if (
+    commitmentNonce !== BigInt(0) &&
+    (await marketplace.nonceDeadline(offer.lender, commitmentNonce)) >= blockTimestamp
+  ) {
+    violations.push({
+      code: 'COMMITMENT_IN_ACTIVE_OFFER',
+      message: 'OriumSftMarketplace: commitmentId is in an active rental offer',
+    })
+  }
+
+  violations.push(...(await validateCommitment(marketplace, offer, rolesRegistryAddress)))
+
+  return violations
+}
+
+/**
+ * @dev Checks shared by LibNftRentalMarketplace.validateCreateRentalOfferParams and LibOriumSftMarketplace.validateOffer
+ */
+function validateOfferParams(
+  contractName: string,
+  offer: RentalOffer,
+  sender: string,
+  blockTimestamp: bigint,
+): RentalOfferViolation[] {
+  const violations: RentalOfferViolation[] = []
+
+  if (BigInt(offer.nonce) === BigInt(0)) {
+    violations.push({ code: 'ZERO_NONCE', message: `${contractName}: Nonce cannot be 0` })
+  }
+  if (!isSameAddress(sender, offer.lender)) {
+    violations.push({ code: 'LENDER_MISMATCH', message: `${contractName}: Sender and Lender mismatch` })
+  }
+  if (offer.roles.length === 0) {
+    violations.push({ code: 'EMPTY_ROLES', message: `${contractName}: roles should not be empty` })
+  }
+  if (offer.roles.length !== offer.rolesData.length) {
+    violations.push({
+      code: 'ROLES_DATA_LENGTH_MISMATCH',
+      message: `${contractName}: roles and rolesData should have the same length`,
+    })
+  }
+  if (isSameAddress(offer.borrower, AddressZero) && BigInt(offer.feeAmountPerSecond) === BigInt(0)) {
+    violations.push({
+      code: 'ZERO_FEE_PUBLIC_OFFER',
+      message: `${contractName}: feeAmountPerSecond should be greater than 0`,
+    })
+  }
+  // the contracts revert with an underflow before reaching this check when the deadline is already in the past
+  const deadline = BigInt(offer.deadline)
+  if (deadline > blockTimestamp && BigInt(offer.minDuration) > deadline - blockTimestamp) {
+    violations.push({ code: 'INVALID_MIN_DURATION', message: `${contractName}: minDuration is invalid` })
+  }
+
+  return violations
+}
+
+/**
+ * @dev Mirrors LibOriumSftMarketplace.validateCommitmentId, including the legacy registry used by Aavegotchi wearables
+ */
+async function validateCommitment(
+  marketplace: OriumSftMarketplace,
+  offer: SftRentalOffer,
+  rolesRegistryAddress: string,
+): Promise<RentalOfferViolation[]> {
+  const violations: RentalOfferViolation[] = []
+  const isLegacy = isSameAddress(offer.tokenAddress, await marketplace.aavegotchiWearableAddress())
+  const rolesRegistry: IERC7589 | IERC7589Legacy = isLegacy
+    ? await ethers.getContractAt('IERC7589Legacy', rolesRegistryAddress)
+    : await ethers.getContractAt('IERC7589', rolesRegistryAddress)
+
+  const grantor = await tryCall(() =>
+    isLegacy
+      ? (rolesRegistry as IERC7589Legacy).grantorOf(offer.commitmentId)
+      : (rolesRegistry as IERC7589).ownerOf(offer.commitmentId),
+  )
+  if (!isSameAddress(grantor, offer.lender)) {
+    violations.push({
+      code: 'COMMITMENT_GRANTOR_MISMATCH',
+      message: 'OriumSftMarketplace: expected grantor does not match the grantor of the commitmentId',
+    })
+  }
+
+  const tokenAmount = await tryCall(() => rolesRegistry.tokenAmountOf(offer.commitmentId))
+  if (tokenAmount !== BigInt(offer.tokenAmount)) {
+    violations.push({
+      code: 'COMMITMENT_TOKEN_AMOUNT_MISMATCH',
+      message: "OriumSftMarketplace: tokenAmount provided does not match commitment's tokenAmount",
+    })
+  }
+
+  if (!isLegacy) {
+    const tokenAddress = await tryCall(() => rolesRegistry.tokenAddressOf(offer.commitmentId))
+    if (!isSameAddress(tokenAddress, offer.tokenAddress)) {
+      violations.push({
+        code: 'COMMITMENT_TOKEN_ADDRESS_MISMATCH',
+        message: "OriumSftMarketplace: tokenAddress provided does not match commitment's tokenAddress",
+      })
+    }
+  }
+
+  const tokenId = await tryCall(() => rolesRegistry.tokenIdOf(offer.commitmentId))
+  if (tokenId !== BigInt(offer.tokenId)) {
+    violations.push({
+      code: 'COMMITMENT_TOKEN_ID_MISMATCH',
+      message: "OriumSftMarketplace: tokenId provided does not match commitment's tokenId",
+    })
+  }
+
+  return violations
+}
+
+function isValidDeadline(deadline: number, blockTimestamp: bigint, maxDuration: bigint) {
+  return BigInt(deadline) <= blockTimestamp + maxDuration && BigInt(deadline) > blockTimestamp
+}
+
+function isSameAddress(a: string | undefined, b: string | undefined) {
+  return a !== undefined && b !== undefined && a.toLowerCase() === b.toLowerCase()
+}
+
+async function latestBlockTimestamp() {
+  return BigInt((await ethers.provider.getBlock('latest'))!.timestamp)
+}
+
+/**
+ * @dev Calls that revert (e.g. ownerOf of a token that does not exist) are reported as undefined
+ */
+async function tryCall<T>(call: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await call()
+  } catch {
+    return undefined
+  }
+}
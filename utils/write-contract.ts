@@ -1,39 +1,87 @@
 import { network, ethers } from 'hardhat'
 import config, { Network } from '../addresses'
 import { print, colors, confirmOrDie } from '../utils/misc'
-import { kmsProvider } from './deployer'
+import { getSigner, useCustomFeeData } from './signer'
 import { Signer } from 'ethers'
+import { withRevertDecoding } from './errors'
+import { recordTransaction } from './audit-journal'
+import { printSimulation, simulateContractCalls, SimulationReport } from './simulate'
+import { exportUnsignedTransactions, UnsignedTransaction } from './offline-transaction'
+import type { ContractCall } from './safe-batch'
 
-const NETWORK = network.name as Network
+// the hardhat network forks Polygon (see hardhat.config.ts), so forks use the addresses of FORK_NETWORK
+const NETWORK = (
+  network.name === 'hardhat' || network.name === 'localhost' ? process.env.FORK_NETWORK ?? 'polygon' : network.name
+) as Network
+// the gas of an exported call cannot be estimated when it depends on a previous call of the same export
+const DEPENDENT_CALL_GAS_LIMIT = BigInt(1_000_000)
+
+export type SendMode = 'send' | 'dry-run' | 'export'
+
+interface CallOptions {
+  CUSTOM_FEE_DATA?: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  CUSTOM_SIGNER?: Signer
+  DRY_RUN?: boolean
+  DRY_RUN_FROM?: string
+  EXPORT_UNSIGNED?: string
+  EXPORT_FROM?: string
+}
+
+/**
+ * @notice Tells whether transactions are sent, simulated or exported, see callContractFunction
+ * @param OPTIONS The dry-run and export settings, the DRY_RUN and EXPORT_UNSIGNED environment variables by default
+ * @returns dry-run when DRY_RUN is set, export when EXPORT_UNSIGNED is set, send otherwise
+ */
+export function sendModeOf(OPTIONS: Pick<CallOptions, 'DRY_RUN' | 'EXPORT_UNSIGNED'> = {}): SendMode {
+  if (OPTIONS.DRY_RUN ?? process.env.DRY_RUN === 'true') return 'dry-run'
+  if (OPTIONS.EXPORT_UNSIGNED ?? process.env.EXPORT_UNSIGNED) return 'export'
+  return 'send'
+}
 
 /**
  * @notice Send a transaction to a contract
- * @dev The contract must be deployed on the network and the solidity file in the contracts folder
+ * @dev The contract must be deployed on the network and the solidity file in the contracts folder. The transaction is
+ * sent by CUSTOM_SIGNER, or by the signer of the network, see getSigner.
+ * In dry-run mode, enabled with the DRY_RUN option or the DRY_RUN=true environment variable, the call is simulated
+ * instead: nothing is broadcast and no confirmation is asked. DRY_RUN_FROM simulates the call from another sender,
+ * such as the Multisig. In export mode, enabled with the EXPORT_UNSIGNED option or environment variable, the unsigned
+ * transaction is written to a JSON file in the EXPORT_UNSIGNED folder instead, to be signed offline by EXPORT_FROM
+ * and sent with the tx:broadcast task
  * @param CONTRACT_NAME The name of the contract
  * @param FUNCTION_NAME The function to call
  * @param FUNCTION_ARGUMENTS The arguments to pass to the function
- * @param OPTIONS The custom fee data, signer or contract file name
+ * @param OPTIONS The custom fee data, signer, contract address, dry-run or export settings
+ * @returns The simulation report in dry-run mode, the unsigned transaction in export mode
+ * @throws MarketplaceError when the transaction or the simulation reverts
  */
 export async function callContractFunction(
   CONTRACT_NAME: keyof (typeof config)[Network] | string,
   FUNCTION_NAME: string,
   FUNCTION_ARGUMENTS: any,
-  OPTIONS: {
-    CUSTOM_FEE_DATA?: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
-    CUSTOM_SIGNER?: Signer
-    CUSTOM_CONTRACT_ADDRESS?: string
-  },
-) {
+  OPTIONS: CallOptions & { CUSTOM_CONTRACT_ADDRESS?: string },
+): Promise<SimulationReport | UnsignedTransaction[] | void> {
   const { CUSTOM_FEE_DATA, CUSTOM_SIGNER, CUSTOM_CONTRACT_ADDRESS } = OPTIONS
-  const signer = CUSTOM_SIGNER || (await ethers.getSigners())[0]
+  const call = {
+    contractName: CONTRACT_NAME,
+    contractAddress: CUSTOM_CONTRACT_ADDRESS,
+    functionName: FUNCTION_NAME,
+    args: FUNCTION_ARGUMENTS,
+  }
   console.log('CONTRACT_NAME', CONTRACT_NAME)
+  const mode = sendModeOf(OPTIONS)
+  if (mode === 'dry-run') return (await simulateCalls([call], OPTIONS))[0]
+  if (mode === 'export') return exportCalls([call], OPTIONS)
   await confirmOrDie(
     `Are you sure you want to call ${FUNCTION_NAME} in ${CONTRACT_NAME} contract on ${NETWORK} network?`,
+    {
+      contract: CONTRACT_NAME,
+      address: CUSTOM_CONTRACT_ADDRESS,
+      function: FUNCTION_NAME,
+      arguments: FUNCTION_ARGUMENTS,
+    },
   )
-  if (CUSTOM_FEE_DATA !== undefined) {
-    const FEE_DATA: any = CUSTOM_FEE_DATA
-    kmsProvider.getFeeData = async () => FEE_DATA
-  }
+  const signer = CUSTOM_SIGNER || (await getSigner())
+  useCustomFeeData(CUSTOM_FEE_DATA)
   print(colors.warn, `Arguments:`)
   console.log(FUNCTION_ARGUMENTS)
   const contract = await ethers.getContractAt(
@@ -41,9 +89,99 @@ export async function callContractFunction(
     CUSTOM_CONTRACT_ADDRESS ?? config[NETWORK][CONTRACT_NAME as keyof (typeof config)[Network]].address,
     signer,
   )
-  print(colors.highlight, `Sending Transaction...`)
-  const response = await contract[FUNCTION_NAME](...FUNCTION_ARGUMENTS)
-  print(colors.highlight, `Waiting for transaction to be mined...`)
-  const transaction = await response.wait()
+  const transaction = await withRevertDecoding(async () => {
+    print(colors.highlight, `Sending Transaction...`)
+    const response = await contract[FUNCTION_NAME](...FUNCTION_ARGUMENTS)
+    print(colors.highlight, `Waiting for transaction to be mined...`)
+    return response.wait()
+  })
   print(colors.bigSuccess, `Transaction sent! txHash: ${transaction?.hash}`)
+  recordTransaction({ transactionHash: transaction?.hash, description: `${CONTRACT_NAME}.${FUNCTION_NAME}` })
+}
+
+/**
+ * @notice Sends contract calls in order, such as approvals followed by the call that needs them
+ * @dev Each call is sent with callContractFunction. In dry-run mode, the calls are simulated one after the other, see
+ * simulateContractCalls. In export mode, they are exported with consecutive nonces, and the calls after the first one
+ * fall back to DEPENDENT_CALL_GAS_LIMIT when their gas cannot be estimated before the previous ones are sent
+ * @param calls The contracts, functions, arguments and native token values of the calls
+ * @param OPTIONS The custom fee data, signer, dry-run or export settings
+ * @returns The simulation reports in dry-run mode, the unsigned transactions in export mode
+ * @throws MarketplaceError when a transaction or a simulation reverts
+ */
+export async function callContractFunctions(
+  calls: ContractCall[],
+  OPTIONS: CallOptions = {},
+): Promise<SimulationReport[] | UnsignedTransaction[] | void> {
+  const mode = sendModeOf(OPTIONS)
+  if (mode === 'dry-run') return simulateCalls(calls, OPTIONS)
+  if (mode === 'export') return exportCalls(calls, OPTIONS)
+  for (const { contractName, contractAddress, functionName, args, value } of calls) {
+    await callContractFunction(contractName, functionName, argumentsOf(args, value), {
+      ...OPTIONS,
+      CUSTOM_CONTRACT_ADDRESS: contractAddress,
+    })
+  }
+}
+
+async function simulateCalls(calls: ContractCall[], OPTIONS: CallOptions): Promise<SimulationReport[]> {
+  const from = await senderOf(OPTIONS, OPTIONS.DRY_RUN_FROM ?? process.env.DRY_RUN_FROM)
+  const contractCalls = []
+  for (const { contractName, contractAddress, functionName, args, value } of calls) {
+    print(colors.warn, `Dry run of ${functionName} in ${contractName} contract on ${network.name} network`)
+    console.log(args)
+    contractCalls.push({
+      contract: await contractOf(contractName, contractAddress),
+      functionName,
+      args: argumentsOf(args, value),
+    })
+  }
+
+  const reports = await simulateContractCalls(contractCalls, from, OPTIONS.CUSTOM_FEE_DATA?.maxFeePerGas)
+  for (const report of reports) await printSimulation(report)
+  return reports
+}
+
+async function exportCalls(calls: ContractCall[], OPTIONS: CallOptions): Promise<UnsignedTransaction[]> {
+  const requests = []
+  for (const [index, { contractName, contractAddress, functionName, args, value }] of calls.entries()) {
+    const contract = await contractOf(contractName, contractAddress)
+    print(colors.warn, `Exporting ${functionName} in ${contractName} contract on ${network.name} network`)
+    console.log(args)
+    // like contract calls, the arguments may end with the transaction overrides, such as the native token value
+    const { inputs } = contract.interface.getFunction(functionName)!
+    const overrides: { value?: bigint } = args.length > inputs.length ? (args[inputs.length] as object) : {}
+    const callValue = value ?? overrides.value
+    requests.push({
+      description: `${contractName} ${functionName}`,
+      to: await contract.getAddress(),
+      data: contract.interface.encodeFunctionData(functionName, args.slice(0, inputs.length)),
+      value: callValue !== undefined ? BigInt(callValue) : undefined,
+      fallbackGasLimit: index > 0 ? DEPENDENT_CALL_GAS_LIMIT : undefined,
+    })
+  }
+
+  return exportUnsignedTransactions(requests, {
+    directory: (OPTIONS.EXPORT_UNSIGNED ?? process.env.EXPORT_UNSIGNED)!,
+    from: await senderOf(OPTIONS, OPTIONS.EXPORT_FROM ?? process.env.EXPORT_FROM),
+    CUSTOM_FEE_DATA: OPTIONS.CUSTOM_FEE_DATA,
+  })
+}
+
+/**
+ * @dev The signer is only resolved when no sender is given, since it may need secrets, such as an AWS KMS key
+ */
+async function senderOf(OPTIONS: CallOptions, from?: string): Promise<string> {
+  return from ?? (await (OPTIONS.CUSTOM_SIGNER ?? (await getSigner())).getAddress())
+}
+
+function contractOf(contractName: ContractCall['contractName'], contractAddress?: string) {
+  return ethers.getContractAt(
+    contractName,
+    contractAddress ?? config[NETWORK][contractName as keyof (typeof config)[Network]].address,
+  )
+}
+
+function argumentsOf(args: unknown[], value?: bigint): unknown[] {
+  return value === undefined ? args : [...args, { value }]
 }